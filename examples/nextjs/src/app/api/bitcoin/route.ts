@@ -0,0 +1,7 @@
+import { getBitcoinPrice } from "@/services/bitcoin";
+
+export async function GET() {
+  const bitcoinPriceResult = await getBitcoinPrice();
+
+  return Response.json(bitcoinPriceResult, { status: bitcoinPriceResult.success ? 200 : 502 });
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useState } from "react";
+import { fetchBitcoinPrice } from "@/services/bitcoin-client";
+
+const currencyFormat = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+export function BitcoinPrice({ initialPrice }: { initialPrice: number }) {
+  const [price, setPrice] = useState(initialPrice);
+  const [error, setError] = useState<string>();
+  const [loading, setLoading] = useState(false);
+
+  async function refresh() {
+    setLoading(true);
+    const priceResult = await fetchBitcoinPrice();
+    setLoading(false);
+
+    if (!priceResult.success) {
+      setError(priceResult.error);
+      return;
+    }
+
+    setError(undefined);
+    setPrice(priceResult.data);
+  }
+
+  return (
+    <div className="flex flex-col gap-2 items-center sm:items-start">
+      <p className="text-2xl">{currencyFormat.format(price)}</p>
+      {error && <p className="text-sm text-red-600">Error: {error}</p>}
+      <button
+        className="rounded-full border border-solid border-black/[.08] dark:border-white/[.145] transition-colors hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] font-medium text-sm px-4 h-10 disabled:opacity-50"
+        onClick={refresh}
+        disabled={loading}
+      >
+        {loading ? 'Refreshing…' : 'Refresh'}
+      </button>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { getBitcoinPrice } from "@/services/bitcoin";
+import { BitcoinPrice } from "./bitcoin-price";
 import Image from "next/image";
 import { err, ok, resultfy } from "tryless";
 import z from "zod";
@@ -11,13 +12,12 @@ export default async function Home() {
   }
 
   const bitcoinPrice = bitcoinPriceResult.data;
-  const formattedBitcoinPrice = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(bitcoinPrice);
 
   return (
     <div className="font-sans grid grid-rows-[20px_1fr_20px] items-center justify-items-center min-h-screen p-8 pb-20 gap-16 sm:p-20">
       <main className="flex flex-col gap-[32px] row-start-2 items-center sm:items-start">
         <h1 className="text-4xl font-bold">Bitcoin Price</h1>
-        <p className="text-2xl">{formattedBitcoinPrice}</p>
+        <BitcoinPrice initialPrice={bitcoinPrice} />
         <ol className="font-mono list-inside list-decimal text-sm/6 text-center sm:text-left">
           <li className="mb-2 tracking-[-.01em]">
             Get started by editing{" "}
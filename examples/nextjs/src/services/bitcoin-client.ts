@@ -0,0 +1,27 @@
+import { err, resultfy, fromJSON, type Err } from "tryless";
+import type { BitcoinPriceResult } from "./bitcoin";
+
+// `toJSON` sends `Error` instances, such as a `ZodError`, as plain `{ name, message }` objects
+type SerializedError = { name: string; message: string };
+type Serialized<T> = T extends Error ? SerializedError : T;
+type Revived<R> = R extends Err<infer E, infer U, infer C> ? Err<E, Serialized<U>, Serialized<C>> : R;
+
+export type RevivedBitcoinPriceResult = Revived<BitcoinPriceResult>;
+
+const safeFetch = resultfy(fetch, 'fetch:fetch-error');
+
+export async function fetchBitcoinPrice() {
+  const responseResult = await safeFetch('/api/bitcoin');
+
+  if (!responseResult.success) {
+    return responseResult;
+  }
+
+  const textResult = await resultfy(responseResult.data.text());
+
+  if (!textResult.success) {
+    return err('bitcoin:invalid-json', textResult.reason);
+  }
+
+  return fromJSON<RevivedBitcoinPriceResult>(textResult.data);
+}
@@ -60,4 +60,6 @@ export async function getBitcoinPrice() {
   const price = bitcoinParseResult.data;
 
   return ok(price);
-}
\ No newline at end of file
+}
+
+export type BitcoinPriceResult = Awaited<ReturnType<typeof getBitcoinPrice>>;
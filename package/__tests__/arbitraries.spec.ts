@@ -0,0 +1,155 @@
+import { resultArbitraries, checkResultLaws, type IArbitrary, type IFastCheck } from '../src/arbitraries';
+import { ok, err, Ok, Err, type IUnknownOkErr } from '../src';
+import { describe, it, expect } from 'vitest';
+
+type IRandom = () => number;
+
+/**
+ * Seeded pseudo-random generator (mulberry32)
+ */
+function random(seed: number): IRandom {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+class Arbitrary<T> implements IArbitrary<T> {
+  constructor(public readonly generate: (rng: IRandom) => T) {}
+
+  map<U>(mapper: (value: T) => U): Arbitrary<U> {
+    return new Arbitrary((rng) => mapper(this.generate(rng)));
+  }
+}
+
+const hash = (value: string) => [...value].reduce((h, char) => Math.imul(h ^ char.charCodeAt(0), 16777619), 2166136261);
+
+const pick = <T>(rng: IRandom, values: readonly T[]) => values[Math.floor(rng() * values.length)];
+
+/**
+ * Minimal fast-check compatible module, so the helpers are tested without depending on fast-check
+ */
+const core = {
+  constantFrom: <T>(...values: T[]) => new Arbitrary((rng) => pick(rng, values)),
+  oneof: <T>(...arbitraries: IArbitrary<T>[]) => new Arbitrary((rng) => (pick(rng, arbitraries) as Arbitrary<T>).generate(rng)),
+  tuple: <T extends unknown[]>(...arbitraries: { [K in keyof T]: IArbitrary<T[K]> }) => (
+    new Arbitrary((rng) => (arbitraries as Arbitrary<unknown>[]).map((arbitrary) => arbitrary.generate(rng)) as T)
+  ),
+  func: <T>(arbitrary: IArbitrary<T>) => new Arbitrary((rng) => {
+    const seed = Math.floor(rng() * 2 ** 31);
+    return (...args: unknown[]) => (arbitrary as Arbitrary<T>).generate(random(seed ^ hash(JSON.stringify(args))));
+  }),
+  property: <T>(arbitrary: IArbitrary<T>, predicate: (value: T) => boolean | void) => ({ arbitrary, predicate }),
+  assert: (property: unknown, parameters: { numRuns?: number } = {}) => {
+    const { arbitrary, predicate } = property as { arbitrary: Arbitrary<unknown>; predicate: (value: unknown) => boolean | void };
+    const rng = random(42);
+
+    for (let run = 1; run <= (parameters.numRuns ?? 100); run++) {
+      const value = arbitrary.generate(rng);
+
+      if (predicate(value) === false) {
+        throw new Error(`Property failed after ${run} tests\nCounterexample: ${JSON.stringify(value)}`);
+      }
+    }
+  },
+} satisfies IFastCheck;
+
+const fc = {
+  ...core,
+  integer: () => new Arbitrary((rng) => Math.floor(rng() * 200) - 100),
+  string: () => new Arbitrary((rng) => rng().toString(36).slice(2, 2 + Math.floor(rng() * 6))),
+};
+
+const sample = <T>(arbitrary: IArbitrary<T>, count = 50) => {
+  const rng = random(7);
+  return Array.from({ length: count }, () => (arbitrary as Arbitrary<T>).generate(rng));
+};
+
+/**
+ * Tests for result arbitraries and law checks
+ */
+describe('arbitraries', () => {
+  describe('resultArbitraries', () => {
+    const arb = resultArbitraries(fc);
+
+    it('should generate success results from the data arbitrary', () => {
+      for (const result of sample(arb.ok(fc.integer()))) {
+        expect(result).toBeInstanceOf(Ok);
+        expect(Number.isInteger(result.data)).toBe(true);
+      }
+    });
+
+    it('should generate errors from the error names and reasons, without stack traces', () => {
+      const results = sample(arb.err(['NotFound', 'Forbidden'], fc.string()));
+
+      for (const result of results) {
+        expect(result).toBeInstanceOf(Err);
+        expect(['NotFound', 'Forbidden']).toContain(result.error);
+        expect(typeof result.reason).toBe('string');
+        expect(result.stack).toBeUndefined();
+      }
+      expect(new Set(results.map((result) => result.error)).size).toBe(2);
+    });
+
+    it('should generate undefined reasons without a reason arbitrary', () => {
+      for (const result of sample(arb.err(['NotFound']))) {
+        expect(result.reason).toBeUndefined();
+      }
+    });
+
+    it('should generate both outcomes', () => {
+      const results = sample(arb.result(fc.integer(), ['NotFound']));
+
+      expect(results.some((result) => result.success)).toBe(true);
+      expect(results.some((result) => !result.success)).toBe(true);
+    });
+  });
+
+  describe('checkResultLaws', () => {
+    const options = { data: fc.integer(), errors: ['NotFound', 'Forbidden'], reason: fc.string(), numRuns: 50 };
+
+    it('should hold for the built-in combinators', () => {
+      expect(() => checkResultLaws(fc, options)).not.toThrow();
+    });
+
+    it('should hold for equivalent custom combinators', () => {
+      expect(() => checkResultLaws(fc, {
+        ...options,
+        combinators: {
+          andThen: (result, fn) => (result.success ? fn(result.data) : result),
+          mapData: (result, fn) => (result.success ? ok(fn(result.data)) : result),
+          or: (result, other) => (result.success ? result : other),
+        },
+      })).not.toThrow();
+    });
+
+    it('should report the law broken by a combinator', () => {
+      expect(() => checkResultLaws(fc, {
+        ...options,
+        combinators: { andThen: (result, fn) => (result.success ? fn(result.data) : ok(undefined)) },
+      })).toThrow(/^Result law "andThen right identity" does not hold: Property failed/);
+
+      expect(() => checkResultLaws(fc, {
+        ...options,
+        combinators: { or: (_result, other) => other },
+      })).toThrow('Result law "or semantics" does not hold');
+
+      expect(() => checkResultLaws(fc, {
+        ...options,
+        combinators: { mapData: (result, fn) => (result.success ? ok(fn(result.data)) : err('Unknown')) },
+      })).toThrow('Result law "mapData identity" does not hold');
+    });
+
+    it('should compare results with a custom equality', () => {
+      const equals = (a: IUnknownOkErr, b: IUnknownOkErr) => a.success === b.success;
+
+      expect(() => checkResultLaws(fc, {
+        ...options,
+        equals,
+        combinators: { mapData: (result, fn) => (result.success ? ok(fn(result.data)) : err('Unknown')) },
+      })).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { Err, defineErrors, reasonType, err, ok } from '../src';
+import { describe, it, expect } from 'vitest';
+
+const UserErrors = defineErrors({
+  NotFound: { message: (id: string) => `User ${id} not found`, status: 404 },
+  Unauthorized: { message: 'Login required', status: 401 },
+  Invalid: { reason: reasonType<string[]>(), status: 422 },
+});
+
+/**
+ * Tests for the defineErrors error catalog
+ */
+describe('defineErrors', () => {
+  describe('constructors', () => {
+    it('should create errors with the declared name and reason', () => {
+      const result = UserErrors.NotFound('42');
+
+      expect(result).toBeInstanceOf(Err);
+      expect(result.error).toBe('NotFound');
+      expect(result.reason).toBe('42');
+    });
+
+    it('should allow omitting undefined reasons', () => {
+      const result = UserErrors.Unauthorized();
+
+      expect(result.error).toBe('Unauthorized');
+      expect(result.reason).toBeUndefined();
+    });
+
+    it('should accept a cause', () => {
+      const cause = err('db:timeout');
+
+      expect(UserErrors.Invalid(['email'], { cause }).cause).toBe(cause);
+    });
+
+    it('should exclude the constructor from the stack trace', () => {
+      const result = UserErrors.NotFound('42');
+
+      expect(result.stack).toContain('catalog.spec.ts');
+      expect(result.stack).not.toContain('catalog.ts');
+    });
+
+    it('should expose the error name and metadata', () => {
+      expect(UserErrors.NotFound.error).toBe('NotFound');
+      expect(UserErrors.NotFound.meta.status).toBe(404);
+    });
+  });
+
+  describe('type guards', () => {
+    it('should recognize errors of the catalog', () => {
+      expect(UserErrors.is(UserErrors.NotFound('42'))).toBe(true);
+      expect(UserErrors.is(err('NotFound', '42'))).toBe(true);
+      expect(UserErrors.is({ success: false, error: 'Invalid', reason: [] })).toBe(true);
+    });
+
+    it('should reject other values', () => {
+      expect(UserErrors.is(err('Other'))).toBe(false);
+      expect(UserErrors.is(err('toString'))).toBe(false);
+      expect(UserErrors.is(ok('NotFound'))).toBe(false);
+      expect(UserErrors.is(null)).toBe(false);
+      expect(UserErrors.is('NotFound')).toBe(false);
+    });
+
+    it('should filter by name', () => {
+      const result = UserErrors.NotFound('42');
+
+      expect(UserErrors.is(result, 'NotFound', 'Unauthorized')).toBe(true);
+      expect(UserErrors.is(result, 'Invalid')).toBe(false);
+      expect(UserErrors.NotFound.is(result)).toBe(true);
+      expect(UserErrors.Invalid.is(result)).toBe(false);
+    });
+  });
+
+  describe('metadata', () => {
+    it('should look up metadata by name or error', () => {
+      expect(UserErrors.meta('Unauthorized').status).toBe(401);
+      expect(UserErrors.meta(UserErrors.Invalid([])).status).toBe(422);
+    });
+
+    it('should build messages', () => {
+      expect(UserErrors.message(UserErrors.NotFound('42'))).toBe('User 42 not found');
+      expect(UserErrors.message(UserErrors.Unauthorized())).toBe('Login required');
+      expect(UserErrors.message(UserErrors.Invalid(['email']))).toBe('Invalid');
+    });
+
+    it('should keep the declarations', () => {
+      expect(Object.keys(UserErrors.definitions)).toEqual(['NotFound', 'Unauthorized', 'Invalid']);
+    });
+  });
+});
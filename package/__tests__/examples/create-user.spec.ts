@@ -1,4 +1,4 @@
-import { ok, err, resultfy } from '../../src';
+import { ok, err, resultfy, Result } from '../../src';
 import { describe, it, expect, beforeEach } from 'vitest';
 
 /**
@@ -97,6 +97,17 @@ describe('create user example', () => {
     return ok(newUser);
   }
 
+  /**
+   * Validation that reports every invalid field at once
+   */
+  function validateUser(attributes: ICreateUserAttributes) {
+    return Result.validate({
+      name: attributes.name ? ok(attributes.name) : err('Validation', 'Name is required'),
+      email: attributes.email.includes('@') ? ok(attributes.email) : err('EmailFormat', 'Email must be valid'),
+      age: attributes.age >= 18 ? ok(attributes.age) : err('Underage', 'User must be at least 18 years old'),
+    });
+  }
+
   describe('successful user creation', () => {
     it('should create a user with valid attributes', () => {
       const attributes: ICreateUserAttributes = {
@@ -260,6 +271,29 @@ describe('create user example', () => {
     });
   });
 
+  describe('accumulated validation', () => {
+    it('should return the validated attributes', () => {
+      const result = validateUser({ name: 'Alice', age: 25, email: 'alice@example.com' });
+
+      expect(result.unwrap()).toEqual({ name: 'Alice', age: 25, email: 'alice@example.com' });
+    });
+
+    it('should report every invalid field in a single error', () => {
+      const result = validateUser({ name: '', age: 16, email: 'invalid-email' });
+
+      expect(result.success).toBe(false);
+
+      if (!result.success) {
+        expect(result.error).toBe('validation');
+        expect(result.reason.map((issue) => [issue.path.join('.'), issue.reason])).toEqual([
+          ['name', 'Name is required'],
+          ['email', 'Email must be valid'],
+          ['age', 'User must be at least 18 years old'],
+        ]);
+      }
+    });
+  });
+
   describe('type narrowing', () => {
     it('should narrow types based on success property', () => {
       const attributes: ICreateUserAttributes = {
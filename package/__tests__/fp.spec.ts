@@ -0,0 +1,209 @@
+import { pipe, flow, map, mapErr, mapReason, andThen, orElse, or, tap, tapErr, unwrap, unwrapOr, unwrapOrElse } from '../src/fp';
+import { ok, err, Ok, Err, UnwrapError, type IUnknownOkErr } from '../src';
+import { describe, it, expect, vi } from 'vitest';
+
+/**
+ * Tests for the pipeable functional API
+ */
+describe('tryless/fp', () => {
+  const plainOk = JSON.parse('{"success":true,"data":2}') as { success: true; data: number };
+  const plainErr = JSON.parse('{"success":false,"error":"NotFound","reason":"user"}') as { success: false; error: 'NotFound'; reason: string };
+
+  describe('pipe', () => {
+    it('should return the value when no function is given', () => {
+      expect(pipe(1)).toBe(1);
+    });
+
+    it('should apply the functions left to right', () => {
+      expect(pipe(1, (n) => n + 1, (n) => n * 10, String)).toBe('20');
+    });
+
+    it('should run a pipeline of result operators', () => {
+      const total = pipe(
+        ok(2),
+        map((n) => n + 1),
+        andThen((n) => n > 2 ? ok(n * 2) : err('TooSmall', n)),
+        map(String),
+        unwrapOr('none'),
+      );
+
+      expect(total).toBe('6');
+    });
+  });
+
+  describe('flow', () => {
+    it('should compose the functions left to right', () => {
+      const parse = flow(
+        (input: string) => input.length > 0 ? ok(input) : err('Empty'),
+        map((input) => input.toUpperCase()),
+        unwrapOr(''),
+      );
+
+      expect(parse('abc')).toBe('ABC');
+      expect(parse('')).toBe('');
+    });
+
+    it('should forward every argument and this to the first function', () => {
+      const first = vi.fn(function (this: unknown, a: number, b: number) { return a + b; });
+      const composed = flow(first, (n) => n * 2);
+      const target = { composed };
+
+      expect(target.composed(1, 2)).toBe(6);
+      expect(first.mock.contexts[0]).toBe(target);
+    });
+
+    it('should throw when no function is given', () => {
+      expect(() => (flow as unknown as () => unknown)()).toThrow('flow expects at least one function');
+    });
+  });
+
+  describe('map', () => {
+    it('should transform the data into a new Ok', () => {
+      const mapped = map((n: number) => n * 2)(ok(2));
+
+      expect(mapped).toBeInstanceOf(Ok);
+      expect(mapped).toEqual(ok(4));
+    });
+
+    it('should return errors untouched', () => {
+      const error = err('NotFound');
+      const fn = vi.fn();
+
+      expect(map(fn)(error)).toBe(error);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should accept plain results', () => {
+      expect(map((n: number) => n * 2)(plainOk)).toEqual(ok(4));
+      expect(map((n: number) => n * 2)(plainErr)).toBe(plainErr);
+    });
+  });
+
+  describe('mapErr and mapReason', () => {
+    it('should transform the error identifier, keeping the reason and stack', () => {
+      const error = err('NotFound', 'user');
+      const mapped = mapErr((name: string) => `user:${name}`)(error) as Err<string, string>;
+
+      expect(mapped).toBeInstanceOf(Err);
+      expect(mapped.error).toBe('user:NotFound');
+      expect(mapped.reason).toBe('user');
+      expect(mapped.stack).toBe(error.stack);
+    });
+
+    it('should transform the reason, keeping the error identifier', () => {
+      const mapped = mapReason((reason: unknown) => ({ reason }))(err('NotFound', 'user')) as Err<string, unknown>;
+
+      expect(mapped.error).toBe('NotFound');
+      expect(mapped.reason).toEqual({ reason: 'user' });
+    });
+
+    it('should upgrade plain errors to Err', () => {
+      const renamed = mapErr((name: string) => `user:${name}`)(plainErr);
+      const reasoned = mapReason((reason: unknown) => String(reason).length)(plainErr);
+
+      expect(renamed).toBeInstanceOf(Err);
+      expect(renamed).toMatchObject({ error: 'user:NotFound', reason: 'user' });
+      expect(reasoned).toMatchObject({ error: 'NotFound', reason: 4 });
+    });
+
+    it('should return successes untouched', () => {
+      const success = ok(1);
+
+      expect(mapErr(() => 'other')(success)).toBe(success);
+      expect(mapReason(() => 'other')(success)).toBe(success);
+    });
+  });
+
+  describe('andThen', () => {
+    it('should chain on the data', () => {
+      expect(andThen((n: number) => ok(n + 1))(ok(1))).toEqual(ok(2));
+      expect(andThen((n: number) => ok(n + 1))(plainOk)).toEqual(ok(3));
+    });
+
+    it('should return errors untouched', () => {
+      const error = err('NotFound');
+
+      expect(andThen(() => ok(1))(error)).toBe(error);
+    });
+  });
+
+  describe('orElse', () => {
+    it('should recover from errors', () => {
+      expect(orElse(() => ok('fallback'))(err('NotFound'))).toEqual(ok('fallback'));
+      expect(orElse((error: IUnknownOkErr) => ok(error.success))(plainErr)).toEqual(ok(false));
+    });
+
+    it('should recover only from matching errors', () => {
+      const other = err('db:timeout');
+
+      expect(orElse('fetch:*', () => ok(0))(err('fetch:network'))).toEqual(ok(0));
+      expect(orElse('fetch:*', () => ok(0))(other)).toBe(other);
+      expect(orElse('NotFound', () => ok(0))(plainErr)).toEqual(ok(0));
+    });
+
+    it('should return successes untouched', () => {
+      const success = ok(1);
+
+      expect(orElse(() => ok(2))(success)).toBe(success);
+      expect(orElse('NotFound', () => ok(2))(success)).toBe(success);
+    });
+  });
+
+  describe('or', () => {
+    it('should fall back to another result on errors', () => {
+      const success = ok(1);
+
+      expect(or(ok(2))(err('NotFound'))).toEqual(ok(2));
+      expect(or(ok(2))(success)).toBe(success);
+    });
+  });
+
+  describe('tap and tapErr', () => {
+    it('should run side effects and return the result unchanged', () => {
+      const onData = vi.fn();
+      const onError = vi.fn();
+      const success = ok(1);
+      const error = err('NotFound');
+
+      expect(tap(onData)(success)).toBe(success);
+      expect(tap(onData)(error)).toBe(error);
+      expect(tapErr(onError)(success)).toBe(success);
+      expect(tapErr(onError)(error)).toBe(error);
+      expect(onData).toHaveBeenCalledExactlyOnceWith(1);
+      expect(onError).toHaveBeenCalledExactlyOnceWith(error);
+    });
+
+    it('should tap only matching errors', () => {
+      const onError = vi.fn();
+
+      tapErr('fetch:*', onError)(err('db:timeout'));
+      tapErr('fetch:*', onError)(err('fetch:network'));
+      tapErr('NotFound', onError)(plainErr);
+
+      expect(onError).toHaveBeenCalledTimes(2);
+    });
+
+    it('should propagate exceptions of the side effect', () => {
+      expect(() => tap(() => { throw new Error('boom'); })(ok(1))).toThrow('boom');
+    });
+  });
+
+  describe('unwrap', () => {
+    it('should return the data of successes', () => {
+      expect(unwrap(ok(1))).toBe(1);
+      expect(pipe(plainOk, unwrap)).toBe(2);
+    });
+
+    it('should throw an UnwrapError for errors', () => {
+      expect(() => unwrap(err('NotFound'))).toThrow(UnwrapError);
+      expect(() => unwrap(plainErr)).toThrow(/NotFound/);
+    });
+
+    it('should return a default value for errors', () => {
+      expect(unwrapOr(0)(ok(1))).toBe(1);
+      expect(unwrapOr(0)(plainErr)).toBe(0);
+      expect(unwrapOrElse((error: IUnknownOkErr) => error.success)(plainErr)).toBe(false);
+      expect(unwrapOrElse(() => 0)(plainOk)).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { AsyncResult, gen, ok, err, resultfy } from '../src';
+import { describe, it, expect, vi } from 'vitest';
+
+/**
+ * Tests for the gen do-notation runner
+ */
+describe('gen', () => {
+  describe('sync generators', () => {
+    it('should unwrap data with yield* and return the final result', () => {
+      const result = gen(function* () {
+        const a = yield* ok(1);
+        const b = yield* ok(2);
+
+        return ok(a + b);
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.data).toBe(3);
+    });
+
+    it('should short-circuit on the first error', () => {
+      const failure = err('NotFound', 'User not found');
+      const next = vi.fn(() => ok(2));
+
+      const result = gen(function* () {
+        const a = yield* ok(1);
+        yield* failure;
+        const b = yield* next();
+
+        return ok(a + b);
+      });
+
+      expect(result).toBe(failure);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return errors returned by the body', () => {
+      const result = gen(function* () {
+        const a = yield* ok(1);
+
+        return a > 0 ? err('Positive', a) : ok(a);
+      });
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toBe('Positive');
+    });
+
+    it('should run finally blocks when short-circuiting', () => {
+      const cleanup = vi.fn();
+
+      gen(function* () {
+        try {
+          yield* err('Failed');
+          return ok();
+        } finally {
+          cleanup();
+        }
+      });
+
+      expect(cleanup).toHaveBeenCalled();
+    });
+
+    it('should propagate exceptions thrown by the body', () => {
+      expect(() => gen(function* () {
+        yield* ok(1);
+        throw new Error('Boom');
+      })).toThrow('Boom');
+    });
+  });
+
+  describe('async generators', () => {
+    it('should return an AsyncResult', async () => {
+      const result = gen(async function* () {
+        const a = yield* await Promise.resolve(ok(1));
+        const b = yield* AsyncResult.from(ok(2));
+
+        return ok(a + b);
+      });
+
+      expect(result).toBeInstanceOf(AsyncResult);
+      expect(await result.unwrap()).toBe(3);
+    });
+
+    it('should short-circuit on the first awaited error', async () => {
+      const next = vi.fn(async () => ok(2));
+
+      const result = await gen(async function* () {
+        const response = yield* resultfy(Promise.reject('Network down'), 'fetch-error');
+        const b = yield* await next();
+
+        return ok({ response, b });
+      });
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toBe('fetch-error');
+      expect(!result.success && result.reason).toBe('Network down');
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject when the body throws', async () => {
+      const result = gen(async function* () {
+        yield* await Promise.resolve(ok(1));
+        throw new Error('Boom');
+      });
+
+      await expect(result.unwrap()).rejects.toThrow('Boom');
+    });
+  });
+
+  describe('iteration protocol', () => {
+    it('should return the data of Ok without yielding', () => {
+      const iterator = ok(42)[Symbol.iterator]();
+
+      expect(iterator.next()).toEqual({ done: true, value: 42 });
+    });
+
+    it('should yield Err once', () => {
+      const failure = err('NotFound');
+
+      expect([...failure]).toHaveLength(1);
+      expect([...failure][0]).toBe(failure);
+    });
+
+    it('should keep results comparable with toEqual()', () => {
+      expect(err('NotFound', 'reason')).toEqual(err('NotFound', 'reason'));
+      expect(err('NotFound', 'reason')).not.toEqual(err('NotFound', 'other'));
+      expect(ok(42)).not.toEqual(ok(43));
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { AsyncResult, Resultfy, err, ok, type Err, type IResultfyDecorated } from '../../src';
+import { describe, it, expect } from 'vitest';
+
+class UserRepository {
+  #users = new Map([['1', 'Ada']]);
+
+  @Resultfy('user:repo-error')
+  find(id: string): string {
+    const user = this.#users.get(id);
+    if (user === undefined) throw new RangeError(`no user ${id}`);
+    return user;
+  }
+
+  @Resultfy('repo:*')
+  async save(id: string, name: string): Promise<string> {
+    if (!name) throw new TypeError('empty name');
+    this.#users.set(id, name);
+    return id;
+  }
+
+  @Resultfy({ missing: RangeError })
+  remove(id: string): boolean {
+    if (!this.#users.delete(id)) throw new RangeError(`no user ${id}`);
+    return true;
+  }
+
+  count(): number {
+    return this.#users.size;
+  }
+}
+
+type SafeUserRepository = IResultfyDecorated<
+  IResultfyDecorated<IResultfyDecorated<UserRepository, 'find', 'user:repo-error'>, 'save', 'repo:*'>,
+  'remove',
+  { missing: typeof RangeError }
+>;
+
+const createRepository = () => new UserRepository() as unknown as SafeUserRepository;
+
+/**
+ * Tests for the Resultfy method decorator
+ */
+describe('Resultfy decorator', () => {
+  it('should make sync methods return Ok or Err', () => {
+    const repo = createRepository();
+
+    expect(repo.find('1')).toEqual(ok('Ada'));
+    expect(repo.find('2')).toMatchObject({ success: false, error: 'user:repo-error', reason: new RangeError('no user 2') });
+  });
+
+  it('should make async methods return an AsyncResult and keep this', async () => {
+    const repo = createRepository();
+    const saved = repo.save('2', 'Grace');
+
+    expect(saved).toBeInstanceOf(AsyncResult);
+    expect(await saved).toEqual(ok('2'));
+    expect(repo.find('2')).toEqual(ok('Grace'));
+    expect(repo.count()).toBe(2);
+  });
+
+  it('should name errors after the method with a namespace pattern', async () => {
+    expect(await createRepository().save('3', '')).toMatchObject({ error: 'repo:save' });
+  });
+
+  it('should accept a classifier', () => {
+    expect(createRepository().remove('2')).toMatchObject({ error: 'missing' });
+    expect(createRepository().remove('1')).toEqual(ok(true));
+  });
+
+  it('should capture the stack trace without the decorated method frame', () => {
+    const result = createRepository().find('2');
+
+    expect(!result.success && result.stack?.split('\n')[1]).toContain('decorators.spec');
+    expect(!result.success && result.stack).not.toContain('UserRepository.find');
+  });
+
+  it('should work as a legacy decorator', () => {
+    class Service {
+      factor = 2;
+
+      double(value: number): number {
+        if (value < 0) throw new RangeError('negative');
+        return value * this.factor;
+      }
+    }
+
+    const descriptor = Object.getOwnPropertyDescriptor(Service.prototype, 'double')!;
+    Object.defineProperty(Service.prototype, 'double', Resultfy('service:*')(Service.prototype, 'double', descriptor));
+    const service = new Service() as unknown as IResultfyDecorated<Service, 'double', 'service:*'>;
+
+    expect(service.double(2)).toEqual(ok(4));
+    expect(service.double(-1)).toMatchObject({ error: 'service:double' });
+    expect(Object.getOwnPropertyDescriptor(Service.prototype, 'double')).toMatchObject({ enumerable: false, writable: true });
+  });
+
+  it('should accept a classifier function and default to unknown', () => {
+    class Parser {
+      @Resultfy((thrown) => err('syntax', String(thrown)))
+      parse(text: string): unknown {
+        return JSON.parse(text);
+      }
+
+      @Resultfy()
+      fail(): never {
+        throw new Error('failed');
+      }
+    }
+
+    const parser = new Parser() as unknown as IResultfyDecorated<Parser, 'parse', (thrown: unknown) => Err<'syntax', string>>;
+
+    expect(parser.parse('{')).toMatchObject({ error: 'syntax' });
+    expect((new Parser() as unknown as IResultfyDecorated<Parser, 'fail'>).fail()).toMatchObject({ error: 'unknown' });
+  });
+
+  it('should reject non-method members', () => {
+    expect(() => Resultfy('x')({}, 'value', { value: 42 })).toThrow('@Resultfy can only decorate methods');
+  });
+});
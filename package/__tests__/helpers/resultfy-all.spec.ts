@@ -0,0 +1,128 @@
+import { AsyncResult, err, ok, resultfyAll } from '../../src';
+import { describe, it, expect } from 'vitest';
+
+class Repository {
+  #rows = new Map<number, string>([[1, 'Ada']]);
+
+  public name = 'users';
+
+  find(id: number): string {
+    const row = this.#rows.get(id);
+    if (row === undefined) throw new RangeError(`no user ${id}`);
+    return row;
+  }
+
+  async save(id: number, value: string): Promise<number> {
+    if (!value) throw new TypeError('empty value');
+    this.#rows.set(id, value);
+    return id;
+  }
+
+  get size(): number {
+    return this.#rows.size;
+  }
+}
+
+/**
+ * Tests for the resultfyAll helper function
+ */
+describe('resultfyAll', () => {
+  it('should make sync methods return Ok or Err', () => {
+    const repo = resultfyAll(new Repository(), 'RepoError');
+
+    expect(repo.find(1)).toEqual(ok('Ada'));
+    expect(repo.find(2)).toMatchObject({ success: false, error: 'RepoError', reason: new RangeError('no user 2') });
+  });
+
+  it('should make async methods return an AsyncResult', async () => {
+    const repo = resultfyAll(new Repository(), 'RepoError');
+    const saved = repo.save(2, 'Grace');
+
+    expect(saved).toBeInstanceOf(AsyncResult);
+    expect(await saved).toEqual(ok(2));
+    expect(await repo.save(3, '')).toMatchObject({ success: false, error: 'RepoError' });
+  });
+
+  it('should call methods with the original object as this', async () => {
+    const original = new Repository();
+    const repo = resultfyAll(original);
+
+    await repo.save(2, 'Grace');
+    expect(repo.find(2)).toEqual(ok('Grace'));
+    expect(original.size).toBe(2);
+  });
+
+  it('should leave other members unchanged', () => {
+    const repo = resultfyAll(new Repository());
+
+    expect(repo.name).toBe('users');
+    expect(repo.size).toBe(1);
+    expect(repo).toBeInstanceOf(Repository);
+  });
+
+  it('should name errors after the methods with a namespace pattern', async () => {
+    const repo = resultfyAll(new Repository(), 'repo:*');
+
+    expect(repo.find(2)).toMatchObject({ error: 'repo:find' });
+    expect(await repo.save(1, '')).toMatchObject({ error: 'repo:save' });
+  });
+
+  it('should accept a classifier table', () => {
+    const repo = resultfyAll(new Repository(), { missing: RangeError });
+
+    expect(repo.find(2)).toMatchObject({ error: 'missing' });
+  });
+
+  it('should accept a classifier function', () => {
+    const repo = resultfyAll(new Repository(), (thrown) => err('failed', String(thrown)));
+
+    expect(repo.find(2)).toMatchObject({ error: 'failed', reason: 'RangeError: no user 2' });
+  });
+
+  it('should only wrap included methods and skip excluded ones', () => {
+    const included = resultfyAll(new Repository(), 'RepoError', { include: ['find'] });
+    const excluded = resultfyAll(new Repository(), 'RepoError', { exclude: ['find'] });
+
+    expect(included.find(1)).toEqual(ok('Ada'));
+    expect(included.save(1, 'Ada')).toBeInstanceOf(Promise);
+    expect(excluded.find(1)).toBe('Ada');
+    expect(() => excluded.find(2)).toThrow(RangeError);
+    expect(excluded.save(1, 'Ada')).toBeInstanceOf(AsyncResult);
+  });
+
+  it('should wrap plain objects and return the same wrapper on every read', () => {
+    const math = {
+      sqrt(value: number) {
+        if (value < 0) throw new RangeError('negative');
+        return Math.sqrt(value);
+      },
+    };
+    const safeMath = resultfyAll(math, 'math:*');
+
+    expect(safeMath.sqrt).toBe(safeMath.sqrt);
+    expect(safeMath.sqrt(4)).toEqual(ok(2));
+    expect(safeMath.sqrt(-1)).toMatchObject({ error: 'math:sqrt' });
+  });
+
+  it('should follow reassigned methods', () => {
+    const service = { run: () => 1 };
+    const safe = resultfyAll(service);
+
+    expect(safe.run()).toEqual(ok(1));
+    service.run = () => 2;
+    expect(safe.run()).toEqual(ok(2));
+  });
+
+  it('should wrap frozen objects and their non-writable methods', () => {
+    const frozenMath = Object.freeze({ sqrt: (value: number) => Math.sqrt(value), version: 1 });
+    const namespace = Object.defineProperty({}, 'parse', { value: (text: string) => JSON.parse(text) as unknown, enumerable: true }) as { parse: (text: string) => unknown };
+    const safeMath = resultfyAll(frozenMath);
+    const safeJSON = resultfyAll(namespace, 'json:*');
+
+    expect(safeMath.sqrt(4)).toEqual(ok(2));
+    expect(safeMath.version).toBe(1);
+    expect(safeJSON.parse('{')).toMatchObject({ error: 'json:parse' });
+    expect('sqrt' in safeMath).toBe(true);
+    expect(Object.keys(safeMath)).toEqual(['sqrt', 'version']);
+  });
+});
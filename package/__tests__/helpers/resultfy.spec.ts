@@ -1,5 +1,5 @@
-import { resultfy } from '../../src';
-import { describe, it, expect } from 'vitest';
+import { AsyncResult, err, ok, resultfy } from '../../src';
+import { describe, it, expect, vi } from 'vitest';
 
 /**
  * Tests for the resultfy helper function
@@ -242,6 +242,34 @@ describe('resultfy', () => {
     });
   });
 
+  describe('AsyncResult chaining', () => {
+    it('should return an AsyncResult when wrapping a promise', async () => {
+      const result = resultfy(Promise.resolve(21));
+
+      expect(result).toBeInstanceOf(AsyncResult);
+      expect(await result.mapData((n) => n * 2).unwrap()).toBe(42);
+    });
+
+    it('should return an AsyncResult from wrapped async functions', async () => {
+      const fetchUser = async (id: number) => ({ id, name: `User ${id}` });
+      const safeFetchUser = resultfy(fetchUser, 'user:fetch-error');
+
+      const name = await safeFetchUser(1)
+        .andThen((user) => user.id > 0 ? ok(user.name) : err('user:invalid-id'))
+        .unwrapOr('anonymous');
+
+      expect(name).toBe('User 1');
+    });
+
+    it('should short-circuit the chain on rejection', async () => {
+      const next = vi.fn(() => ok('next'));
+      const result = await resultfy(Promise.reject('Error reason'), 'custom-error').andThen(next);
+
+      expect(result.success).toBe(false);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
   describe('PromiseLike support (proxy promises)', () => {
     it('should wrap a PromiseLike object that resolves', async () => {
       // Create a PromiseLike object that is not a native Promise
@@ -493,5 +521,76 @@ describe('resultfy', () => {
       }
     });
   });
-});
 
+  describe('classifiers', () => {
+    class HttpError extends Error {
+      constructor(public status: number) {
+        super(`HTTP ${status}`);
+      }
+    }
+
+    const isAbort = (thrown: unknown): thrown is DOMException => thrown instanceof DOMException && thrown.name === 'AbortError';
+
+    const table = { aborted: isAbort, http: HttpError, invalid: TypeError };
+
+    it('should map thrown values with a classifier function', () => {
+      const parse = resultfy(JSON.parse as (text: string) => unknown, (thrown) => (
+        thrown instanceof SyntaxError ? err('syntax', thrown.message) : err('unexpected', thrown)
+      ));
+
+      expect(parse('{}')).toEqual(ok({}));
+      expect(parse('{')).toMatchObject({ success: false, error: 'syntax' });
+    });
+
+    it('should map rejections with a classifier function', async () => {
+      const result = await resultfy(Promise.reject(new HttpError(404)), (thrown) => err('http', (thrown as HttpError).status));
+
+      expect(result).toMatchObject({ success: false, error: 'http', reason: 404 });
+    });
+
+    it('should map thrown values with a table of constructors and predicates', async () => {
+      const load = resultfy(async (thrown: unknown) => {
+        throw thrown;
+      }, table);
+
+      const abort = new DOMException('stopped', 'AbortError');
+      const http = new HttpError(500);
+      const type = new TypeError('bad');
+
+      expect(await load(abort)).toMatchObject({ error: 'aborted', reason: abort });
+      expect(await load(http)).toMatchObject({ error: 'http', reason: http });
+      expect(await load(type)).toMatchObject({ error: 'invalid', reason: type });
+      expect(await load('oops')).toMatchObject({ error: 'unknown', reason: 'oops' });
+    });
+
+    it('should check table entries in order', () => {
+      const fail = resultfy((): never => {
+        throw new HttpError(400);
+      }, { generic: Error, http: HttpError });
+
+      expect(fail()).toMatchObject({ error: 'generic' });
+    });
+
+    it('should call function declarations as predicates', () => {
+      function isString(thrown: unknown): thrown is string {
+        return typeof thrown === 'string';
+      }
+
+      const fail = resultfy((value: unknown): never => {
+        throw value;
+      }, { message: isString });
+
+      expect(fail('a')).toMatchObject({ error: 'message', reason: 'a' });
+      expect(fail(1)).toMatchObject({ error: 'unknown', reason: 1 });
+    });
+
+    it('should capture the stack trace of table errors where the wrapper is called', () => {
+      const fail = resultfy((): never => {
+        throw new TypeError('bad');
+      }, table);
+      const result = fail();
+
+      expect(!result.success && result.stack).toContain('resultfy.spec');
+    });
+  });
+});
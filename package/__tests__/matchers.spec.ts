@@ -0,0 +1,85 @@
+import '../src/matchers/vitest';
+import { matchers, type IMatcherContext } from '../src/matchers';
+import { ok, err, AsyncResult } from '../src';
+import { describe, it, expect } from 'vitest';
+
+/**
+ * Tests for result matchers
+ */
+describe('result matchers', () => {
+  describe('toBeOk / toBeOkWith', () => {
+    it('should match success results', () => {
+      expect(ok(1)).toBeOk();
+      expect(ok({ id: 1, tags: ['a'] })).toBeOkWith({ id: 1, tags: ['a'] });
+      expect({ success: true, data: 1 }).toBeOkWith(1);
+    });
+
+    it('should not match errors, other data or non-results', () => {
+      expect(err('NotFound')).not.toBeOk();
+      expect(ok(1)).not.toBeOkWith(2);
+      expect(42).not.toBeOk();
+    });
+
+    it('should pretty-print the received error with its stack', () => {
+      const result = err('NotFound', { id: 1 });
+
+      expect(() => expect(result).toBeOk()).toThrow('expected result to be Ok, received:\nErr(NotFound, ');
+      expect(() => expect(result).toBeOk()).toThrow(result.stack!.split('\n')[1].trim());
+    });
+  });
+
+  describe('toBeErr / toBeErrWith', () => {
+    it('should match error results by name, namespace and reason', () => {
+      expect(err('NotFound')).toBeErr();
+      expect(err('NotFound')).toBeErr('NotFound');
+      expect(err('fetch:timeout', 5000)).toBeErr('fetch:*');
+      expect(err('InvalidEmail', { email: 'a' })).toBeErrWith('InvalidEmail', { email: 'a' });
+      expect(err('fetch:timeout', 5000)).toBeErrWith('fetch:*', 5000);
+    });
+
+    it('should not match successes, other names or other reasons', () => {
+      expect(ok(1)).not.toBeErr();
+      expect(err('NotFound')).not.toBeErr('Forbidden');
+      expect(err('NotFound', 'a')).not.toBeErrWith('NotFound', 'b');
+    });
+
+    it('should print the received success when negated', () => {
+      expect(() => expect(ok(1)).toBeErr('NotFound')).toThrow('expected result to be Err(NotFound), received:\nOk(1)');
+      expect(() => expect(err('NotFound')).not.toBeErr()).toThrow('expected result not to be Err, received:\nErr(NotFound');
+    });
+
+    it('should print the cause chain', () => {
+      const result = err('user:load-failed', 1, { cause: err('db:timeout', 5000) });
+
+      expect(() => expect(result).toBeOk()).toThrow('Caused by db:timeout: 5000');
+    });
+  });
+
+  describe('async variants', () => {
+    it('should match resolved results', async () => {
+      await expect(AsyncResult.from(ok(1))).toResolveOk();
+      await expect(Promise.resolve(ok(1))).toResolveOkWith(1);
+      await expect(AsyncResult.from(err('fetch:timeout', 5000))).toResolveErr('fetch:*');
+      await expect(Promise.resolve(err('NotFound', 'a'))).toResolveErrWith('NotFound', 'a');
+      await expect(Promise.resolve(ok(1))).not.toResolveErr();
+    });
+
+    it('should fail with the resolved result', async () => {
+      await expect(expect(Promise.resolve(ok(1))).toResolveErr()).rejects.toThrow('received:\nOk(1)');
+    });
+  });
+
+  describe('Jest compatibility', () => {
+    const context: IMatcherContext = {
+      equals: (a, b) => JSON.stringify(a) === JSON.stringify(b),
+      utils: { stringify: (value) => JSON.stringify(value) },
+    };
+
+    it('should only rely on equals and utils.stringify', async () => {
+      expect(matchers.toBeOkWith.call(context, ok({ id: 1 }), { id: 1 }).pass).toBe(true);
+      expect(matchers.toBeErrWith.call(context, err('NotFound', 'a'), 'NotFound', 'b').pass).toBe(false);
+      expect((await matchers.toResolveErr.call(context, Promise.resolve(err('NotFound')), 'NotFound')).pass).toBe(true);
+      expect(matchers.toBeErr.call(context, ok(1)).message()).toBe('expected result to be Err, received:\nOk(1)');
+    });
+  });
+});
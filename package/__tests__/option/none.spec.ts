@@ -0,0 +1,91 @@
+import { Err, None, UnwrapError, some, none } from '../../src';
+import { describe, it, expect, vi } from 'vitest';
+
+/**
+ * Tests for the none function and None class
+ */
+describe('none function', () => {
+  describe('creation', () => {
+    it('should create an option without value', () => {
+      const option = none();
+
+      expect(option).toBeInstanceOf(None);
+      expect(option.some).toBe(false);
+      expect('value' in option).toBe(false);
+    });
+  });
+
+  describe('unwrap methods', () => {
+    it('should throw on unwrap', () => {
+      expect(() => none().unwrap()).toThrow(UnwrapError);
+      expect(() => none().unwrap()).toThrow(/Could not unwrap none/);
+    });
+
+    it('should expose the none error name', () => {
+      try {
+        none().unwrap();
+        expect.unreachable();
+      } catch (error) {
+        expect((error as UnwrapError).error).toBe('none');
+      }
+    });
+
+    it('should use the custom error name', () => {
+      expect(() => none().unwrap('MissingUser')).toThrow(/'MissingUser'/);
+    });
+
+    it('should return the default value', () => {
+      expect(none().unwrapOr(0)).toBe(0);
+      expect(none().unwrapOrElse(() => 1)).toBe(1);
+    });
+  });
+
+  describe('chaining methods', () => {
+    it('should return itself on and and andThen', () => {
+      const option = none();
+      const fn = vi.fn(() => some(1));
+
+      expect(option.and(some(1))).toBe(option);
+      expect(option.andThen(fn)).toBe(option);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should return the alternative on or and orElse', () => {
+      expect(none().or(some(1))).toEqual(some(1));
+      expect(none().orElse(() => some(2))).toEqual(some(2));
+    });
+  });
+
+  describe('transform methods', () => {
+    it('should return itself on mapValue and filter', () => {
+      const option = none();
+      const fn = vi.fn();
+
+      expect(option.mapValue(fn)).toBe(option);
+      expect(option.filter(fn)).toBe(option);
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('conversions', () => {
+    it('should convert to an Err with okOr', () => {
+      const result = none().okOr('NotFound', 'User not found');
+
+      expect(result).toBeInstanceOf(Err);
+      expect(result.error).toBe('NotFound');
+      expect(result.reason).toBe('User not found');
+      expect(result.stack).toBeDefined();
+    });
+  });
+
+  describe('type guards', () => {
+    it('should be none and not some', () => {
+      expect(none().isSome()).toBe(false);
+      expect(none().isNone()).toBe(true);
+    });
+  });
+
+  it('should render as a string', () => {
+    expect(none().toString()).toBe('None');
+  });
+});
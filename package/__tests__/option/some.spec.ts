@@ -0,0 +1,104 @@
+import { Some, None, some, none, ok, err } from '../../src';
+import { describe, it, expect, vi } from 'vitest';
+
+/**
+ * Tests for the some function and Some class
+ */
+describe('some function', () => {
+  describe('creation', () => {
+    it('should create an option holding the value', () => {
+      const option = some({ name: 'Test' });
+
+      expect(option).toBeInstanceOf(Some);
+      expect(option.some).toBe(true);
+      expect(option.value).toEqual({ name: 'Test' });
+    });
+
+    it('should hold falsy values', () => {
+      expect(some(0).value).toBe(0);
+      expect(some(null).value).toBeNull();
+    });
+  });
+
+  describe('unwrap methods', () => {
+    it('should return the value', () => {
+      const option = some(42);
+
+      expect(option.unwrap()).toBe(42);
+      expect(option.unwrapOr(0)).toBe(42);
+    });
+
+    it('should not call the default value function', () => {
+      const fallback = vi.fn(() => 0);
+
+      expect(some(42).unwrapOrElse(fallback)).toBe(42);
+      expect(fallback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('chaining methods', () => {
+    it('should return the given option on and', () => {
+      expect(some(1).and(some('a'))).toEqual(some('a'));
+      expect(some(1).and(none())).toBeInstanceOf(None);
+    });
+
+    it('should apply the function on andThen', () => {
+      const option = some(4).andThen((value) => value > 0 ? some(Math.sqrt(value)) : none());
+
+      expect(option.unwrap()).toBe(2);
+    });
+
+    it('should return itself on or and orElse', () => {
+      const option = some(1);
+      const fallback = vi.fn(() => some(2));
+
+      expect(option.or(some(2))).toBe(option);
+      expect(option.orElse(fallback)).toBe(option);
+      expect(fallback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transform methods', () => {
+    it('should pass itself to map', () => {
+      const option = some(1);
+
+      expect(option.map((value) => value)).toBe(option);
+    });
+
+    it('should transform the value on mapValue', () => {
+      expect(some(2).mapValue((value) => value * 2)).toEqual(some(4));
+    });
+
+    it('should keep the value when the predicate passes', () => {
+      const option = some(2);
+
+      expect(option.filter((value) => value > 1)).toBe(option);
+      expect(option.filter((value) => value > 2)).toBeInstanceOf(None);
+    });
+  });
+
+  describe('conversions', () => {
+    it('should convert to an Ok with okOr', () => {
+      expect(some(1).okOr('NotFound', 'missing')).toEqual(ok(1));
+    });
+
+    it('should convert an Ok into a Some', () => {
+      expect(ok(1).toOption()).toEqual(some(1));
+    });
+
+    it('should convert an Err into a None', () => {
+      expect(err('NotFound').toOption()).toBeInstanceOf(None);
+    });
+  });
+
+  describe('type guards', () => {
+    it('should be some and not none', () => {
+      expect(some(1).isSome()).toBe(true);
+      expect(some(1).isNone()).toBe(false);
+    });
+  });
+
+  it('should render as a string', () => {
+    expect(some(42).toString()).toBe('Some<42>');
+  });
+});
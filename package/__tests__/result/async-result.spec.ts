@@ -0,0 +1,176 @@
+import { AsyncResult, UnwrapError, ok, err } from '../../src';
+import { describe, it, expect, vi } from 'vitest';
+
+/**
+ * Tests for the AsyncResult class
+ */
+describe('AsyncResult', () => {
+  describe('creation', () => {
+    it('should wrap a result with the constructor', async () => {
+      const result = await new AsyncResult<number, { NotFound: string }>(ok(42));
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.data).toBe(42);
+    });
+
+    it('should wrap a result', async () => {
+      const result = await AsyncResult.from(ok(42));
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe(42);
+    });
+
+    it('should wrap a promise of a result', async () => {
+      const result = await AsyncResult.from(Promise.resolve(err('NotFound', 'User not found')));
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe('NotFound');
+        expect(result.reason).toBe('User not found');
+      }
+    });
+
+    it('should behave like a promise', async () => {
+      const asyncResult = AsyncResult.from(ok(42));
+      const onFinally = vi.fn();
+
+      expect(await asyncResult.then((result) => result.success)).toBe(true);
+      expect(await asyncResult.finally(onFinally)).toEqual(ok(42));
+      expect(onFinally).toHaveBeenCalled();
+      expect(Object.prototype.toString.call(asyncResult)).toBe('[object AsyncResult]');
+    });
+
+    it('should reject when a continuation throws', async () => {
+      const asyncResult = AsyncResult.from(ok(42)).andThen(() => {
+        throw new Error('Boom');
+      });
+
+      await expect(asyncResult.catch((error) => (error as Error).message)).resolves.toBe('Boom');
+    });
+  });
+
+  describe('unwrap methods', () => {
+    it('should unwrap successfully', async () => {
+      expect(await AsyncResult.from(ok(42)).unwrap()).toBe(42);
+    });
+
+    it('should reject with UnwrapError when unwrapping an error', async () => {
+      await expect(AsyncResult.from(err('NotFound')).unwrap()).rejects.toBeInstanceOf(UnwrapError);
+    });
+
+    it('should unwrapOr and return default value on error', async () => {
+      expect(await AsyncResult.from(ok(42)).unwrapOr(0)).toBe(42);
+      expect(await AsyncResult.from(err('NotFound')).unwrapOr(0)).toBe(0);
+    });
+
+    it('should unwrapOrElse with an async function', async () => {
+      const value = await AsyncResult.from(err('NotFound', 7)).unwrapOrElse(async (result) => result.reason * 2);
+
+      expect(value).toBe(14);
+    });
+
+    it('should unwrapErr and reject on success', async () => {
+      const failure = err('NotFound');
+
+      expect(await AsyncResult.from(failure).unwrapErr()).toBe(failure);
+      await expect(AsyncResult.from(ok(42)).unwrapErr()).rejects.toBeInstanceOf(UnwrapError);
+    });
+
+    it('should unwrapErrOr and unwrapErrOrElse', async () => {
+      const failure = err('NotFound');
+
+      expect(await AsyncResult.from(failure).unwrapErrOr('default')).toBe(failure);
+      expect(await AsyncResult.from(ok(42)).unwrapErrOr('default')).toBe('default');
+      expect(await AsyncResult.from(ok(42)).unwrapErrOrElse((result) => result.data + 1)).toBe(43);
+    });
+  });
+
+  describe('expect method', () => {
+    it('should resolve to the error when it matches', async () => {
+      const failure = err('NotFound');
+
+      expect(await AsyncResult.from(failure).expect('NotFound')).toBe(failure);
+    });
+
+    it('should reject when error does not match or result is a success', async () => {
+      await expect(AsyncResult.from(err('NotFound')).expect('ValidationError')).rejects.toBeInstanceOf(UnwrapError);
+      await expect(AsyncResult.from(ok(42)).expect('NotFound')).rejects.toBeInstanceOf(UnwrapError);
+    });
+  });
+
+  describe('combinators', () => {
+    it('should continue with and() only on success', async () => {
+      const failure = err('Error1');
+
+      expect(await AsyncResult.from(ok(1)).and(ok('next'))).toEqual(ok('next'));
+      expect(await AsyncResult.from(failure).and(Promise.resolve(ok('next')))).toBe(failure);
+    });
+
+    it('should chain sync and async functions with andThen()', async () => {
+      const result = await AsyncResult.from(ok(2))
+        .andThen((n) => ok(n * 2))
+        .andThen(async (n) => ok(n + 1));
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.data).toBe(5);
+    });
+
+    it('should not call andThen() on error', async () => {
+      const failure = err('NotFound');
+      const fn = vi.fn(() => ok(1));
+      const result = await AsyncResult.from(failure).andThen(fn);
+
+      expect(result).toBe(failure);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should fall back with or() only on error', async () => {
+      const success = ok(42);
+
+      expect(await AsyncResult.from(success).or(ok(0))).toBe(success);
+      expect(await AsyncResult.from(err('NotFound')).or(ok(0))).toEqual(ok(0));
+    });
+
+    it('should recover with orElse() receiving the error result', async () => {
+      const failure = err('NotFound', 'User not found');
+      const fallback = vi.fn(async () => ok('guest'));
+      const result = await AsyncResult.from(failure).orElse(fallback);
+
+      expect(result).toEqual(ok('guest'));
+      expect(fallback).toHaveBeenCalledWith(failure);
+    });
+  });
+
+  describe('transformers', () => {
+    it('should apply map() to the resolved result', async () => {
+      expect(await AsyncResult.from(ok(42)).map((result) => result.success)).toBe(true);
+    });
+
+    it('should transform data with mapData()', async () => {
+      const result = await AsyncResult.from(ok(21)).mapData(async (n) => n * 2);
+
+      expect(result).toEqual(ok(42));
+    });
+
+    it('should transform errors with mapErr() and mapReason()', async () => {
+      const failure = err('NotFound', 1);
+      const result = await AsyncResult.from(failure)
+        .mapErr((error) => `user:${error}` as const)
+        .mapReason((reason) => `User ${reason} not found`);
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toBe('user:NotFound');
+      expect(!result.success && result.reason).toBe('User 1 not found');
+      expect(!result.success && result.stack).toBe(failure.stack);
+    });
+  });
+
+  describe('type checking methods', () => {
+    it('should resolve isOk() and isErr()', async () => {
+      expect(await AsyncResult.from(ok(42)).isOk()).toBe(true);
+      expect(await AsyncResult.from(ok(42)).isErr()).toBe(false);
+      expect(await AsyncResult.from(err('NotFound')).isOk()).toBe(false);
+      expect(await AsyncResult.from(err('NotFound')).isErr()).toBe(true);
+    });
+  });
+});
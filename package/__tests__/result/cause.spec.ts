@@ -0,0 +1,135 @@
+import { AsyncResult, Err, UnwrapError, ok, err, type IResult } from '../../src';
+import { describe, it, expect } from 'vitest';
+
+/**
+ * Tests for error cause chains
+ */
+describe('cause chains', () => {
+  describe('err with cause', () => {
+    it('should keep the cause', () => {
+      const dbError = err('db:timeout', 5000);
+      const result = err('user:load-failed', { id: 42 }, { cause: dbError });
+
+      expect(result.error).toBe('user:load-failed');
+      expect(result.reason).toEqual({ id: 42 });
+      expect(result.cause).toBe(dbError);
+    });
+
+    it('should accept thrown errors as cause', () => {
+      const thrown = new Error('socket hang up');
+      const result = err('fetch-failed', undefined, { cause: thrown });
+
+      expect(result.cause).toBe(thrown);
+    });
+
+    it('should not define a cause when none is given', () => {
+      const result = err('NotFound', 'User not found');
+
+      expect('cause' in result).toBe(false);
+    });
+  });
+
+  describe('wrapErr', () => {
+    it('should wrap an error keeping it as the cause', () => {
+      const dbError = err('db:timeout', 5000);
+      const wrapped = dbError.wrapErr('user:load-failed', { id: 42 });
+
+      expect(wrapped).toBeInstanceOf(Err);
+      expect(wrapped.error).toBe('user:load-failed');
+      expect(wrapped.reason).toEqual({ id: 42 });
+      expect(wrapped.cause).toBe(dbError);
+    });
+
+    it('should default the reason to undefined', () => {
+      const wrapped = err('db:timeout').wrapErr('user:load-failed');
+
+      expect(wrapped.reason).toBeUndefined();
+    });
+
+    it('should capture a new stack trace', () => {
+      const dbError = err('db:timeout');
+      const wrapped = dbError.wrapErr('user:load-failed');
+
+      expect(wrapped.stack).toBeDefined();
+      expect(wrapped.stack).not.toBe(dbError.stack);
+    });
+
+    it('should return success results untouched', () => {
+      const result = ok(1);
+
+      expect(result.wrapErr('user:load-failed')).toBe(result);
+    });
+
+    it('should build multi-level chains', () => {
+      const result = err('db:timeout', 5000)
+        .wrapErr('repo:query-failed')
+        .wrapErr('user:load-failed');
+
+      expect(result.error).toBe('user:load-failed');
+      expect(result.cause?.error).toBe('repo:query-failed');
+      expect(result.cause?.cause?.error).toBe('db:timeout');
+    });
+
+    it('should wrap errors of an AsyncResult', async () => {
+      const dbError = err('db:timeout', 5000);
+      const result = await AsyncResult.from(Promise.resolve(dbError as IResult<number, { 'db:timeout': number }>))
+        .wrapErr('user:load-failed', { id: 42 });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe('user:load-failed');
+        expect(result.cause).toBe(dbError);
+      }
+    });
+  });
+
+  describe('transformers', () => {
+    it('should keep the cause on mapErr and mapReason', () => {
+      const dbError = err('db:timeout');
+      const wrapped = err('user:load-failed', 42, { cause: dbError });
+
+      expect(wrapped.mapErr(() => 'user:missing').cause).toBe(dbError);
+      expect(wrapped.mapReason((id) => String(id)).cause).toBe(dbError);
+    });
+  });
+
+  describe('rendering', () => {
+    it('should render every link of the chain in toString', () => {
+      const result = err('db:timeout', 5000)
+        .wrapErr('user:load-failed', 42);
+
+      const output = result.toString();
+
+      expect(output).toContain('user:load-failed: 42');
+      expect(output).toContain('Caused by db:timeout: 5000');
+    });
+
+    it('should render thrown errors of the chain', () => {
+      const result = err('fetch-failed', undefined, { cause: new Error('socket hang up') });
+
+      expect(result.toString()).toContain('Caused by Error: socket hang up');
+    });
+
+    it('should stop on circular chains', () => {
+      const first = err('first', undefined, { cause: undefined as unknown });
+      const second = err('second', undefined, { cause: first });
+      first.cause = second;
+
+      expect(() => second.toString()).not.toThrow();
+    });
+
+    it('should include the chain in the UnwrapError message', () => {
+      const dbError = err('db:timeout', 5000);
+      const result = dbError.wrapErr('user:load-failed');
+
+      try {
+        result.unwrap();
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(UnwrapError);
+        expect((error as UnwrapError).message).toContain('Caused by db:timeout: 5000');
+        expect((error as UnwrapError).cause).toBe(dbError);
+      }
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { Result, AggregateErrorName, ok, err } from '../../src';
+import { describe, it, expect } from 'vitest';
+
+/**
+ * Tests for the Result collection combinators
+ */
+describe('Result combinators', () => {
+  describe('Result.all', () => {
+    it('should combine the data of a tuple of successes', () => {
+      const result = Result.all([ok(1), ok('two'), ok(true)]);
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.data).toEqual([1, 'two', true]);
+    });
+
+    it('should combine the data of an object of successes', () => {
+      const result = Result.all({ id: ok(1), name: ok('John') });
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.data).toEqual({ id: 1, name: 'John' });
+    });
+
+    it('should return the first error', () => {
+      const first = err('First');
+      const result = Result.all([ok(1), first, err('Second')]);
+
+      expect(result).toBe(first);
+    });
+
+    it('should return an empty Ok for an empty collection', () => {
+      expect(Result.all([])).toEqual(ok([]));
+      expect(Result.all({})).toEqual(ok({}));
+    });
+  });
+
+  describe('Result.collect', () => {
+    it('should combine the data when every result succeeds', () => {
+      const result = Result.collect({ id: ok(1), name: ok('John') });
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.data).toEqual({ id: 1, name: 'John' });
+    });
+
+    it('should gather every error of a tuple in an array', () => {
+      const first = err('First');
+      const second = err('Second', 2);
+      const result = Result.collect([ok(1), first, second]);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe(AggregateErrorName);
+        expect(result.reason).toEqual([first, second]);
+      }
+    });
+
+    it('should gather every error of an object by key', () => {
+      const invalidEmail = err('InvalidEmail', 'john@');
+      const result = Result.collect({ name: ok('John'), email: invalidEmail });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.reason).toEqual({ email: invalidEmail });
+      }
+    });
+  });
+
+  describe('Result.any', () => {
+    it('should return the data of the first success', () => {
+      const result = Result.any([err('CacheMiss'), ok('primary'), ok('replica')]);
+
+      expect(result).toEqual(ok('primary'));
+    });
+
+    it('should gather every error when all results fail', () => {
+      const first = err('First');
+      const second = err('Second');
+      const result = Result.any({ cache: first, primary: second });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe(AggregateErrorName);
+        expect(result.reason).toEqual({ cache: first, primary: second });
+      }
+    });
+
+    it('should return an aggregate error for an empty collection', () => {
+      const result = Result.any([]);
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.reason).toEqual([]);
+    });
+  });
+
+  describe('Result.partition', () => {
+    it('should split an array into data and errors', () => {
+      const failure = err('NotFound', 2);
+      const [data, errors] = Result.partition([ok(1), failure, ok(3)]);
+
+      expect(data).toEqual([1, 3]);
+      expect(errors).toEqual([failure]);
+    });
+
+    it('should split an object into partial objects', () => {
+      const failure = err('NotFound');
+      const [data, errors] = Result.partition({ a: ok(1), b: failure });
+
+      expect(data).toEqual({ a: 1 });
+      expect(errors).toEqual({ b: failure });
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { AsyncResult, AbortedErrorName, AggregateErrorName, ok, err, type IUnknownOkErr } from '../../src';
+import { describe, it, expect, vi } from 'vitest';
+
+/**
+ * Creates a task resolving to the given result after a delay, tracking concurrency and aborts.
+ */
+function delayed<R extends IUnknownOkErr>(result: R, ms: number, tracker?: { running: number; max: number; aborted: number }) {
+  return (signal: AbortSignal) => new Promise<R>((resolve) => {
+    if (tracker) {
+      tracker.running++;
+      tracker.max = Math.max(tracker.max, tracker.running);
+    }
+
+    const timer = setTimeout(() => {
+      if (tracker) tracker.running--;
+      resolve(result);
+    }, ms);
+
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      if (tracker) {
+        tracker.running--;
+        tracker.aborted++;
+      }
+    });
+  });
+}
+
+/**
+ * Tests for the AsyncResult concurrency combinators
+ */
+describe('AsyncResult combinators', () => {
+  describe('AsyncResult.all', () => {
+    it('should combine the data of every task keeping the shape', async () => {
+      const tuple = await AsyncResult.all([() => ok(1), async () => ok('two')]);
+      const record = await AsyncResult.all({ id: () => ok(1), name: delayed(ok('John'), 5) });
+
+      expect(tuple).toEqual(ok([1, 'two']));
+      expect(record).toEqual(ok({ id: 1, name: 'John' }));
+    });
+
+    it('should respect the concurrency limit', async () => {
+      const tracker = { running: 0, max: 0, aborted: 0 };
+      const tasks = Array.from({ length: 6 }, (_, i) => delayed(ok(i), 5, tracker));
+      const result = await AsyncResult.all(tasks, { concurrency: 2 });
+
+      expect(result).toEqual(ok([0, 1, 2, 3, 4, 5]));
+      expect(tracker.max).toBe(2);
+    });
+
+    it('should stop scheduling and abort in-flight tasks on the first error', async () => {
+      const tracker = { running: 0, max: 0, aborted: 0 };
+      const failure = err('ImportFailed', 1);
+      const late = vi.fn(() => ok('late'));
+      const result = await AsyncResult.all(
+        [delayed(ok(0), 50, tracker), delayed(failure, 1), late],
+        { concurrency: 2 }
+      );
+
+      expect(result).toBe(failure);
+      expect(late).not.toHaveBeenCalled();
+      expect(tracker.aborted).toBe(1);
+    });
+
+    it('should accept any iterable of tasks', async () => {
+      function* tasks() {
+        for (let i = 0; i < 3; i++) {
+          yield () => ok(i);
+        }
+      }
+
+      expect(await AsyncResult.all(tasks(), { concurrency: 1 })).toEqual(ok([0, 1, 2]));
+    });
+
+    it('should reject when a task throws', async () => {
+      const result = AsyncResult.all([() => {
+        throw new Error('Boom');
+      }]);
+
+      await expect(result.unwrap()).rejects.toThrow('Boom');
+    });
+
+    it('should resolve to an aborted error when the external signal aborts', async () => {
+      const controller = new AbortController();
+      const tracker = { running: 0, max: 0, aborted: 0 };
+      const result = AsyncResult.all([delayed(ok(1), 50, tracker)], { signal: controller.signal });
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      controller.abort('cancelled');
+      const resolved = await result;
+
+      expect(resolved.success).toBe(false);
+      expect(!resolved.success && resolved.error).toBe(AbortedErrorName);
+      expect(!resolved.success && resolved.reason).toBe('cancelled');
+      expect(tracker.aborted).toBe(1);
+    });
+
+    it('should not start any task when the signal is already aborted', async () => {
+      const task = vi.fn(() => ok(1));
+      const result = await AsyncResult.all([task], { signal: AbortSignal.abort() });
+
+      expect(result.success).toBe(false);
+      expect(task).not.toHaveBeenCalled();
+    });
+
+    it('should throw on an invalid concurrency', () => {
+      expect(() => AsyncResult.all([], { concurrency: 0 })).toThrow();
+    });
+  });
+
+  describe('AsyncResult.collect', () => {
+    it('should run every task and gather every error', async () => {
+      const first = err('First');
+      const second = err('Second');
+      const result = await AsyncResult.collect({ a: delayed(first, 5), b: () => ok(1), c: () => second });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe(AggregateErrorName);
+        expect(result.reason).toEqual({ a: first, c: second });
+      }
+    });
+  });
+
+  describe('AsyncResult.any', () => {
+    it('should resolve to the first success and abort the others', async () => {
+      const tracker = { running: 0, max: 0, aborted: 0 };
+      const result = await AsyncResult.any([delayed(err('Slow'), 50, tracker), delayed(ok('fast'), 1)]);
+
+      expect(result).toEqual(ok('fast'));
+      expect(tracker.aborted).toBe(1);
+    });
+
+    it('should gather every error when all tasks fail', async () => {
+      const first = err('First');
+      const second = err('Second');
+      const result = await AsyncResult.any([() => first, delayed(second, 5)]);
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.reason).toEqual([first, second]);
+    });
+  });
+
+  describe('AsyncResult.partition', () => {
+    it('should split the results of every task', async () => {
+      const failure = err('NotFound');
+      const [data, errors] = await AsyncResult.partition([() => ok(1), delayed(failure, 5), async () => ok(3)], { concurrency: 1 });
+
+      expect(data).toEqual([1, 3]);
+      expect(errors).toEqual([failure]);
+    });
+
+    it('should only split the completed tasks when the external signal aborts', async () => {
+      const controller = new AbortController();
+      const failure = err('NotFound');
+      const partitioned = AsyncResult.partition([delayed(ok(1), 50), () => ok(2), async () => failure], { signal: controller.signal });
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      controller.abort('cancelled');
+      const [data, errors] = await partitioned;
+
+      expect(data).toEqual([2]);
+      expect(errors).toEqual([failure]);
+    });
+  });
+});
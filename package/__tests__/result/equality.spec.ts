@@ -0,0 +1,116 @@
+import { ok, err, equals, hash } from '../../src';
+import { describe, it, expect } from 'vitest';
+
+/**
+ * Tests for result equality and hashing
+ */
+describe('equality', () => {
+  describe('equals', () => {
+    it('should compare the outcome and the data', () => {
+      expect(equals(ok(1), ok(1))).toBe(true);
+      expect(equals(ok(1), ok(2))).toBe(false);
+      expect(equals(ok(1), err('NotFound'))).toBe(false);
+      expect(equals(err('NotFound'), ok(undefined))).toBe(false);
+      expect(equals(ok(NaN), ok(NaN))).toBe(true);
+    });
+
+    it('should compare error names and reasons, ignoring stacks, causes and paths', () => {
+      const a = err('NotFound', { id: 1 });
+      const b = err('NotFound', { id: 1 }, { cause: err('Timeout') }).atPath('user');
+
+      expect(a.stack).not.toBe(b.stack);
+      expect(equals(a, b)).toBe(true);
+      expect(equals(a, err('Forbidden', { id: 1 }))).toBe(false);
+      expect(equals(a, err('NotFound', { id: 2 }))).toBe(false);
+    });
+
+    it('should compare data and reasons structurally by default', () => {
+      const date = new Date(0);
+
+      expect(equals(
+        ok({ id: 1, tags: ['a'], at: date, ids: new Set([1, 2]), byId: new Map([[1, { name: 'a' }]]) }),
+        ok({ tags: ['a'], id: 1, at: new Date(0), ids: new Set([2, 1]), byId: new Map([[1, { name: 'a' }]]) }),
+      )).toBe(true);
+      expect(equals(ok({ id: 1 }), ok({ id: 1, name: undefined }))).toBe(false);
+      expect(equals(ok([1, 2]), ok({ 0: 1, 1: 2 }))).toBe(false);
+      expect(equals(ok(new Error('a')), ok(new Error('b')))).toBe(false);
+      expect(equals(ok(/a/g), ok(/a/g))).toBe(true);
+    });
+
+    it('should compare nested results without their stacks', () => {
+      expect(equals(ok([err('NotFound'), ok(1)]), ok([err('NotFound'), ok(1)]))).toBe(true);
+      expect(equals(ok([err('NotFound')]), ok([err('Forbidden')]))).toBe(false);
+    });
+
+    it('should stop on cycles', () => {
+      const a: Record<string, unknown> = { id: 1 };
+      const b: Record<string, unknown> = { id: 1 };
+      a.self = a;
+      b.self = b;
+
+      expect(equals(ok(a), ok(b))).toBe(true);
+      expect(hash(ok(a))).toBe(hash(ok(b)));
+    });
+
+    it('should compare with Object.is when not deep', () => {
+      const data = { id: 1 };
+
+      expect(equals(ok(data), ok(data), { deep: false })).toBe(true);
+      expect(equals(ok(data), ok({ id: 1 }), { deep: false })).toBe(false);
+    });
+
+    it('should ignore reasons when asked', () => {
+      expect(equals(err('NotFound', 'a'), err('NotFound', 'b'), { compareReason: false })).toBe(true);
+      expect(equals(err('NotFound', 'a'), err('Forbidden', 'a'), { compareReason: false })).toBe(false);
+    });
+
+    it('should use a custom equality', () => {
+      const equal = (a: unknown, b: unknown) => String(a).toLowerCase() === String(b).toLowerCase();
+
+      expect(equals(ok('A'), ok('a'), { equal })).toBe(true);
+      expect(equals(err('NotFound', 'A'), err('NotFound', 'a'), { equal })).toBe(true);
+    });
+
+    it('should be available as a method', () => {
+      const result = Math.random() > 2 ? ok(1) : err('NotFound', 'a');
+
+      expect(result.equals(err('NotFound', 'a'))).toBe(true);
+      expect(result.equals(err('NotFound', 'b'), { compareReason: false })).toBe(true);
+      expect(ok(1).equals(ok(1))).toBe(true);
+    });
+  });
+
+  describe('hash', () => {
+    it('should be stable for equal results', () => {
+      expect(hash(ok({ a: 1, b: [1, 'x'] }))).toBe(hash(ok({ b: [1, 'x'], a: 1 })));
+      expect(hash(ok(new Set([1, 2])))).toBe(hash(ok(new Set([2, 1]))));
+      expect(hash(err('NotFound', { id: 1 }))).toBe(hash(err('NotFound', { id: 1 }, { cause: 'db' })));
+      expect(ok(1).hash()).toBe(hash(ok(1)));
+    });
+
+    it('should differ for different results', () => {
+      const hashes = [ok(1), ok('1'), ok(1n), ok([1]), ok({ a: 1 }), err('1'), err('NotFound', 1), ok(undefined), ok(null)].map((result) => hash(result));
+
+      expect(new Set(hashes).size).toBe(hashes.length);
+    });
+
+    it('should return a non-negative safe integer', () => {
+      const value = hash(err('NotFound', 'a'));
+
+      expect(Number.isSafeInteger(value)).toBe(true);
+      expect(value).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should leave reasons out when asked', () => {
+      expect(hash(err('NotFound', 'a'), { compareReason: false })).toBe(hash(err('NotFound', 'b'), { compareReason: false }));
+      expect(err('NotFound', 'a').hash()).not.toBe(err('NotFound', 'b').hash());
+    });
+
+    it('should key a cache', () => {
+      const cache = new Map<number, string>();
+      cache.set(hash(ok({ id: 1 })), 'user 1');
+
+      expect(cache.get(ok({ id: 1 }).hash())).toBe('user 1');
+    });
+  });
+});
@@ -166,6 +166,39 @@ describe('err function', () => {
     });
   });
 
+  describe('data-only transformers', () => {
+    it('should return itself with mapData()', () => {
+      const result = err('NotFound', 'User not found');
+      const fn = vi.fn(() => 42);
+      const mapped = result.mapData(fn);
+
+      expect(mapped).toBe(result);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should transform the error name with mapErr()', () => {
+      const result = err('NotFound', 'User not found');
+      const mapped = result.mapErr((error) => `user:${error}` as const);
+
+      expect(mapped).not.toBe(result);
+      expect(mapped.success).toBe(false);
+      expect(mapped.error).toBe('user:NotFound');
+      expect(mapped.reason).toBe('User not found');
+      expect(mapped.stack).toBe(result.stack);
+    });
+
+    it('should transform the reason with mapReason()', () => {
+      const result = err('NotFound', { id: 1 });
+      const mapped = result.mapReason((reason) => `User ${reason.id} not found`);
+
+      expect(mapped).not.toBe(result);
+      expect(mapped.success).toBe(false);
+      expect(mapped.error).toBe('NotFound');
+      expect(mapped.reason).toBe('User 1 not found');
+      expect(mapped.stack).toBe(result.stack);
+    });
+  });
+
   describe('type checking methods', () => {
     it('should return false for isOk()', () => {
       const result = err('NotFound');
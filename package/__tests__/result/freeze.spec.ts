@@ -0,0 +1,132 @@
+import { ok, err, frozen, configure, fromJSON, Result } from '../../src';
+import { describe, it, expect, afterEach } from 'vitest';
+
+/**
+ * Tests for frozen results
+ */
+describe('freeze', () => {
+  afterEach(() => {
+    configure({ freeze: 'off', stackCapture: 'eager' });
+  });
+
+  describe('configure({ freeze })', () => {
+    it('should not freeze results by default', () => {
+      expect(Object.isFrozen(ok(1))).toBe(false);
+      expect(Object.isFrozen(err('NotFound'))).toBe(false);
+    });
+
+    it('should freeze results but not their data in shallow mode', () => {
+      configure({ freeze: 'shallow' });
+      const result = ok({ id: 1 });
+      const error = err('NotFound', { id: 1 }, { cause: 'db' });
+
+      expect(Object.isFrozen(result)).toBe(true);
+      expect(Object.isFrozen(result.data)).toBe(false);
+      expect(Object.isFrozen(error)).toBe(true);
+      expect(error.cause).toBe('db');
+      expect(error.stack).toContain('freeze.spec');
+      expect(() => { (result as { data: unknown }).data = { id: 2 }; }).toThrow(TypeError);
+      expect(() => { (error as { reason: unknown }).reason = null; }).toThrow(TypeError);
+    });
+
+    it('should freeze data and reasons recursively in deep mode', () => {
+      configure({ freeze: 'deep' });
+      const result = ok({ user: { tags: ['a'] }, bytes: new Uint8Array(2) });
+      const error = err('Invalid', { fields: [{ name: 'email' }] });
+
+      expect(Object.isFrozen(result.data.user.tags)).toBe(true);
+      expect(Object.isFrozen(result.data.bytes)).toBe(false);
+      expect(Object.isFrozen(error.reason.fields[0])).toBe(true);
+      expect(() => result.data.user.tags.push('b')).toThrow(TypeError);
+    });
+
+    it('should leave class instances, maps and sets mutable in deep mode', () => {
+      class Emitter {
+        private listeners: (() => void)[] = [];
+
+        public on(listener: () => void): void {
+          this.listeners.push(listener);
+        }
+      }
+
+      configure({ freeze: 'deep' });
+      const emitter = new Emitter();
+      const result = ok({ emitter, cache: new Map([['a', { id: 1 }]]), seen: new Set<number>() });
+      const error = err('Closed', emitter);
+
+      expect(Object.isFrozen(result.data)).toBe(true);
+      expect(Object.isFrozen(emitter)).toBe(false);
+      expect(Object.isFrozen(result.data.cache)).toBe(false);
+      expect(Object.isFrozen(result.data.cache.get('a'))).toBe(false);
+      expect(() => error.reason.on(() => undefined)).not.toThrow();
+      expect(() => result.data.cache.set('b', { id: 2 })).not.toThrow();
+      expect(() => result.data.seen.add(1)).not.toThrow();
+    });
+
+    it('should freeze the results created by combinators', () => {
+      configure({ freeze: 'shallow' });
+
+      expect(Object.isFrozen(Result.all([ok(1), ok(2)]))).toBe(true);
+      expect(Object.isFrozen(ok(1).mapData((value) => value + 1))).toBe(true);
+      expect(Object.isFrozen(err('NotFound').wrapErr('Failed'))).toBe(true);
+    });
+
+    it('should freeze copies of errors once complete', () => {
+      configure({ freeze: 'shallow' });
+      const error = err('NotFound', 'a').atPath('user');
+
+      for (const copy of [error.atPath('users', 0), error.prefixErr('repo'), error.mapErr(() => 'Missing'), error.mapReason(() => 'b')]) {
+        expect(Object.isFrozen(copy)).toBe(true);
+        expect(copy).not.toBe(error);
+        expect(copy.stack).toBe(error.stack);
+      }
+      expect(error.atPath('users', 0).path).toEqual(['users', 0, 'user']);
+      expect(error.prefixErr('repo').path).toEqual(['user']);
+      expect(error.path).toEqual(['user']);
+    });
+
+    it('should freeze revived errors with their stack and path', () => {
+      configure({ freeze: 'shallow' });
+      const revived = fromJSON(JSON.stringify(err('NotFound').atPath('id').toJSON({ stack: true })));
+
+      expect(Object.isFrozen(revived)).toBe(true);
+      expect(revived.success === false && revived.path).toEqual(['id']);
+    });
+
+    it('should keep lazily captured stacks readable', () => {
+      configure({ freeze: 'shallow', stackCapture: 'lazy' });
+      const error = err('NotFound');
+
+      expect(error.stack).toContain('freeze.spec');
+      expect(error.prefixErr('repo').stack).toBe(error.stack);
+    });
+  });
+
+  describe('frozen', () => {
+    it('should freeze the result, and not its data by default', () => {
+      const result = ok({ id: 1 });
+
+      expect(frozen(result)).toBe(result);
+      expect(Object.isFrozen(result)).toBe(true);
+      expect(Object.isFrozen(result.data)).toBe(false);
+    });
+
+    it('should freeze the data or reason with deep', () => {
+      const result = frozen(ok({ ids: [1] }), { deep: true });
+      const error = frozen(err('NotFound', { ids: [1] }), { deep: true });
+
+      expect(Object.isFrozen(result.data.ids)).toBe(true);
+      expect(Object.isFrozen(error.reason.ids)).toBe(true);
+    });
+
+    it('should return new instances from transform methods', () => {
+      const result = frozen(ok(1));
+      const error = frozen(err('NotFound', 'a'));
+
+      expect(result.mapData((value) => value + 1).data).toBe(2);
+      expect(error.mapReason((reason) => reason.toUpperCase()).reason).toBe('A');
+      expect(result.data).toBe(1);
+      expect(error.reason).toBe('a');
+    });
+  });
+});
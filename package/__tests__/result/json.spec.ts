@@ -0,0 +1,159 @@
+import { Err, Ok, fromJSON, revive, ok, err, type IResult } from '../../src';
+import { describe, it, expect } from 'vitest';
+
+/**
+ * Tests for JSON serialization and revival of results
+ */
+describe('JSON', () => {
+  describe('toJSON', () => {
+    it('should serialize success results with the versioned shape', () => {
+      expect(JSON.stringify(ok({ id: 1 }))).toBe('{"$tryless":1,"success":true,"data":{"id":1}}');
+    });
+
+    it('should serialize error results without the stack by default', () => {
+      const json = JSON.parse(JSON.stringify(err('NotFound', 'User not found')));
+
+      expect(json).toEqual({ $tryless: 1, success: false, error: 'NotFound', reason: 'User not found' });
+    });
+
+    it('should include the stack when requested', () => {
+      const result = err('NotFound');
+
+      expect(result.toJSON({ stack: true }).stack).toBe(result.stack);
+    });
+
+    it('should serialize errors inside the reason as name and message', () => {
+      const result = err('fetch-failed', { attempts: 3, errors: [new TypeError('socket hang up')] });
+
+      expect(result.toJSON().reason).toEqual({ attempts: 3, errors: [{ name: 'TypeError', message: 'socket hang up' }] });
+    });
+
+    it('should include the stack of errors when requested', () => {
+      const thrown = new Error('socket hang up');
+
+      expect(err('fetch-failed', thrown).toJSON({ stack: true }).reason).toEqual({ name: 'Error', message: 'socket hang up', stack: thrown.stack });
+    });
+
+    it('should use a custom error serializer', () => {
+      const result = ok(new RangeError('too big'));
+
+      expect(result.toJSON({ serializeError: (error) => error.message }).data).toBe('too big');
+    });
+
+    it('should serialize the cause chain', () => {
+      const result = err('db:timeout', 5000).wrapErr('user:load-failed');
+
+      expect(result.toJSON().cause).toEqual({ $tryless: 1, success: false, error: 'db:timeout', reason: 5000 });
+    });
+
+    it('should serialize nested results', () => {
+      const result = ok({ user: ok('John'), posts: err('NotFound') });
+
+      expect(JSON.parse(JSON.stringify(result)).data).toEqual({
+        user: { $tryless: 1, success: true, data: 'John' },
+        posts: { $tryless: 1, success: false, error: 'NotFound' },
+      });
+    });
+
+    it('should keep values with their own toJSON', () => {
+      const date = new Date(0);
+
+      expect(JSON.stringify(ok(date))).toBe('{"$tryless":1,"success":true,"data":"1970-01-01T00:00:00.000Z"}');
+    });
+  });
+
+  describe('fromJSON', () => {
+    it('should rebuild success results', () => {
+      const result = fromJSON(JSON.stringify(ok({ id: 1 })));
+
+      expect(result).toBeInstanceOf(Ok);
+      expect(result.unwrap()).toEqual({ id: 1 });
+    });
+
+    it('should rebuild success results without data', () => {
+      const result = fromJSON(JSON.stringify(ok()));
+
+      expect(result).toBeInstanceOf(Ok);
+      expect(result.success && result.data).toBeUndefined();
+    });
+
+    it('should rebuild error results with their stack', () => {
+      const original = err('NotFound', 'User not found');
+      const result = fromJSON(original.toJSON({ stack: true }));
+
+      expect(result).toBeInstanceOf(Err);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe('NotFound');
+        expect(result.reason).toBe('User not found');
+        expect(result.stack).toBe(original.stack);
+      }
+    });
+
+    it('should not invent a stack', () => {
+      const result = fromJSON(JSON.stringify(err('NotFound')));
+
+      expect('stack' in result).toBe(false);
+    });
+
+    it('should rebuild the cause chain', () => {
+      const result = fromJSON(JSON.stringify(err('db:timeout', 5000).wrapErr('user:load-failed')));
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect((result as Err<string, unknown>).cause).toBeInstanceOf(Err);
+        expect(((result as Err<string, unknown>).cause as Err<string, unknown>).error).toBe('db:timeout');
+      }
+    });
+
+    it('should rebuild nested results', () => {
+      const result = fromJSON<IResult<{ user: Ok<string> }, never>>(JSON.stringify(ok({ user: ok('John') })));
+
+      expect(result.unwrap().user).toBeInstanceOf(Ok);
+    });
+
+    it.each([
+      ['not an object', '42', 'Expected an object'],
+      ['an array', '[]', 'Expected an object'],
+      ['missing version', '{"success":true,"data":1}', 'Missing or unsupported $tryless version'],
+      ['unsupported version', '{"$tryless":2,"success":true,"data":1}', 'Missing or unsupported $tryless version'],
+      ['missing success', '{"$tryless":1,"data":1}', 'Expected a boolean success'],
+      ['missing error', '{"$tryless":1,"success":false}', 'Expected a string error'],
+      ['invalid stack', '{"$tryless":1,"success":false,"error":"NotFound","stack":1}', 'Expected a string stack'],
+    ])('should reject %s', (_, json, reason) => {
+      const result = fromJSON(json);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe('invalid-result-json');
+        expect(result.reason).toBe(reason);
+      }
+    });
+
+    it('should reject invalid JSON text', () => {
+      const result = fromJSON('{');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe('invalid-result-json');
+        expect(result.reason).toContain('Invalid JSON');
+      }
+    });
+  });
+
+  describe('revive', () => {
+    it('should rebuild every result of a JSON text', () => {
+      const payload = JSON.parse(JSON.stringify({ user: ok('John'), posts: err('NotFound') }), revive);
+
+      expect(payload.user).toBeInstanceOf(Ok);
+      expect(payload.posts).toBeInstanceOf(Err);
+      expect(payload.posts.error).toBe('NotFound');
+    });
+
+    it('should leave other values untouched', () => {
+      const payload = JSON.parse('{"success":true,"data":1,"list":[1,2]}', revive);
+
+      expect(payload).toEqual({ success: true, data: 1, list: [1, 2] });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { AsyncResult, UnwrapError, match, ok, err, type IResult } from '../../src';
+import { describe, it, expect, vi } from 'vitest';
+
+type UserResult = IResult<{ name: string }, { NotFound: string; Underage: { age: number } }>;
+
+/**
+ * Tests for the match function and method
+ */
+describe('match', () => {
+  describe('match function', () => {
+    it('should call the ok handler with the data', () => {
+      const result = ok({ name: 'John' }) as UserResult;
+      const message = match(result, {
+        ok: (user) => `Hello ${user.name}`,
+        NotFound: (reason) => reason,
+        Underage: (reason) => `Too young: ${reason.age}`,
+      });
+
+      expect(message).toBe('Hello John');
+    });
+
+    it('should call the error handler with the reason', () => {
+      const result = err('Underage', { age: 12 }) as UserResult;
+      const okHandler = vi.fn();
+      const message = match(result, {
+        ok: okHandler,
+        NotFound: (reason) => reason,
+        Underage: (reason) => `Too young: ${reason.age}`,
+      });
+
+      expect(message).toBe('Too young: 12');
+      expect(okHandler).not.toHaveBeenCalled();
+    });
+
+    it('should call the fallback with the error result when no handler matches', () => {
+      const result = err('NotFound', 'User not found') as UserResult;
+      const fallback = vi.fn(() => 500);
+      const status = match(result, {
+        ok: () => 200,
+        Underage: () => 403,
+        _: fallback,
+      });
+
+      expect(status).toBe(500);
+      expect(fallback).toHaveBeenCalledWith(result);
+    });
+
+    it('should prefer a specific handler over the fallback', () => {
+      const result = err('NotFound', 'User not found') as UserResult;
+      const status = match(result, {
+        ok: () => 200,
+        NotFound: () => 404,
+        _: () => 500,
+      });
+
+      expect(status).toBe(404);
+    });
+
+    it('should not match inherited object properties', () => {
+      const result = err('toString', 'reason');
+
+      expect(() => match(result as never, { ok: () => 1 })).toThrow(UnwrapError);
+    });
+
+    it('should throw UnwrapError when no handler matches at runtime', () => {
+      const result = err('Unexpected');
+
+      expect(() => match(result as never, { ok: () => 1 })).toThrow(UnwrapError);
+    });
+  });
+
+  describe('match method', () => {
+    it('should match on Ok and Err instances', () => {
+      expect(ok(42).match({ ok: (n) => n * 2 })).toBe(84);
+      expect(err('NotFound', 'missing').match({ ok: () => '', NotFound: (reason) => reason })).toBe('missing');
+    });
+
+    it('should match on result unions', () => {
+      const result = err('NotFound', 'User not found') as UserResult;
+      const status = result.match({ ok: () => 200, _: (failure) => failure.error });
+
+      expect(status).toBe('NotFound');
+    });
+
+    it('should resolve the matching handler on AsyncResult', async () => {
+      const result = AsyncResult.from(Promise.resolve(err('Underage', { age: 12 }) as UserResult));
+      const age = await result.match({ ok: () => null, NotFound: () => null, Underage: (reason) => reason.age });
+
+      expect(age).toBe(12);
+    });
+  });
+});
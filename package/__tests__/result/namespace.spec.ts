@@ -0,0 +1,175 @@
+import { AsyncResult, UnwrapError, ok, err, match, isErrIn, configure, type Err, type IResult } from '../../src';
+import { describe, it, expect, afterEach } from 'vitest';
+
+type PriceResult = IResult<number, Err<'bitcoin:no-content'> | Err<'bitcoin:invalid-response', string> | Err<'fetch:timeout', number>>;
+
+/**
+ * Tests for namespaced error names
+ */
+describe('namespaced errors', () => {
+  afterEach(() => {
+    configure({ stackCapture: 'eager' });
+  });
+
+  describe('isErrIn', () => {
+    it('should match errors of the namespace', () => {
+      expect(isErrIn(err('bitcoin:no-content'), 'bitcoin')).toBe(true);
+      expect(isErrIn(err('repo:db:timeout'), 'repo')).toBe(true);
+      expect(isErrIn(err('repo:db:timeout'), 'repo:db')).toBe(true);
+    });
+
+    it('should not match other errors or successes', () => {
+      expect(isErrIn(err('fetch:timeout'), 'bitcoin')).toBe(false);
+      expect(isErrIn(err('bitcoins:no-content'), 'bitcoin')).toBe(false);
+      expect(isErrIn(err('bitcoin'), 'bitcoin')).toBe(false);
+      expect(isErrIn(ok(1), 'bitcoin')).toBe(false);
+    });
+
+    it('should accept plain result objects', () => {
+      expect(isErrIn({ success: false, error: 'bitcoin:no-content', reason: undefined }, 'bitcoin')).toBe(true);
+    });
+  });
+
+  describe('expect', () => {
+    it('should accept an error of the namespace', () => {
+      const result = err('bitcoin:no-content') as PriceResult;
+
+      expect(result.expect('bitcoin:*').error).toBe('bitcoin:no-content');
+    });
+
+    it('should throw for an error outside the namespace', () => {
+      const result = err('fetch:timeout', 5000) as PriceResult;
+
+      expect(() => result.expect('bitcoin:*')).toThrow(UnwrapError);
+      expect(() => result.expect('bitcoin:*')).toThrow('Expected error bitcoin:*, but got error fetch:timeout');
+    });
+
+    it('should keep matching exact names', () => {
+      const result = err('bitcoin:no-content') as PriceResult;
+
+      expect(() => result.expect('bitcoin:invalid-response')).toThrow(UnwrapError);
+    });
+
+    it('should resolve on async results', async () => {
+      const result = new AsyncResult(Promise.resolve(err('bitcoin:no-content') as PriceResult));
+
+      await expect(result.expect('bitcoin:*')).resolves.toMatchObject({ error: 'bitcoin:no-content' });
+      await expect(result.expect('fetch:*')).rejects.toThrow(UnwrapError);
+    });
+  });
+
+  describe('orElse', () => {
+    it('should recover only errors of the namespace', () => {
+      const recover = (result: PriceResult) => result.orElse('bitcoin:*', () => ok(0));
+
+      expect(recover(err('bitcoin:no-content') as PriceResult)).toEqual(ok(0));
+      expect(recover(err('fetch:timeout', 5000) as PriceResult)).toMatchObject({ error: 'fetch:timeout', reason: 5000 });
+      expect(recover(ok(42) as PriceResult)).toEqual(ok(42));
+    });
+
+    it('should recover a single error by name', () => {
+      const result = err('bitcoin:invalid-response', 'NaN') as PriceResult;
+
+      expect(result.orElse('bitcoin:invalid-response', (error) => ok(error.reason.length))).toEqual(ok(3));
+      expect(result.orElse('bitcoin:no-content', () => ok(0))).toBe(result);
+    });
+
+    it('should keep recovering every error without a name', () => {
+      const result = err('fetch:timeout', 5000) as PriceResult;
+
+      expect(result.orElse(() => err('fallback'))).toMatchObject({ error: 'fallback' });
+    });
+
+    it('should recover errors of the namespace on async results', async () => {
+      const recovered = new AsyncResult(Promise.resolve(err('bitcoin:no-content') as PriceResult)).orElse('bitcoin:*', async () => ok(0));
+      const kept = new AsyncResult(Promise.resolve(err('fetch:timeout', 5000) as PriceResult)).orElse('bitcoin:*', () => ok(0));
+
+      expect(await recovered).toEqual(ok(0));
+      expect(await kept).toMatchObject({ error: 'fetch:timeout', reason: 5000 });
+    });
+  });
+
+  describe('match', () => {
+    it('should call the namespace handler with the error result', () => {
+      const result = err('bitcoin:invalid-response', 'NaN') as PriceResult;
+
+      const message = match(result, {
+        ok: (price) => `${price}`,
+        'bitcoin:*': (error) => `bitcoin failed: ${error.error}`,
+        'fetch:timeout': (ms) => `timeout after ${ms}ms`,
+      });
+
+      expect(message).toBe('bitcoin failed: bitcoin:invalid-response');
+    });
+
+    it('should prefer exact names over namespaces', () => {
+      const result = err('bitcoin:no-content') as PriceResult;
+
+      const message = match(result, {
+        ok: () => 'ok',
+        'bitcoin:no-content': () => 'empty',
+        'bitcoin:*': () => 'bitcoin',
+        _: () => 'other',
+      });
+
+      expect(message).toBe('empty');
+    });
+
+    it('should prefer the most specific namespace', () => {
+      const result = err('repo:db:timeout', 5000) as IResult<number, Err<'repo:db:timeout', number> | Err<'repo:not-found'>>;
+
+      const message = match(result, {
+        ok: () => 'ok',
+        'repo:*': () => 'repo',
+        'repo:db:*': () => 'db',
+      });
+
+      expect(message).toBe('db');
+    });
+
+    it('should fall back to _ when no namespace matches', () => {
+      const result = err('fetch:timeout', 5000) as PriceResult;
+
+      expect(result.match({ ok: () => 'ok', 'bitcoin:*': () => 'bitcoin', _: () => 'other' })).toBe('other');
+    });
+  });
+
+  describe('prefixErr', () => {
+    it('should prefix the error name and keep the reason', () => {
+      const result = err('db:timeout', 5000).prefixErr('repo');
+
+      expect(result.error).toBe('repo:db:timeout');
+      expect(result.reason).toBe(5000);
+    });
+
+    it('should keep the cause, path and stack', () => {
+      const cause = err('socket');
+      const original = err('db:timeout', 5000, { cause }).atPath('user');
+      const result = original.prefixErr('repo');
+
+      expect(result.cause).toBe(cause);
+      expect(result.path).toEqual(['user']);
+      expect(result.stack).toBe(original.stack);
+    });
+
+    it('should keep the stack when captured lazily', () => {
+      configure({ stackCapture: 'lazy' });
+      const original = err('db:timeout', 5000);
+
+      expect(original.prefixErr('repo').stack).toBe(original.stack);
+    });
+
+    it('should leave successes untouched', () => {
+      const result = ok(1);
+
+      expect(result.prefixErr('repo')).toBe(result);
+    });
+
+    it('should prefix errors of async results', async () => {
+      const result = new AsyncResult(Promise.resolve(err('db:timeout', 5000) as IResult<number, Err<'db:timeout', number>>)).prefixErr('repo');
+
+      expect(await result).toMatchObject({ error: 'repo:db:timeout', reason: 5000 });
+      expect(await new AsyncResult(Promise.resolve(ok(1))).prefixErr('repo')).toEqual(ok(1));
+    });
+  });
+});
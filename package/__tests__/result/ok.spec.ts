@@ -161,6 +161,35 @@ describe('ok function', () => {
     });
   });
 
+  describe('data-only transformers', () => {
+    it('should transform data with mapData()', () => {
+      const result = ok({ id: 1, name: 'John' });
+      const mapped = result.mapData((user) => user.name);
+
+      expect(mapped).not.toBe(result);
+      expect(mapped.success).toBe(true);
+      expect(mapped.data).toBe('John');
+    });
+
+    it('should return itself with mapErr()', () => {
+      const result = ok(42);
+      const fn = vi.fn(() => 'Other' as const);
+      const mapped = result.mapErr(fn);
+
+      expect(mapped).toBe(result);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should return itself with mapReason()', () => {
+      const result = ok(42);
+      const fn = vi.fn(() => 'reason');
+      const mapped = result.mapReason(fn);
+
+      expect(mapped).toBe(result);
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
   describe('type checking methods', () => {
     it('should return true for isOk()', () => {
       const result = ok(42);
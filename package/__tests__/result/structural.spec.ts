@@ -0,0 +1,163 @@
+import { Err, Ok, Result, AsyncResult, from, isResult, ok, err, gen, match, retry, resultfy, InvalidResultErrorName, type IUnknownOkErr } from '../../src';
+import { describe, it, expect } from 'vitest';
+
+/**
+ * Tests for plain and foreign results
+ */
+describe('structural results', () => {
+  const plainOk = () => JSON.parse('{"success":true,"data":1}') as { success: true; data: number };
+  const plainErr = () => JSON.parse('{"success":false,"error":"NotFound","reason":"user","stack":"Error\\n    at remote"}') as { success: false; error: 'NotFound'; reason: string };
+
+  /**
+   * Mimics an Err created by another copy of tryless: same shape, different class.
+   */
+  class ForeignErr {
+    public readonly success = false;
+    public cause?: unknown;
+
+    constructor(public readonly error: string, public readonly reason: unknown, public stack?: string) {}
+
+    public mapErr(): never {
+      throw new Error('foreign method called');
+    }
+  }
+
+  describe('isResult', () => {
+    it('should accept results of any origin', () => {
+      expect(isResult(ok(1))).toBe(true);
+      expect(isResult(err('NotFound'))).toBe(true);
+      expect(isResult(plainOk())).toBe(true);
+      expect(isResult(plainErr())).toBe(true);
+      expect(isResult(new ForeignErr('NotFound', 1))).toBe(true);
+    });
+
+    it('should accept results whose data or reason was dropped by JSON', () => {
+      expect(isResult(JSON.parse(JSON.stringify({ success: true, data: undefined })))).toBe(true);
+      expect(isResult(JSON.parse(JSON.stringify({ success: false, error: 'NotFound', reason: undefined })))).toBe(true);
+    });
+
+    it('should reject values without the shape of a result', () => {
+      expect(isResult(null)).toBe(false);
+      expect(isResult('ok')).toBe(false);
+      expect(isResult([true, 1])).toBe(false);
+      expect(isResult({ ok: true })).toBe(false);
+      expect(isResult({ success: 'true', data: 1 })).toBe(false);
+      expect(isResult({ success: false, error: 404 })).toBe(false);
+      expect(isResult({ success: false, error: 'NotFound', stack: 1 })).toBe(false);
+      expect(isResult({ success: false, error: 'NotFound', path: 'a' })).toBe(false);
+    });
+  });
+
+  describe('from', () => {
+    it('should return Ok and Err instances as is', () => {
+      const success = ok(1);
+      const error = err('NotFound');
+
+      expect(from(success)).toBe(success);
+      expect(from(error)).toBe(error);
+    });
+
+    it('should upgrade plain results', () => {
+      const success = from(plainOk());
+      const error = from(plainErr());
+
+      expect(success).toBeInstanceOf(Ok);
+      expect(success.mapData((n) => n + 1).unwrap()).toBe(2);
+      expect(error).toBeInstanceOf(Err);
+      expect(error).toMatchObject({ error: 'NotFound', reason: 'user', stack: 'Error\n    at remote' });
+      expect(error.unwrapOr(0)).toBe(0);
+    });
+
+    it('should upgrade results of another copy, with their cause and path', () => {
+      const foreign = new ForeignErr('db:timeout', 30, 'Error\n    at foreign');
+      foreign.cause = new ForeignErr('net:reset', undefined);
+      const upgraded = from(Object.assign(foreign, { path: ['user', 'email'] })) as Err<string, unknown, Err<string, unknown>>;
+
+      expect(upgraded).toBeInstanceOf(Err);
+      expect(upgraded.mapErr((name) => `app:${name}`).error).toBe('app:db:timeout');
+      expect(upgraded.stack).toBe('Error\n    at foreign');
+      expect(upgraded.path).toEqual(['user', 'email']);
+      expect(upgraded.cause).toBeInstanceOf(Err);
+      expect(upgraded.cause?.error).toBe('net:reset');
+    });
+
+    it('should return an invalid-result error for other values', () => {
+      const result = from({ ok: true });
+
+      expect(result).toBeInstanceOf(Err);
+      expect(result).toMatchObject({ error: InvalidResultErrorName, reason: 'Expected a boolean success' });
+      expect(from(null)).toMatchObject({ reason: 'Expected an object' });
+      expect(from({ success: false })).toMatchObject({ reason: 'Expected a string error' });
+    });
+  });
+
+  describe('combinators', () => {
+    it('should upgrade results returned by and, andThen, or and orElse', () => {
+      expect(ok(0).and(plainOk())).toBeInstanceOf(Ok);
+      expect(ok(0).andThen(() => plainErr())).toBeInstanceOf(Err);
+      expect(err('A').or(plainOk())).toBeInstanceOf(Ok);
+      expect(err('A').orElse(() => plainErr())).toBeInstanceOf(Err);
+      expect(err('A').orElse('A', () => plainOk()).unwrap()).toBe(1);
+    });
+
+    it('should upgrade the errors gathered by Result.all, collect, any and partition', () => {
+      const results = [plainOk(), plainErr()] as const;
+
+      expect(Result.all(results)).toBeInstanceOf(Err);
+      expect((Result.collect(results) as Err<string, IUnknownOkErr[]>).reason[0]).toBeInstanceOf(Err);
+      expect((Result.any([plainErr()]) as Err<string, IUnknownOkErr[]>).reason[0]).toBeInstanceOf(Err);
+      expect(Result.partition(results)[1][0]).toBeInstanceOf(Err);
+      expect(Result.partition({ a: plainErr() })[1].a).toBeInstanceOf(Err);
+    });
+
+    it('should locate plain errors in Result.validate', () => {
+      const validated = Result.validate({ user: { email: { ...plainErr(), path: ['address'] } } });
+
+      expect(validated.success).toBe(false);
+      const [error] = (validated as Err<string, Err<string, unknown>[]>).reason;
+      expect(error).toBeInstanceOf(Err);
+      expect(error.path).toEqual(['user', 'email', 'address']);
+    });
+
+    it('should upgrade results resolved by an AsyncResult', async () => {
+      const resolved = await AsyncResult.from(Promise.resolve(plainErr())).mapErr((name) => `user:${name}`);
+      const chained = await AsyncResult.from(ok(1)).andThen(async () => plainErr()).prefixErr('api');
+
+      expect(await AsyncResult.from(plainOk())).toBeInstanceOf(Ok);
+      expect(resolved).toBeInstanceOf(Err);
+      expect(resolved).toMatchObject({ error: 'user:NotFound', reason: 'user' });
+      expect(chained).toMatchObject({ error: 'api:NotFound' });
+    });
+
+    it('should upgrade results returned by gen', () => {
+      expect(gen(function* () {
+        const data = yield* ok(1);
+
+        return { success: true as const, data };
+      })).toBeInstanceOf(Ok);
+    });
+
+    it('should pass upgraded errors to namespace and fallback handlers of match', () => {
+      const received = match(plainErr() as { success: false; error: 'NotFound'; reason: string } | { success: true; data: number }, {
+        ok: () => undefined,
+        _: (error) => error,
+      });
+
+      expect(received).toBeInstanceOf(Err);
+    });
+
+    it('should upgrade the attempts of retry', async () => {
+      const result = await retry(() => plainErr(), { maxAttempts: 2 });
+
+      expect(result.success).toBe(false);
+      expect((result as Err<string, { error: unknown }[], unknown>).cause).toBeInstanceOf(Err);
+      expect((result as Err<string, { error: unknown }[]>).reason[0].error).toBeInstanceOf(Err);
+    });
+
+    it('should upgrade errors returned by a resultfy classifier', () => {
+      const parse = resultfy(JSON.parse, () => ({ success: false as const, error: 'json:invalid' as const, reason: null }));
+
+      expect(parse('{')).toBeInstanceOf(Err);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { AsyncResult, ok, err, type Err, type IResult } from '../../src';
+import { describe, it, expect, vi } from 'vitest';
+
+type PriceResult = IResult<number, Err<'bitcoin:no-content'> | Err<'fetch:timeout', number>>;
+
+/**
+ * Tests for tap side-effect hooks
+ */
+describe('tap', () => {
+  describe('tap', () => {
+    it('should run the side effect with the data and return the same result', () => {
+      const fn = vi.fn();
+      const result = ok(42);
+
+      expect(result.tap(fn)).toBe(result);
+      expect(fn).toHaveBeenCalledWith(42);
+    });
+
+    it('should not run the side effect for errors', () => {
+      const fn = vi.fn();
+      const result = err('NotFound');
+
+      expect(result.tap(fn)).toBe(result);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should await async side effects', async () => {
+      const calls: string[] = [];
+      const result = ok(42);
+
+      const tapped = result.tap(async () => {
+        await Promise.resolve();
+        calls.push('tap');
+      });
+      calls.push('sync');
+
+      expect(tapped).toBeInstanceOf(AsyncResult);
+      expect(await tapped).toBe(result);
+      expect(calls).toEqual(['sync', 'tap']);
+    });
+
+    it('should propagate exceptions by default', () => {
+      const failure = new Error('logger down');
+
+      expect(() => ok(1).tap(() => { throw failure; })).toThrow(failure);
+    });
+
+    it('should turn exceptions into a tap error when configured', async () => {
+      const failure = new Error('logger down');
+
+      const result = ok(1).tap(() => { throw failure; }, { exceptions: 'err' });
+      const rejected = await ok(1).tap(() => Promise.reject(failure), { exceptions: 'err' });
+
+      expect(result).toMatchObject({ success: false, error: 'tap', reason: failure });
+      expect(rejected).toMatchObject({ success: false, error: 'tap', reason: failure });
+    });
+
+    it('should propagate rejections by default', async () => {
+      const failure = new Error('logger down');
+
+      await expect(ok(1).tap(() => Promise.reject(failure))).rejects.toBe(failure);
+    });
+
+    it('should return errors as they are when the async side effect is skipped', async () => {
+      const fn = vi.fn(async () => {});
+      const result = err('bitcoin:no-content') as PriceResult;
+      const tapped = result.tap(fn);
+
+      expect(tapped).toBe(result);
+      expect(await tapped).toBe(result);
+      expect(await AsyncResult.from(tapped)).toBe(result);
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tapErr', () => {
+    it('should run the side effect with the error result and return the same result', () => {
+      const fn = vi.fn();
+      const result = err('fetch:timeout', 5000);
+
+      expect(result.tapErr(fn)).toBe(result);
+      expect(fn).toHaveBeenCalledWith(result);
+    });
+
+    it('should not run the side effect for successes', () => {
+      const fn = vi.fn();
+      const result = ok(1);
+
+      expect(result.tapErr(fn)).toBe(result);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should only run for matching error names and namespaces', () => {
+      const fn = vi.fn();
+      const timeout = err('fetch:timeout', 5000) as PriceResult;
+      const empty = err('bitcoin:no-content') as PriceResult;
+
+      timeout.tapErr('fetch:*', fn);
+      empty.tapErr('fetch:*', fn);
+      empty.tapErr('bitcoin:no-content', fn);
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(fn).toHaveBeenNthCalledWith(1, timeout);
+      expect(fn).toHaveBeenNthCalledWith(2, empty);
+    });
+
+    it('should turn exceptions into a tap error when configured', () => {
+      const failure = new Error('metrics down');
+
+      const result = err('fetch:timeout', 5000).tapErr('fetch:*', () => { throw failure; }, { exceptions: 'err' });
+
+      expect(result).toMatchObject({ success: false, error: 'tap', reason: failure });
+    });
+
+    it('should return the result as it is when the async side effect is skipped', async () => {
+      const fn = vi.fn(async () => {});
+      const success = ok(1) as PriceResult;
+      const empty = err('bitcoin:no-content') as PriceResult;
+
+      expect(success.tapErr(fn)).toBe(success);
+      expect(empty.tapErr('fetch:*', fn)).toBe(empty);
+      expect(await empty.tapErr('fetch:*', fn)).toBe(empty);
+      expect(await AsyncResult.from(success.tapErr(fn))).toBe(success);
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('AsyncResult', () => {
+    it('should tap the data and keep the result', async () => {
+      const fn = vi.fn(async () => {});
+      const result = await AsyncResult.from(ok(42)).tap(fn);
+
+      expect(result).toEqual(ok(42));
+      expect(fn).toHaveBeenCalledWith(42);
+    });
+
+    it('should tap errors by name or namespace', async () => {
+      const fn = vi.fn();
+      const result = AsyncResult.from(err('fetch:timeout', 5000) as PriceResult);
+
+      await result.tapErr('bitcoin:*', fn);
+      await result.tapErr('fetch:*', fn);
+      await result.tapErr(fn);
+
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should wait for async side effects before resolving', async () => {
+      const calls: string[] = [];
+
+      await AsyncResult.from(err('NotFound')).tapErr(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        calls.push('tap');
+      });
+      calls.push('after');
+
+      expect(calls).toEqual(['tap', 'after']);
+    });
+
+    it('should propagate exceptions or turn them into a tap error', async () => {
+      const failure = new Error('logger down');
+
+      await expect(AsyncResult.from(ok(1)).tap(() => { throw failure; })).rejects.toBe(failure);
+      expect(await AsyncResult.from(ok(1)).tap(() => { throw failure; }, { exceptions: 'err' })).toMatchObject({ error: 'tap', reason: failure });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { Err, Result, fromJSON, ok, err } from '../../src';
+import { describe, it, expect } from 'vitest';
+
+/**
+ * Tests for Result.validate and field paths
+ */
+describe('validate', () => {
+  it('should return the data of every check keeping the object shape', () => {
+    const result = Result.validate({ name: ok('John'), age: ok(25) });
+
+    expect(result.success).toBe(true);
+    expect(result.unwrap()).toEqual({ name: 'John', age: 25 });
+  });
+
+  it('should return the data of every check keeping the tuple shape', () => {
+    expect(Result.validate([ok(1), ok('a')]).unwrap()).toEqual([1, 'a']);
+  });
+
+  it('should gather every failed check instead of short-circuiting', () => {
+    const result = Result.validate({
+      name: err('NameRequired'),
+      email: ok('john@example.com'),
+      age: err('Underage', 16),
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe('validation');
+      expect(result.reason).toHaveLength(2);
+      expect(result.reason[0].error).toBe('NameRequired');
+      expect(result.reason[0].path).toEqual(['name']);
+      expect(result.reason[1].error).toBe('Underage');
+      expect(result.reason[1].reason).toBe(16);
+      expect(result.reason[1].path).toEqual(['age']);
+    }
+  });
+
+  it('should build paths of nested objects and arrays', () => {
+    const result = Result.validate({
+      address: { zip: err('InvalidZip', '1') },
+      phones: [ok('555'), err('InvalidPhone', 'abc')],
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.reason.map((issue) => issue.path)).toEqual([['address', 'zip'], ['phones', 1]]);
+    }
+  });
+
+  it('should keep the failed checks as Err instances with their stack', () => {
+    const check = err('NameRequired');
+    const result = Result.validate({ name: check });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.reason[0]).toBeInstanceOf(Err);
+      expect(result.reason[0].stack).toBe(check.stack);
+      expect(check.path).toBeUndefined();
+    }
+  });
+
+  it('should accept structural error results', () => {
+    const result = Result.validate({ name: { success: false, error: 'NameRequired', reason: undefined } as const });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.reason[0]).toEqual({ success: false, error: 'NameRequired', reason: undefined, path: ['name'] });
+    }
+  });
+
+  describe('atPath', () => {
+    it('should attach a field path to an error', () => {
+      const result = err('InvalidZip').atPath('address', 'zip');
+
+      expect(result.path).toEqual(['address', 'zip']);
+    });
+
+    it('should prepend to an existing path', () => {
+      const result = err('InvalidZip').atPath('zip').atPath('addresses', 0);
+
+      expect(result.path).toEqual(['addresses', 0, 'zip']);
+    });
+
+    it('should prepend validation keys to paths attached by checks', () => {
+      const result = Result.validate({ address: err('InvalidZip').atPath('zip') });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.reason[0].path).toEqual(['address', 'zip']);
+      }
+    });
+
+    it('should return success results untouched', () => {
+      const result = ok(1);
+
+      expect(result.atPath('field')).toBe(result);
+    });
+
+    it('should keep the path through mapErr and mapReason', () => {
+      const result = err('InvalidZip', 1).atPath('zip').mapErr(() => 'zip:invalid').mapReason(String);
+
+      expect(result.path).toEqual(['zip']);
+    });
+
+    it('should keep the path through JSON', () => {
+      const result = fromJSON(JSON.stringify(Result.validate({ email: err('InvalidEmail') })));
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        const [issue] = result.reason as Err<string, unknown>[];
+        expect(issue).toBeInstanceOf(Err);
+        expect(issue.path).toEqual(['email']);
+      }
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { retry, ok, err, AsyncResult, type IClock, type IResult, type Err } from '../src';
+import { describe, it, expect, vi } from 'vitest';
+
+type PriceResult = IResult<number, Err<'fetch:timeout', number> | Err<'fetch:refused'> | Err<'bitcoin:no-content'>>;
+
+/**
+ * Creates a clock whose time only moves when sleeping.
+ */
+function fakeClock(): IClock & { sleeps: number[] } {
+  let time = 0;
+  const sleeps: number[] = [];
+
+  return {
+    sleeps,
+    now: () => time,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      time += ms;
+    },
+  };
+}
+
+/**
+ * Creates a function returning the given results in order, then the last one.
+ */
+function sequence(...results: PriceResult[]) {
+  return vi.fn((attempt: number) => results[Math.min(attempt, results.length) - 1]);
+}
+
+/**
+ * Tests for retry
+ */
+describe('retry', () => {
+  it('should return the first success', async () => {
+    const fn = sequence(err('fetch:timeout', 100), ok(42));
+
+    const result = retry(fn, { clock: fakeClock() });
+
+    expect(result).toBeInstanceOf(AsyncResult);
+    expect(await result).toEqual(ok(42));
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(fn).toHaveBeenNthCalledWith(2, 2);
+  });
+
+  it('should accept async functions', async () => {
+    const fn = vi.fn(async (attempt: number) => (attempt < 3 ? err('fetch:refused') : ok(attempt)) as PriceResult);
+
+    expect(await retry(fn, { clock: fakeClock() })).toEqual(ok(3));
+  });
+
+  it('should record every attempt when exhausted', async () => {
+    const last = err('fetch:timeout', 300);
+    const fn = sequence(err('fetch:timeout', 100), err('fetch:refused'), last);
+
+    const result = await retry(fn, { maxAttempts: 3, backoff: { type: 'fixed', delay: 50 }, clock: fakeClock() });
+
+    expect(result).toMatchObject({ success: false, error: 'retry' });
+    expect(result.success || result.reason).toEqual([
+      { attempt: 1, error: err('fetch:timeout', 100), elapsed: 0 },
+      { attempt: 2, error: err('fetch:refused'), elapsed: 50 },
+      { attempt: 3, error: last, elapsed: 100 },
+    ]);
+    expect((result as { cause?: unknown }).cause).toBe(last);
+  });
+
+  it('should only retry the selected errors and namespaces', async () => {
+    const fn = sequence(err('fetch:timeout', 100), err('bitcoin:no-content'), ok(1));
+
+    const result = await retry(fn, { on: ['fetch:*'], clock: fakeClock() });
+
+    expect(result).toMatchObject({ error: 'bitcoin:no-content' });
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should wait with a fixed delay', async () => {
+    const clock = fakeClock();
+
+    await retry(sequence(err('fetch:refused')), { maxAttempts: 4, backoff: { type: 'fixed', delay: 100 }, clock });
+
+    expect(clock.sleeps).toEqual([100, 100, 100]);
+  });
+
+  it('should wait with an exponential delay capped at maxDelay', async () => {
+    const clock = fakeClock();
+
+    await retry(sequence(err('fetch:refused')), { maxAttempts: 6, backoff: { type: 'exponential', delay: 100, maxDelay: 1000 }, clock });
+    expect(clock.sleeps).toEqual([100, 200, 400, 800, 1000]);
+
+    const tripled = fakeClock();
+    await retry(sequence(err('fetch:refused')), { maxAttempts: 3, backoff: { type: 'exponential', delay: 10, factor: 3 }, clock: tripled });
+    expect(tripled.sleeps).toEqual([10, 30]);
+  });
+
+  it('should wait with a decorrelated jitter delay', async () => {
+    const clock = fakeClock();
+    const random = vi.fn().mockReturnValueOnce(1).mockReturnValueOnce(0.5).mockReturnValueOnce(1);
+
+    await retry(sequence(err('fetch:refused')), {
+      maxAttempts: 4,
+      backoff: { type: 'decorrelated-jitter', delay: 100, maxDelay: 500 },
+      clock,
+      random,
+    });
+
+    // 100 + 1 * (300 - 100), 100 + 0.5 * (900 - 100), min(500, 100 + 1 * (1500 - 100))
+    expect(clock.sleeps).toEqual([300, 500, 500]);
+  });
+
+  it('should stop before exceeding the max elapsed time', async () => {
+    const clock = fakeClock();
+    const fn = sequence(err('fetch:refused'));
+
+    const result = await retry(fn, { maxAttempts: 10, maxElapsed: 250, backoff: { type: 'fixed', delay: 100 }, clock });
+
+    expect(result).toMatchObject({ error: 'retry' });
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(clock.sleeps).toEqual([100, 100]);
+  });
+
+  it('should return an aborted error when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const clock = fakeClock();
+    const fn = vi.fn((attempt: number) => {
+      if (attempt === 2) {
+        controller.abort('shutdown');
+      }
+      return err('fetch:refused') as PriceResult;
+    });
+
+    const result = await retry(fn, { signal: controller.signal, clock });
+
+    expect(result).toMatchObject({ success: false, error: 'aborted', reason: 'shutdown' });
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not call the function when the signal is already aborted', async () => {
+    const fn = vi.fn(() => ok(1));
+
+    const result = await retry(fn, { signal: AbortSignal.abort('stop') });
+
+    expect(result).toMatchObject({ error: 'aborted', reason: 'stop' });
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should stop waiting when the signal is aborted with the default clock', async () => {
+    const controller = new AbortController();
+    const result = retry(() => err('fetch:refused'), { signal: controller.signal, backoff: { type: 'fixed', delay: 60_000 } });
+
+    setTimeout(() => controller.abort('shutdown'), 5);
+
+    expect(await result).toMatchObject({ error: 'aborted', reason: 'shutdown' });
+  });
+
+  it('should reject when the function throws', async () => {
+    const failure = new Error('boom');
+
+    await expect(retry(() => { throw failure; })).rejects.toBe(failure);
+  });
+
+  it('should throw when maxAttempts is not positive', () => {
+    expect(() => retry(() => ok(1), { maxAttempts: 0 })).toThrow('maxAttempts must be a positive number');
+  });
+});
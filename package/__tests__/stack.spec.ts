@@ -0,0 +1,104 @@
+import { Err, UnwrapError, configure, getConfig, err } from '../src';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+/**
+ * Tests for the stack capture configuration
+ */
+describe('stack capture', () => {
+  afterEach(() => {
+    configure({ stackCapture: 'eager' });
+    vi.restoreAllMocks();
+  });
+
+  it('should capture eagerly by default', () => {
+    expect(getConfig().stackCapture).toBe('eager');
+    expect(err('NotFound').stack).toContain('Error');
+  });
+
+  it('should not capture when turned off', () => {
+    configure({ stackCapture: 'off' });
+
+    const result = err('NotFound');
+
+    expect(result.stack).toBeUndefined();
+    expect('stack' in result).toBe(false);
+  });
+
+  it('should format lazily captured stacks on read', () => {
+    configure({ stackCapture: 'lazy' });
+
+    const result = err('NotFound');
+
+    expect(result.stack).toContain('Error');
+    expect(result.stack).toContain('stack.spec.ts');
+  });
+
+  it('should exclude the caller from lazily captured stacks', () => {
+    configure({ stackCapture: 'lazy' });
+
+    function createError() {
+      return new Err('NotFound', undefined, createError as (...args: unknown[]) => unknown);
+    }
+
+    expect(createError().stack).not.toContain('createError');
+  });
+
+  it('should allow overwriting lazily captured stacks', () => {
+    configure({ stackCapture: 'lazy' });
+
+    const result = err('NotFound');
+    result.stack = 'custom';
+
+    expect(result.stack).toBe('custom');
+  });
+
+  it('should sample captures', () => {
+    configure({ stackCapture: { sampleRate: 0.5 } });
+    const random = vi.spyOn(Math, 'random');
+
+    random.mockReturnValueOnce(0.2);
+    expect(err('NotFound').stack).toBeDefined();
+
+    random.mockReturnValueOnce(0.8);
+    expect(err('NotFound').stack).toBeUndefined();
+  });
+
+  it('should allow overriding the mode per error', () => {
+    configure({ stackCapture: 'off' });
+
+    expect(err('NotFound', undefined, { stack: 'eager' }).stack).toBeDefined();
+    expect(new Err('NotFound', undefined, undefined, { stack: 'lazy' }).stack).toBeDefined();
+  });
+
+  it('should keep lazy stacks lazy through mapErr and mapReason', () => {
+    configure({ stackCapture: 'lazy' });
+
+    const result = err('NotFound', 1);
+    const mapped = result.mapErr(() => 'user:not-found').mapReason(String);
+
+    expect(Object.getOwnPropertyDescriptor(mapped, 'stack')?.get).toBeTypeOf('function');
+    expect(mapped.stack).toBe(result.stack);
+  });
+
+  it('should not capture stacks of mapped errors when turned off', () => {
+    configure({ stackCapture: 'off' });
+
+    expect('stack' in err('NotFound').mapErr(() => 'user:not-found')).toBe(false);
+  });
+
+  it('should render lazily captured stacks in UnwrapError', () => {
+    configure({ stackCapture: 'lazy' });
+
+    function findUser() {
+      return err('NotFound');
+    }
+
+    try {
+      findUser().unwrap();
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(UnwrapError);
+      expect((error as UnwrapError).message).toContain('findUser');
+    }
+  });
+});
@@ -0,0 +1,202 @@
+import { withTimeout, deadline, ok, err, AsyncResult, type IClock } from '../src';
+import { describe, it, expect, vi } from 'vitest';
+
+/**
+ * Creates a clock whose time only moves when advanced.
+ */
+function manualClock(): IClock & { advance: (ms: number) => Promise<void> } {
+  let time = 0;
+  const timers: { at: number; resolve: () => void }[] = [];
+
+  return {
+    now: () => time,
+    sleep: (ms, signal) => new Promise<void>((resolve) => {
+      timers.push({ at: time + ms, resolve });
+      signal?.addEventListener('abort', () => resolve(), { once: true });
+    }),
+    advance: async (ms) => {
+      time += ms;
+      timers.filter((timer) => timer.at <= time).forEach((timer) => timer.resolve());
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    },
+  };
+}
+
+/**
+ * Creates a promise that never settles unless its signal is aborted.
+ */
+function hang(signal?: AbortSignal) {
+  return new Promise<ReturnType<typeof ok<number>>>((_resolve, reject) => {
+    signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+}
+
+/**
+ * Tests for withTimeout and deadlines
+ */
+describe('withTimeout', () => {
+  it('should resolve to the result of the work when it is fast enough', async () => {
+    const result = withTimeout(Promise.resolve(ok(42)), 1000);
+
+    expect(result).toBeInstanceOf(AsyncResult);
+    expect(await result).toEqual(ok(42));
+    expect(await withTimeout(() => err('NotFound'), 1000)).toMatchObject({ error: 'NotFound' });
+  });
+
+  it('should resolve to a timeout error when the budget is spent', async () => {
+    const result = await withTimeout(hang(), 10);
+
+    expect(result).toMatchObject({ success: false, error: 'timeout', reason: { ms: 10 } });
+  });
+
+  it('should use the given error name', async () => {
+    const result = await withTimeout(hang(), 10, 'fetch:timeout');
+
+    expect(result).toMatchObject({ error: 'fetch:timeout', reason: { ms: 10 } });
+  });
+
+  it('should abort the signal given to the work', async () => {
+    let received: AbortSignal | undefined;
+
+    const result = await withTimeout((signal) => {
+      received = signal;
+      return hang(signal);
+    }, 10);
+
+    expect(result).toMatchObject({ error: 'timeout' });
+    expect(received?.aborted).toBe(true);
+    expect((received?.reason as DOMException).name).toBe('TimeoutError');
+  });
+
+  it('should not abort the signal when the work finishes in time', async () => {
+    let received: AbortSignal | undefined;
+
+    await withTimeout((signal) => {
+      received = signal;
+      return ok(1);
+    }, 10);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(received?.aborted).toBe(false);
+  });
+
+  it('should reject when the work rejects', async () => {
+    const failure = new Error('boom');
+
+    await expect(withTimeout(Promise.reject(failure), 1000)).rejects.toBe(failure);
+    await expect(withTimeout(() => { throw failure; }, 1000)).rejects.toBe(failure);
+  });
+});
+
+describe('deadline', () => {
+  it('should expire after its budget', async () => {
+    const clock = manualClock();
+    const budget = deadline(100, { clock });
+
+    await clock.advance(40);
+    expect(budget.remaining()).toBe(60);
+    expect(budget.signal.aborted).toBe(false);
+
+    await clock.advance(60);
+    expect(budget.remaining()).toBe(0);
+    expect(budget.signal.aborted).toBe(true);
+  });
+
+  it('should never expire after its parent', async () => {
+    const clock = manualClock();
+    const parent = deadline(100, { clock });
+    await clock.advance(80);
+
+    const child = deadline(1000, { parent, clock });
+    expect(child.expiresAt).toBe(100);
+    expect(child.ms).toBe(20);
+
+    await clock.advance(20);
+    expect(child.signal.aborted).toBe(true);
+  });
+
+  it('should be aborted when its parent is', () => {
+    const clock = manualClock();
+    const controller = new AbortController();
+    const parent = { ms: 100, expiresAt: 100, signal: controller.signal, remaining: () => 100, dispose: () => {} };
+    const child = deadline(50, { parent, clock });
+
+    expect(child.signal.aborted).toBe(false);
+    controller.abort('stop');
+
+    expect(child.signal.aborted).toBe(true);
+    expect(child.signal.reason).toBe('stop');
+    expect(deadline(10, { parent, clock }).signal.aborted).toBe(true);
+  });
+
+  it('should stop its timer without aborting once disposed', async () => {
+    const clock = manualClock();
+    const sleep = vi.spyOn(clock, 'sleep');
+    const budget = deadline(100, { clock });
+
+    budget.dispose();
+    expect((sleep.mock.calls[0]?.[1] as AbortSignal).aborted).toBe(true);
+
+    await clock.advance(100);
+    expect(budget.signal.aborted).toBe(false);
+  });
+
+  it('should report the budget that expired when bounded by its parent', async () => {
+    const clock = manualClock();
+    const parent = deadline(100, { clock });
+    await clock.advance(70);
+
+    const result = withTimeout((signal) => hang(signal), deadline(1000, { parent, clock }));
+    await clock.advance(30);
+
+    expect(await result).toMatchObject({ error: 'timeout', reason: { ms: 30 } });
+  });
+
+  it('should pass a cancellation of its parent through instead of timing out', async () => {
+    const clock = manualClock();
+    const controller = new AbortController();
+    const parent = { ms: 100, expiresAt: 100, signal: controller.signal, remaining: () => 100, dispose: () => {} };
+    const result = withTimeout((signal) => hang(signal), deadline(50, { parent, clock }));
+
+    controller.abort('stop');
+
+    expect(await result).toMatchObject({ error: 'aborted', reason: 'stop' });
+    expect(await withTimeout(() => ok(1), deadline(50, { parent, clock }))).toMatchObject({ error: 'aborted', reason: 'stop' });
+  });
+
+  it('should share one budget between nested steps', async () => {
+    const clock = manualClock();
+    const budget = deadline(100, { clock });
+    const step = vi.fn(async () => {
+      await clock.advance(60);
+      return ok(1);
+    });
+
+    const first = await withTimeout(step, budget);
+    const second = withTimeout((signal) => hang(signal), budget, 'step:timeout');
+    await clock.advance(40);
+
+    expect(first).toEqual(ok(1));
+    expect(await second).toMatchObject({ error: 'step:timeout', reason: { ms: 100 } });
+  });
+
+  it('should pass the deadline to the work', async () => {
+    const clock = manualClock();
+    const budget = deadline(100, { clock });
+
+    await withTimeout((_signal, received) => {
+      expect(received).toBe(budget);
+      return ok(1);
+    }, budget);
+  });
+
+  it('should not call the work once the deadline is spent', async () => {
+    const clock = manualClock();
+    const budget = deadline(10, { clock });
+    await clock.advance(10);
+    const work = vi.fn(() => ok(1));
+
+    expect(await withTimeout(work, budget)).toMatchObject({ error: 'timeout', reason: { ms: 10 } });
+    expect(work).not.toHaveBeenCalled();
+  });
+});
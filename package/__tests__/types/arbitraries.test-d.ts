@@ -0,0 +1,26 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import { Ok, Err } from '../../src';
+import { resultArbitraries, checkResultLaws, type IArbitrary, type IFastCheck } from '../../src/arbitraries';
+
+declare const fc: IFastCheck & {
+  integer(): IArbitrary<number>;
+  string(): IArbitrary<string>;
+};
+
+describe('arbitraries types', () => {
+  test('arbitraries should be typed by data, error names and reasons', () => {
+    const arb = resultArbitraries(fc);
+
+    expectTypeOf(arb.ok(fc.integer())).toEqualTypeOf<IArbitrary<Ok<number>>>();
+    expectTypeOf(arb.err(['NotFound', 'Forbidden'])).toEqualTypeOf<IArbitrary<Err<'NotFound' | 'Forbidden', undefined>>>();
+    expectTypeOf(arb.err(['NotFound'], fc.string())).toEqualTypeOf<IArbitrary<Err<'NotFound', string>>>();
+    expectTypeOf(arb.result(fc.integer(), ['NotFound'], fc.string())).toEqualTypeOf<IArbitrary<Ok<number> | Err<'NotFound', string>>>();
+  });
+
+  test('law checks should require data and error names', () => {
+    expectTypeOf(checkResultLaws(fc, { data: fc.integer(), errors: ['NotFound'] })).toEqualTypeOf<void>();
+
+    // @ts-expect-error - errors are required
+    checkResultLaws(fc, { data: fc.integer() });
+  });
+});
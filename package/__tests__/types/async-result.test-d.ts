@@ -0,0 +1,107 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  ok,
+  err,
+  resultfy,
+  AsyncResult,
+  type IResult,
+  type Err,
+  type Ok,
+} from '../../src';
+
+describe('AsyncResult type inference', () => {
+  test('resultfy() should return an AsyncResult for promises', () => {
+    const result = resultfy(Promise.resolve(42), 'FetchError');
+
+    expectTypeOf(result).toEqualTypeOf<AsyncResult<number, Err<'FetchError', unknown>>>();
+  });
+
+  test('resultfy() should return an AsyncResult for async functions', () => {
+    const safeFetch = resultfy(async (id: number) => ({ id }), 'FetchError');
+
+    expectTypeOf(safeFetch).toEqualTypeOf<
+      (id: number) => AsyncResult<{ id: number }, Err<'FetchError', unknown>>
+    >();
+  });
+
+  test('resultfy() should type the errors of a classifier function', () => {
+    const parse = resultfy((text: string): unknown => JSON.parse(text), (thrown) => (
+      thrown instanceof SyntaxError ? err('syntax', thrown.message) : err('unexpected')
+    ));
+
+    expectTypeOf(parse).toEqualTypeOf<(text: string) => Ok<unknown> | Err<'syntax', string> | Err<'unexpected', undefined>>();
+    expectTypeOf(resultfy(Promise.resolve(1), () => err('failed'))).toEqualTypeOf<AsyncResult<number, Err<'failed', undefined>>>();
+  });
+
+  test('resultfy() should type the errors of a classifier table', () => {
+    class HttpError extends Error {
+      status = 500;
+    }
+    const isAbort = (thrown: unknown): thrown is DOMException => thrown instanceof DOMException;
+    const isTimeout = (thrown: unknown) => String(thrown).includes('timeout');
+
+    const load = resultfy(async (url: string) => url.length, { aborted: isAbort, http: HttpError, invalid: TypeError, timeout: isTimeout });
+
+    expectTypeOf(load).toEqualTypeOf<(url: string) => AsyncResult<number,
+      Err<'aborted', DOMException> | Err<'http', HttpError> | Err<'invalid', TypeError> | Err<'timeout', unknown> | Err<'unknown', unknown>
+    >>();
+
+    // @ts-expect-error - table entries must be constructors or predicates
+    resultfy(Promise.resolve(1), { http: 404 });
+  });
+
+  test('awaiting should resolve to the result union', async () => {
+    const result = await resultfy(Promise.resolve(42), 'FetchError');
+
+    expectTypeOf(result).toEqualTypeOf<Ok<number> | Err<'FetchError', unknown>>();
+  });
+
+  test('AsyncResult.from() should infer data and errors', () => {
+    const result = AsyncResult.from(ok(1) as IResult<number, { NotFound: string }>);
+
+    expectTypeOf(result).toEqualTypeOf<AsyncResult<number, Err<'NotFound', string>>>();
+  });
+});
+
+describe('AsyncResult method types', () => {
+  type UserAsyncResult = AsyncResult<{ id: number }, { NotFound: string }>;
+  const result = AsyncResult.from(ok({ id: 1 })) as unknown as UserAsyncResult;
+
+  test('andThen() should accumulate errors from sync and async continuations', () => {
+    const chained = result
+      .andThen((user) => user.id > 0 ? ok(user.id.toString()) : err('InvalidId', user.id))
+      .andThen(async (id) => ok(id.length));
+
+    expectTypeOf(chained).toEqualTypeOf<
+      AsyncResult<number, Err<'NotFound', string> | Err<'InvalidId', number>>
+    >();
+  });
+
+  test('orElse() should receive the error result and replace the errors', () => {
+    const recovered = result.orElse((failure) => {
+      expectTypeOf(failure).toEqualTypeOf<Err<'NotFound', string>>();
+
+      return err('Fallback', failure.reason);
+    });
+
+    expectTypeOf(recovered).toEqualTypeOf<AsyncResult<{ id: number }, Err<'Fallback', string>>>();
+  });
+
+  test('unwrap methods should resolve to the data type', () => {
+    expectTypeOf(result.unwrap()).toEqualTypeOf<Promise<{ id: number }>>();
+    expectTypeOf(result.unwrapOr(null)).toEqualTypeOf<Promise<{ id: number } | null>>();
+    expectTypeOf(result.expect('NotFound')).toEqualTypeOf<Promise<Err<'NotFound', string>>>();
+  });
+
+  test('transformers should keep the result union intact', () => {
+    expectTypeOf(result.mapData((user) => user.id)).toEqualTypeOf<
+      AsyncResult<number, Err<'NotFound', string>>
+    >();
+    expectTypeOf(result.mapErr((error) => `user:${error}` as const)).toEqualTypeOf<
+      AsyncResult<{ id: number }, Err<'user:NotFound', string>>
+    >();
+    expectTypeOf(result.mapReason((reason) => reason.length)).toEqualTypeOf<
+      AsyncResult<{ id: number }, Err<'NotFound', number>>
+    >();
+  });
+});
@@ -0,0 +1,75 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  ok,
+  defineErrors,
+  reasonType,
+  type Err,
+  type Ok,
+  type IResult,
+  type ICatalogErrorsOf,
+  type ICatalogErrOf,
+} from '../../src';
+
+const UserErrors = defineErrors({
+  NotFound: { message: (id: string) => `User ${id} not found`, status: 404 },
+  Unauthorized: { message: 'Login required', status: 401 },
+  Invalid: { reason: reasonType<string[]>(), status: 422 },
+});
+
+describe('catalog types', () => {
+  test('constructors should create typed errors', () => {
+    expectTypeOf(UserErrors.NotFound('42')).toEqualTypeOf<Err<'NotFound', string>>();
+    expectTypeOf(UserErrors.Unauthorized()).toEqualTypeOf<Err<'Unauthorized', undefined>>();
+    expectTypeOf(UserErrors.Invalid(['email'])).toEqualTypeOf<Err<'Invalid', string[]>>();
+    expectTypeOf(UserErrors.NotFound.error).toEqualTypeOf<'NotFound'>();
+  });
+
+  test('constructors should require declared reasons', () => {
+    // @ts-expect-error - reason is required
+    UserErrors.NotFound();
+    // @ts-expect-error - reason has the wrong type
+    UserErrors.Invalid('email');
+  });
+
+  test('typos in error names should fail to compile', () => {
+    // @ts-expect-error - unknown error name
+    UserErrors.NotFuond('42');
+    // @ts-expect-error - unknown error name
+    UserErrors.is(ok(1), 'NotFuond');
+    // @ts-expect-error - unknown error name
+    UserErrors.meta('NotFuond');
+  });
+
+  test('reserved names should be rejected', () => {
+    // @ts-expect-error - 'is' is used by the catalog
+    defineErrors({ is: {} });
+  });
+
+  test('the error map should be compatible with IResult', () => {
+    expectTypeOf<ICatalogErrorsOf<typeof UserErrors>>().toEqualTypeOf<{
+      NotFound: string;
+      Unauthorized: undefined;
+      Invalid: string[];
+    }>();
+    expectTypeOf<IResult<number, ICatalogErrorsOf<typeof UserErrors>>>().toEqualTypeOf<
+      Ok<number> | Err<'NotFound', string> | Err<'Unauthorized', undefined> | Err<'Invalid', string[]>
+    >();
+  });
+
+  test('type guards should narrow to catalog errors', () => {
+    const value: unknown = null;
+
+    if (UserErrors.is(value, 'NotFound', 'Invalid')) {
+      expectTypeOf(value).toEqualTypeOf<ICatalogErrOf<typeof UserErrors, 'NotFound' | 'Invalid'>>();
+      expectTypeOf(value).toEqualTypeOf<Err<'NotFound', string> | Err<'Invalid', string[]>>();
+    }
+
+    if (UserErrors.NotFound.is(value)) {
+      expectTypeOf(value).toEqualTypeOf<Err<'NotFound', string>>();
+    }
+  });
+
+  test('meta should return the declaration', () => {
+    expectTypeOf(UserErrors.meta('NotFound').status).toEqualTypeOf<404>();
+  });
+});
@@ -0,0 +1,58 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  ok,
+  err,
+  AsyncResult,
+  type Err,
+  type Ok,
+  type IResult,
+  type IErrChainOf,
+  type IErrChainNamesOf,
+} from '../../src';
+
+describe('cause chain types', () => {
+  test('err should infer the cause type', () => {
+    const dbError = err('db:timeout', 5000);
+    const result = err('user:load-failed', { id: 42 }, { cause: dbError });
+
+    expectTypeOf(result).toEqualTypeOf<Err<'user:load-failed', { id: number }, Err<'db:timeout', number>>>();
+  });
+
+  test('wrapErr should keep the wrapped error as the cause', () => {
+    const result = ok(1) as IResult<number, { 'db:timeout': number }>;
+    const wrapped = result.wrapErr('user:load-failed', 'id');
+
+    expectTypeOf(wrapped).toEqualTypeOf<Ok<number> | Err<'user:load-failed', string, Err<'db:timeout', number>>>();
+  });
+
+  test('AsyncResult wrapErr should keep the wrapped error as the cause', () => {
+    const result = AsyncResult.from(ok(1) as IResult<number, { 'db:timeout': number }>);
+
+    expectTypeOf(result.wrapErr('user:load-failed')).toEqualTypeOf<
+      AsyncResult<number, Err<'user:load-failed', undefined, Err<'db:timeout', number>>>
+    >();
+  });
+
+  test('mapErr and mapReason should keep the cause', () => {
+    const result = err('user:load-failed', { id: 42 }, { cause: err('db:timeout', 5000) });
+
+    expectTypeOf(result.mapErr(() => 'user:missing')).toEqualTypeOf<Err<'user:missing', { id: number }, Err<'db:timeout', number>>>();
+    expectTypeOf(result.mapReason(() => 'id')).toEqualTypeOf<Err<'user:load-failed', string, Err<'db:timeout', number>>>();
+    expectTypeOf(AsyncResult.from(result).mapErr(() => 'user:missing')).toEqualTypeOf<
+      AsyncResult<never, Err<'user:missing', { id: number }, Err<'db:timeout', number>>>
+    >();
+  });
+
+  test('IErrChainOf should list every error of the chain', () => {
+    type Chain = Err<'user:load-failed', undefined, Err<'repo:query-failed', string, Err<'db:timeout', number>>>;
+
+    expectTypeOf<IErrChainNamesOf<Chain>>().toEqualTypeOf<'user:load-failed' | 'repo:query-failed' | 'db:timeout'>();
+    expectTypeOf<Extract<IErrChainOf<Chain>, { error: 'db:timeout' }>>().toEqualTypeOf<Err<'db:timeout', number>>();
+  });
+
+  test('IErrChainOf should stop at non-result causes', () => {
+    type Chain = Err<'fetch-failed', undefined, Error>;
+
+    expectTypeOf<IErrChainNamesOf<Chain>>().toEqualTypeOf<'fetch-failed'>();
+  });
+});
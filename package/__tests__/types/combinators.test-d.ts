@@ -0,0 +1,59 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  Result,
+  type IResult,
+  type Err,
+  type Ok,
+} from '../../src';
+
+declare const user: IResult<{ id: number }, { NotFound: string }>;
+declare const posts: IResult<string[], { PostsError: number }>;
+declare const users: IResult<{ id: number }, { NotFound: string }>[];
+
+describe('Result combinator types', () => {
+  test('all() should keep the tuple and object shapes', () => {
+    expectTypeOf(Result.all([user, posts])).toEqualTypeOf<
+      Ok<[{ id: number }, string[]]> | Err<'NotFound', string> | Err<'PostsError', number>
+    >();
+    expectTypeOf(Result.all({ user, posts })).toEqualTypeOf<
+      Ok<{ user: { id: number }; posts: string[] }> | Err<'NotFound', string> | Err<'PostsError', number>
+    >();
+    expectTypeOf(Result.all(users)).toEqualTypeOf<
+      Ok<{ id: number }[]> | Err<'NotFound', string>
+    >();
+  });
+
+  test('collect() should gather errors in an array or by key', () => {
+    expectTypeOf(Result.collect([user, posts])).toEqualTypeOf<
+      | Ok<[{ id: number }, string[]]>
+      | Err<'aggregate', (Err<'NotFound', string> | Err<'PostsError', number>)[]>
+    >();
+    expectTypeOf(Result.collect({ user, posts })).toEqualTypeOf<
+      | Ok<{ user: { id: number }; posts: string[] }>
+      | Err<'aggregate', { user?: Err<'NotFound', string>; posts?: Err<'PostsError', number> }>
+    >();
+  });
+
+  test('any() should return the union of data or every error', () => {
+    expectTypeOf(Result.any([user, posts])).toEqualTypeOf<
+      | Ok<{ id: number } | string[]>
+      | Err<'aggregate', [Err<'NotFound', string>, Err<'PostsError', number>]>
+    >();
+    expectTypeOf(Result.any({ user, posts })).toEqualTypeOf<
+      | Ok<{ id: number } | string[]>
+      | Err<'aggregate', { user: Err<'NotFound', string>; posts: Err<'PostsError', number> }>
+    >();
+  });
+
+  test('partition() should split data and errors', () => {
+    expectTypeOf(Result.partition(users)).toEqualTypeOf<
+      [{ id: number }[], Err<'NotFound', string>[]]
+    >();
+    expectTypeOf(Result.partition({ user, posts })).toEqualTypeOf<
+      [
+        { user?: { id: number }; posts?: string[] },
+        { user?: Err<'NotFound', string>; posts?: Err<'PostsError', number> },
+      ]
+    >();
+  });
+});
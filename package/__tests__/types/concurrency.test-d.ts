@@ -0,0 +1,47 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  AsyncResult,
+  type IResult,
+  type Err,
+} from '../../src';
+
+declare const loadUser: (signal: AbortSignal) => Promise<IResult<{ id: number }, { NotFound: string }>>;
+declare const loadPosts: () => IResult<string[], { PostsError: number }>;
+
+describe('AsyncResult combinator types', () => {
+  test('all() should keep the tuple and object shapes', () => {
+    expectTypeOf(AsyncResult.all([loadUser, loadPosts])).toEqualTypeOf<
+      AsyncResult<[{ id: number }, string[]], Err<'NotFound', string> | Err<'PostsError', number>>
+    >();
+    expectTypeOf(AsyncResult.all({ user: loadUser, posts: loadPosts }, { concurrency: 2 })).toEqualTypeOf<
+      AsyncResult<{ user: { id: number }; posts: string[] }, Err<'NotFound', string> | Err<'PostsError', number>>
+    >();
+  });
+
+  test('iterables should produce arrays', () => {
+    expectTypeOf(AsyncResult.all(new Set([loadUser]))).toEqualTypeOf<
+      AsyncResult<{ id: number }[], Err<'NotFound', string>>
+    >();
+  });
+
+  test('an external signal should add the aborted error', () => {
+    expectTypeOf(AsyncResult.all([loadUser], { signal: new AbortController().signal })).toEqualTypeOf<
+      AsyncResult<[{ id: number }], Err<'NotFound', string> | Err<'aborted', unknown>>
+    >();
+  });
+
+  test('collect(), any() and partition() should match the sync versions', () => {
+    expectTypeOf(AsyncResult.collect({ user: loadUser, posts: loadPosts })).toEqualTypeOf<
+      AsyncResult<
+        { user: { id: number }; posts: string[] },
+        Err<'aggregate', { user?: Err<'NotFound', string>; posts?: Err<'PostsError', number> }>
+      >
+    >();
+    expectTypeOf(AsyncResult.any([loadUser, loadPosts])).toEqualTypeOf<
+      AsyncResult<{ id: number } | string[], Err<'aggregate', [Err<'NotFound', string>, Err<'PostsError', number>]>>
+    >();
+    expectTypeOf(AsyncResult.partition([loadUser, loadPosts])).toEqualTypeOf<
+      Promise<[({ id: number } | string[])[], (Err<'NotFound', string> | Err<'PostsError', number>)[]]>
+    >();
+  });
+});
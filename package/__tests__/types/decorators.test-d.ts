@@ -0,0 +1,39 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import { Resultfy, type AsyncResult, type Err, type Ok, type IResultfyDecorated } from '../../src';
+
+class UserRepository {
+  name = 'users';
+
+  @Resultfy('user:repo-error')
+  async findUser(id: string): Promise<{ id: string }> {
+    return { id };
+  }
+
+  @Resultfy('repo:*')
+  countUsers(): number {
+    return 1;
+  }
+}
+
+describe('decorator types', () => {
+  test('the decorator should keep the declared method type', () => {
+    expectTypeOf(new UserRepository().findUser).toEqualTypeOf<(id: string) => Promise<{ id: string }>>();
+  });
+
+  test('the companion type should make decorated methods return results', () => {
+    type ISafe = IResultfyDecorated<IResultfyDecorated<UserRepository, 'findUser', 'user:repo-error'>, 'countUsers', 'repo:*'>;
+
+    expectTypeOf<ISafe['findUser']>().toEqualTypeOf<(id: string) => AsyncResult<{ id: string }, Err<'user:repo-error', unknown>>>();
+    expectTypeOf<ISafe['countUsers']>().toEqualTypeOf<() => Ok<number> | Err<'repo:countUsers', unknown>>();
+    expectTypeOf<ISafe['name']>().toEqualTypeOf<string>();
+  });
+
+  test('the decorator should be usable as a legacy decorator', () => {
+    const descriptor: PropertyDescriptor = { value: () => 1 };
+
+    expectTypeOf(Resultfy('x')(UserRepository.prototype, 'countUsers', descriptor)).toEqualTypeOf<PropertyDescriptor>();
+
+    // @ts-expect-error - only members can be decorated
+    expectTypeOf<IResultfyDecorated<UserRepository, 'deleteUser'>>().toBeObject();
+  });
+});
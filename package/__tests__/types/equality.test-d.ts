@@ -0,0 +1,20 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import { ok, err, equals, hash, type IResult, type Err } from '../../src';
+
+declare const result: IResult<{ id: number }, Err<'NotFound', string> | Err<'Forbidden'>>;
+
+describe('equality types', () => {
+  test('equals and hash should accept any results', () => {
+    expectTypeOf(equals(result, ok(1))).toEqualTypeOf<boolean>();
+    expectTypeOf(equals(err('NotFound'), result, { deep: false, compareReason: false })).toEqualTypeOf<boolean>();
+    expectTypeOf(hash(result, { compareReason: false })).toEqualTypeOf<number>();
+  });
+
+  test('methods should be callable on result unions', () => {
+    expectTypeOf(result.equals(err('NotFound', 'a'), { equal: (a, b) => a === b })).toEqualTypeOf<boolean>();
+    expectTypeOf(result.hash()).toEqualTypeOf<number>();
+
+    // @ts-expect-error - hashing cannot use a custom equality
+    hash(result, { deep: false });
+  });
+});
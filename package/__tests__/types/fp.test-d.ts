@@ -0,0 +1,86 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import { ok, err, type IResult, type Err, type Ok } from '../../src';
+import { pipe, flow, map, mapErr, mapReason, andThen, orElse, or, tap, tapErr, unwrap, unwrapOr, unwrapOrElse } from '../../src/fp';
+
+type PriceResult = IResult<number, Err<'bitcoin:no-content'> | Err<'fetch:timeout', number>>;
+type PlainResult = { success: true; data: string } | { success: false; error: 'NotFound'; reason: null };
+
+declare const price: PriceResult;
+declare const plain: PlainResult;
+
+describe('tryless/fp', () => {
+  test('pipe infers every step from the previous one', () => {
+    const result = pipe(
+      price,
+      map((value) => value * 2),
+      andThen((value) => value > 0 ? ok(String(value)) : err('negative', value)),
+      tap((value) => value.length),
+      tapErr('fetch:*', (error) => error.reason.toFixed()),
+      orElse('bitcoin:*', (error) => ok(error.error)),
+      map((value) => value.length),
+    );
+
+    expectTypeOf(result).toEqualTypeOf<Ok<number> | Err<'fetch:timeout', number> | Err<'negative', number>>();
+    expectTypeOf(pipe(result, unwrapOr(null))).toEqualTypeOf<number | null>();
+  });
+
+  test('pipe infers long pipelines', () => {
+    const result = pipe(
+      1,
+      (n) => n + 1,
+      (n) => String(n),
+      (s) => s.length,
+      (n) => n > 1,
+      (b) => [b],
+      (a) => a[0],
+      (b) => ok(b),
+      map((b) => (b ? 1 : 0)),
+      map((n) => n + 1),
+      andThen((n) => ok([n])),
+      map((a) => a.length),
+      map(String),
+      unwrap,
+      (s) => s.length,
+      (n) => n * 2,
+      (n) => ({ n }),
+    );
+
+    expectTypeOf(result).toEqualTypeOf<{ n: number }>();
+  });
+
+  test('flow takes the arguments of the first function', () => {
+    const parse = flow(
+      (input: string, strict: boolean) => strict && input === '' ? err('Empty') : ok(input),
+      map((input) => input.length),
+      unwrapOr(0),
+    );
+
+    expectTypeOf(parse).toEqualTypeOf<(input: string, strict: boolean) => number>();
+  });
+
+  test('operators with annotated data can be used outside a pipeline', () => {
+    const double = map((value: number) => value * 2);
+    const checked = andThen((value: number) => value > 0 ? ok(value) : err('negative'));
+
+    expectTypeOf(double(price)).toEqualTypeOf<Ok<number> | Err<'bitcoin:no-content'> | Err<'fetch:timeout', number>>();
+    expectTypeOf(checked(double(ok(1)))).toEqualTypeOf<Ok<number> | Err<'negative'>>();
+    // @ts-expect-error the data must match the annotation
+    double(ok('text'));
+  });
+
+  test('operators accept plain results', () => {
+    expectTypeOf(pipe(plain, map((value) => value.length))).toEqualTypeOf<Ok<number> | { success: false; error: 'NotFound'; reason: null }>();
+    expectTypeOf(pipe(plain, mapErr((error) => `user:${error}` as const))).toEqualTypeOf<{ success: true; data: string } | Err<'user:NotFound', null>>();
+    expectTypeOf(pipe(plain, mapReason(() => 1))).toEqualTypeOf<{ success: true; data: string } | Err<'NotFound', number>>();
+    expectTypeOf(pipe(plain, unwrap)).toEqualTypeOf<string>();
+    expectTypeOf(pipe(plain, unwrapOrElse((error) => error.reason))).toEqualTypeOf<string | null>();
+  });
+
+  test('recovery removes the handled errors', () => {
+    expectTypeOf(pipe(price, orElse(() => ok('none')))).toEqualTypeOf<Ok<number> | Ok<string>>();
+    expectTypeOf(pipe(price, orElse('fetch:timeout', (error) => ok(error.reason))))
+      .toEqualTypeOf<Ok<number> | Err<'bitcoin:no-content'>>();
+    expectTypeOf(pipe(price, or(ok('none')))).toEqualTypeOf<Ok<number> | Ok<string>>();
+    expectTypeOf(pipe(price, tapErr(() => undefined))).toEqualTypeOf<PriceResult>();
+  });
+});
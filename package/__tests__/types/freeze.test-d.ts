@@ -0,0 +1,50 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import { ok, err, frozen, configure, type Ok, type Err, type IResult, type IDeepReadonly } from '../../src';
+
+declare const result: IResult<{ id: number; tags: string[] }, Err<'NotFound', { ids: number[] }>>;
+
+describe('freeze types', () => {
+  test('fields of frozen results should be readonly', () => {
+    const success = frozen(ok(1));
+    const error = frozen(err('NotFound', 'a'));
+
+    ok(1).data = 2;
+    // @ts-expect-error - data is readonly
+    success.data = 2;
+    // @ts-expect-error - error is readonly
+    error.error = 'Other';
+    // @ts-expect-error - reason is readonly
+    error.reason = 'b';
+  });
+
+  test('frozen should keep the data and reason types unless deep', () => {
+    expectTypeOf(frozen(result)).toEqualTypeOf<Readonly<typeof result>>();
+    expectTypeOf(frozen(result, { deep: false })).toEqualTypeOf<Readonly<typeof result>>();
+    expectTypeOf(frozen(result)).toExtend<typeof result>();
+  });
+
+  test('deep frozen results should have deeply readonly data and reasons', () => {
+    const deep = frozen(result, { deep: true });
+
+    expectTypeOf(deep).toEqualTypeOf<Readonly<Ok<{ readonly id: number; readonly tags: readonly string[] }>> | Readonly<Err<'NotFound', { readonly ids: readonly number[] }, unknown>>>();
+    expectTypeOf(deep.andThen((data) => ok(data.tags.length))).toEqualTypeOf<Ok<number> | Err<'NotFound', { readonly ids: readonly number[] }, unknown>>();
+
+    if (deep.success) {
+      // @ts-expect-error - data is deeply readonly
+      deep.data.tags.push('a');
+    }
+  });
+
+  test('deep readonly should handle maps, sets and functions', () => {
+    expectTypeOf<IDeepReadonly<Map<string, { a: number }>>>().toEqualTypeOf<ReadonlyMap<string, { readonly a: number }>>();
+    expectTypeOf<IDeepReadonly<Set<number[]>>>().toEqualTypeOf<ReadonlySet<readonly number[]>>();
+    expectTypeOf<IDeepReadonly<() => void>>().toEqualTypeOf<() => void>();
+  });
+
+  test('freeze mode should be configurable', () => {
+    configure({ freeze: 'deep' });
+
+    // @ts-expect-error - unknown freeze mode
+    configure({ freeze: true });
+  });
+});
@@ -0,0 +1,62 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  gen,
+  ok,
+  err,
+  resultfy,
+  type AsyncResult,
+  type IResult,
+  type Err,
+  type Ok,
+} from '../../src';
+
+declare function findUser(id: number): IResult<{ id: number; email: string }, { NotFound: string }>;
+declare function validateEmail(email: string): IResult<string, { InvalidEmail: { email: string } }>;
+
+describe('gen type inference', () => {
+  test('should infer the union of yielded errors and the returned result', () => {
+    const result = gen(function* () {
+      const user = yield* findUser(1);
+      expectTypeOf(user).toEqualTypeOf<{ id: number; email: string }>();
+
+      const email = yield* validateEmail(user.email);
+      expectTypeOf(email).toEqualTypeOf<string>();
+
+      return ok({ ...user, email });
+    });
+
+    expectTypeOf(result).toEqualTypeOf<
+      | Err<'NotFound', string>
+      | Err<'InvalidEmail', { email: string }>
+      | Ok<{ email: string; id: number }>
+    >();
+  });
+
+  test('should include errors returned by the body', () => {
+    const result = gen(function* () {
+      const user = yield* findUser(1);
+
+      return user.id > 0 ? ok(user.id) : err('InvalidId', user.id);
+    });
+
+    expectTypeOf(result).toEqualTypeOf<
+      Err<'NotFound', string> | Ok<number> | Err<'InvalidId', number>
+    >();
+  });
+
+  test('should return an AsyncResult for async generators', () => {
+    const result = gen(async function* () {
+      const response = yield* resultfy(Promise.resolve('body'), 'FetchError');
+      const user = yield* await Promise.resolve(findUser(1));
+
+      return ok({ response, user });
+    });
+
+    expectTypeOf(result).toEqualTypeOf<
+      AsyncResult<
+        { response: string; user: { id: number; email: string } },
+        Err<'FetchError', unknown> | Err<'NotFound', string>
+      >
+    >();
+  });
+});
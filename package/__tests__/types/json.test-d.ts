@@ -0,0 +1,34 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  ok,
+  err,
+  fromJSON,
+  type Err,
+  type Ok,
+  type IOkJSON,
+  type IErrJSON,
+  type IResult,
+} from '../../src';
+
+describe('JSON types', () => {
+  test('toJSON should return the wire shape of the result', () => {
+    expectTypeOf(ok(1).toJSON()).toEqualTypeOf<IOkJSON<number>>();
+    expectTypeOf(err('NotFound', 'User not found').toJSON()).toEqualTypeOf<IErrJSON<'NotFound', string>>();
+  });
+
+  test('toJSON should be callable on result unions', () => {
+    const result = ok(1) as IResult<number, { NotFound: string }>;
+
+    expectTypeOf(result.toJSON()).toEqualTypeOf<IOkJSON<number> | IErrJSON<'NotFound', string>>();
+  });
+
+  test('fromJSON should return the expected result or an invalid JSON error', () => {
+    type UserResult = IResult<{ id: number }, { NotFound: string }>;
+
+    expectTypeOf(fromJSON<UserResult>('{}')).toEqualTypeOf<Ok<{ id: number }> | Err<'NotFound', string> | Err<'invalid-result-json', string>>();
+  });
+
+  test('fromJSON should default to unknown results', () => {
+    expectTypeOf(fromJSON('{}')).toEqualTypeOf<Ok<unknown> | Err<string, unknown> | Err<'invalid-result-json', string>>();
+  });
+});
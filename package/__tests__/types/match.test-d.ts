@@ -0,0 +1,76 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  ok,
+  match,
+  AsyncResult,
+  type IResult,
+  type IMatchResult,
+  type Err,
+} from '../../src';
+
+type UserResult = IResult<
+  { id: number },
+  {
+    NotFound: string;
+    InvalidEmail: { email: string };
+  }
+>;
+
+const result = ok({ id: 1 }) as UserResult;
+
+describe('match type inference', () => {
+  test('handlers should receive the exact data and reason types', () => {
+    match(result, {
+      ok: (data) => expectTypeOf(data).toEqualTypeOf<{ id: number }>(),
+      NotFound: (reason) => expectTypeOf(reason).toEqualTypeOf<string>(),
+      InvalidEmail: (reason) => expectTypeOf(reason).toEqualTypeOf<{ email: string }>(),
+    });
+  });
+
+  test('should return the union of handler return types', () => {
+    const value = match(result, {
+      ok: (data) => data.id,
+      NotFound: (reason) => reason,
+      InvalidEmail: () => null,
+    });
+
+    expectTypeOf(value).toEqualTypeOf<number | string | null>();
+  });
+
+  test('fallback should receive the error union', () => {
+    const value = result.match({
+      ok: () => 'ok' as const,
+      _: (errorResult) => {
+        expectTypeOf(errorResult).toEqualTypeOf<
+          Err<'NotFound', string> | Err<'InvalidEmail', { email: string }>
+        >();
+        return errorResult.error;
+      },
+    });
+
+    expectTypeOf(value).toEqualTypeOf<'ok' | 'NotFound' | 'InvalidEmail'>();
+  });
+
+  test('should fail when an error name is not handled', () => {
+    // @ts-expect-error - InvalidEmail is not handled and there is no fallback
+    match(result, { ok: () => 1, NotFound: () => 2 });
+
+    // @ts-expect-error - InvalidEmail is not handled and there is no fallback
+    result.match({ ok: () => 1, NotFound: () => 2 });
+  });
+
+  test('should fail when a handler key is not an error name', () => {
+    // @ts-expect-error - NotFund is not an error name of the result
+    match(result, { ok: () => 1, _: () => 2, NotFund: () => 3 });
+  });
+
+  test('AsyncResult.match() should resolve to the handler return types', () => {
+    const value = AsyncResult.from(result).match({ ok: (data) => data.id, _: () => null });
+
+    expectTypeOf(value).toEqualTypeOf<Promise<number | null>>();
+  });
+
+  test('IMatchResult should extract handler return types', () => {
+    expectTypeOf<IMatchResult<{ ok: (data: number) => string; NotFound: () => null }>>().toEqualTypeOf<string | null>();
+  });
+});
@@ -0,0 +1,23 @@
+import { expectTypeOf, test, describe, expect } from 'vitest';
+import { ok, err } from '../../src';
+import { matchers, type IResultMatchers } from '../../src/matchers';
+import '../../src/matchers/vitest';
+
+describe('matchers types', () => {
+  test('Vitest assertions should have the result matchers', () => {
+    expectTypeOf(expect(ok(1)).toBeOk).toBeFunction();
+    expectTypeOf(expect(ok(1)).toBeOkWith).parameters.toEqualTypeOf<[data: unknown]>();
+    expectTypeOf(expect(err('NotFound')).not.toBeErr).parameters.toEqualTypeOf<[error?: string]>();
+  });
+
+  test('Jest matchers should be augmented', () => {
+    expectTypeOf<jest.Matchers<void>>().toMatchTypeOf<IResultMatchers<void>>();
+  });
+
+  test('matchers should be accepted by expect.extend', () => {
+    expect.extend(matchers);
+
+    // @ts-expect-error - toBeErrWith requires a reason
+    expect(err('NotFound')).toBeErrWith('NotFound');
+  });
+});
@@ -0,0 +1,91 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  ok,
+  err,
+  match,
+  isErrIn,
+  AsyncResult,
+  type IResult,
+  type IErrOf,
+  type IErrNamespacesOf,
+  type IPrefixedErrOf,
+  type Err,
+  type Ok,
+} from '../../src';
+
+type BitcoinErr = Err<'bitcoin:no-content'> | Err<'bitcoin:invalid-response', string>;
+type PriceResult = IResult<number, BitcoinErr | Err<'fetch:timeout', number>>;
+
+const result = ok(1) as PriceResult;
+
+describe('namespaced error types', () => {
+  test('IErrOf should extract the errors of a namespace', () => {
+    expectTypeOf<IErrOf<PriceResult, 'bitcoin:*'>>().toEqualTypeOf<BitcoinErr>();
+    expectTypeOf<IErrOf<Err<'repo:db:timeout'> | Err<'db:timeout'>, 'repo:*'>>().toEqualTypeOf<Err<'repo:db:timeout'>>();
+    expectTypeOf<IErrOf<PriceResult, 'fetch:timeout'>>().toEqualTypeOf<Err<'fetch:timeout', number>>();
+  });
+
+  test('IErrNamespacesOf should list every namespace', () => {
+    expectTypeOf<IErrNamespacesOf<PriceResult>>().toEqualTypeOf<'bitcoin:*' | 'fetch:*'>();
+    expectTypeOf<IErrNamespacesOf<Err<'repo:db:timeout'> | Err<'NotFound'>>>().toEqualTypeOf<'repo:*' | 'repo:db:*'>();
+  });
+
+  test('IPrefixedErrOf should prefix every error of a union', () => {
+    expectTypeOf<IPrefixedErrOf<Err<'db:timeout', number> | Err<'db:locked'>, 'repo'>>().toEqualTypeOf<
+      Err<'repo:db:timeout', number> | Err<'repo:db:locked'>
+    >();
+  });
+
+  test('isErrIn should narrow to the errors of the namespace', () => {
+    if (isErrIn(result, 'bitcoin')) {
+      expectTypeOf(result).toEqualTypeOf<BitcoinErr>();
+    }
+  });
+
+  test('expect should narrow to the errors of the namespace', () => {
+    expectTypeOf(result.expect('bitcoin:*')).toEqualTypeOf<BitcoinErr>();
+    expectTypeOf(AsyncResult.from(result).expect('bitcoin:*')).toEqualTypeOf<Promise<BitcoinErr>>();
+  });
+
+  test('orElse should only recover the matching errors', () => {
+    const recovered = result.orElse('bitcoin:*', (errorResult) => {
+      expectTypeOf(errorResult).toEqualTypeOf<BitcoinErr>();
+      return ok(0);
+    });
+
+    expectTypeOf(recovered).toEqualTypeOf<Ok<number> | Err<'fetch:timeout', number>>();
+
+    const asyncRecovered = AsyncResult.from(result).orElse('bitcoin:*', () => err('fallback'));
+    expectTypeOf(asyncRecovered).toEqualTypeOf<AsyncResult<number, Err<'fetch:timeout', number> | Err<'fallback'>>>();
+  });
+
+  test('match should accept namespace handlers', () => {
+    match(result, {
+      ok: () => 1,
+      'bitcoin:*': (errorResult) => expectTypeOf(errorResult).toEqualTypeOf<BitcoinErr>(),
+      'fetch:timeout': (reason) => expectTypeOf(reason).toEqualTypeOf<number>(),
+    });
+
+    result.match({ ok: () => 1, 'bitcoin:*': () => 2, 'fetch:*': () => 3 });
+  });
+
+  test('match should fail when an error is not covered by a namespace', () => {
+    // @ts-expect-error - fetch:timeout is not handled and there is no fallback
+    match(result, { ok: () => 1, 'bitcoin:*': () => 2 });
+  });
+
+  test('match should fail for unknown namespaces', () => {
+    // @ts-expect-error - db:* is not a namespace of the result
+    match(result, { ok: () => 1, 'db:*': () => 2, _: () => 3 });
+  });
+
+  test('prefixErr should prefix every error', () => {
+    expectTypeOf(err('db:timeout', 5000).prefixErr('repo')).toEqualTypeOf<Err<'repo:db:timeout', number, unknown>>();
+    expectTypeOf(result.prefixErr('api')).toEqualTypeOf<
+      Ok<number> | Err<'api:bitcoin:no-content'> | Err<'api:bitcoin:invalid-response', string> | Err<'api:fetch:timeout', number>
+    >();
+    expectTypeOf(AsyncResult.from(result).prefixErr('api')).toEqualTypeOf<
+      AsyncResult<number, Err<'api:bitcoin:no-content'> | Err<'api:bitcoin:invalid-response', string> | Err<'api:fetch:timeout', number>>
+    >();
+  });
+});
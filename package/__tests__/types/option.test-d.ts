@@ -0,0 +1,51 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  ok,
+  some,
+  none,
+  type Ok,
+  type Err,
+  type Some,
+  type None,
+  type IOption,
+  type IResult,
+  type ISomeOf,
+  type ISomeValueOf,
+} from '../../src';
+
+const option = some(1) as IOption<number>;
+
+describe('option types', () => {
+  test('IOption should be a union of Some and None', () => {
+    expectTypeOf<IOption<string>>().toEqualTypeOf<Some<string> | None>();
+  });
+
+  test('ISomeOf and ISomeValueOf should extract the Some and its value', () => {
+    expectTypeOf<ISomeOf<IOption<string>>>().toEqualTypeOf<Some<string>>();
+    expectTypeOf<ISomeValueOf<IOption<string>>>().toEqualTypeOf<string>();
+    expectTypeOf<ISomeValueOf<None>>().toBeNever();
+  });
+
+  test('unwrap methods should infer the value type', () => {
+    expectTypeOf(some(1).unwrap()).toEqualTypeOf<number>();
+    expectTypeOf(none().unwrap()).toBeNever();
+    expectTypeOf(option.unwrapOr('none' as const)).toEqualTypeOf<number | 'none'>();
+  });
+
+  test('chaining methods should be callable on unions', () => {
+    expectTypeOf(option.andThen((value) => some(String(value)))).toEqualTypeOf<Some<string> | None>();
+    expectTypeOf(option.or(some('fallback'))).toEqualTypeOf<Some<number> | Some<string>>();
+    expectTypeOf(option.mapValue((value) => value > 0)).toEqualTypeOf<Some<boolean> | None>();
+  });
+
+  test('okOr should convert the option into a result', () => {
+    expectTypeOf(option.okOr('NotFound', 'missing')).toEqualTypeOf<Ok<number> | Err<'NotFound', string>>();
+    expectTypeOf(none().okOr('NotFound')).toEqualTypeOf<Err<'NotFound', undefined>>();
+  });
+
+  test('toOption should convert the result into an option', () => {
+    const result = ok(1) as IResult<number, { NotFound: string }>;
+
+    expectTypeOf(result.toOption()).toEqualTypeOf<Some<number> | None>();
+  });
+});
@@ -180,3 +180,43 @@ describe('Method return types', () => {
   });
 });
 
+describe('Data-only transformer types', () => {
+  type UserResult = IResult<
+    { id: number },
+    {
+      NotFound: string;
+      InvalidEmail: { email: string };
+    }
+  >;
+
+  test('mapData() should only change the Ok type', () => {
+    const result = ok({ id: 1 }) as UserResult;
+    const mapped = result.mapData((user) => user.id.toString());
+
+    expectTypeOf(mapped).toEqualTypeOf<
+      Ok<string> | Err<'NotFound', string> | Err<'InvalidEmail', { email: string }>
+    >();
+  });
+
+  test('mapErr() should rename errors and keep each reason', () => {
+    const result = err('NotFound', 'User not found') as UserResult;
+    const mapped = result.mapErr((error) => `user:${error}` as const);
+
+    expectTypeOf(mapped).toEqualTypeOf<
+      | Ok<{ id: number }>
+      | Err<'user:NotFound' | 'user:InvalidEmail', string>
+      | Err<'user:NotFound' | 'user:InvalidEmail', { email: string }>
+    >();
+  });
+
+  test('mapReason() should keep error names and change the reason', () => {
+    const result = err('NotFound', 'User not found') as UserResult;
+    const mapped = result.mapReason((reason) => ({ reason }));
+
+    expectTypeOf(mapped).toEqualTypeOf<
+      | Ok<{ id: number }>
+      | Err<'NotFound', { reason: string | { email: string } }>
+      | Err<'InvalidEmail', { reason: string | { email: string } }>
+    >();
+  });
+});
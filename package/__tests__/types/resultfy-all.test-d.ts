@@ -0,0 +1,54 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import { err, resultfyAll, type AsyncResult, type Err, type Ok } from '../../src';
+
+declare const client: {
+  name: string;
+  get(key: string): string;
+  set(key: string, value: string): Promise<void>;
+  read(path: string): Uint8Array;
+  read(path: string, encoding: 'utf8'): string;
+};
+
+describe('resultfyAll types', () => {
+  test('methods should return results and other members be unchanged', () => {
+    const safe = resultfyAll(client, 'ClientError');
+
+    expectTypeOf(safe.name).toEqualTypeOf<string>();
+    expectTypeOf(safe.get).toEqualTypeOf<(key: string) => Ok<string> | Err<'ClientError', unknown>>();
+    expectTypeOf(safe.set).toEqualTypeOf<(key: string, value: string) => AsyncResult<void, Err<'ClientError', unknown>>>();
+    expectTypeOf(resultfyAll(client).get('a')).toEqualTypeOf<Ok<string> | Err<'unknown', unknown>>();
+  });
+
+  test('overloads should be kept', () => {
+    const safe = resultfyAll(client, 'ClientError');
+
+    expectTypeOf(safe.read('a')).toEqualTypeOf<Ok<Uint8Array> | Err<'ClientError', unknown>>();
+    expectTypeOf(safe.read('a', 'utf8')).toEqualTypeOf<Ok<string> | Err<'ClientError', unknown>>();
+  });
+
+  test('a namespace pattern should name errors after the methods', () => {
+    const safe = resultfyAll(client, 'client:*');
+
+    expectTypeOf(safe.get('a')).toEqualTypeOf<Ok<string> | Err<'client:get', unknown>>();
+    expectTypeOf(safe.set('a', 'b')).toEqualTypeOf<AsyncResult<void, Err<'client:set', unknown>>>();
+  });
+
+  test('classifiers should type the errors of every method', () => {
+    const safe = resultfyAll(client, (thrown) => err('failed', thrown));
+
+    expectTypeOf(safe.get('a')).toEqualTypeOf<Ok<string> | Err<'failed', unknown>>();
+    expectTypeOf(resultfyAll(client, { invalid: TypeError }).get('a')).toEqualTypeOf<Ok<string> | Err<'invalid', TypeError> | Err<'unknown', unknown>>();
+  });
+
+  test('include and exclude should select the wrapped methods', () => {
+    const included = resultfyAll(client, 'ClientError', { include: ['get'] });
+    const excluded = resultfyAll(client, 'ClientError', { exclude: ['get'] });
+
+    expectTypeOf(included.set).toEqualTypeOf<(key: string, value: string) => Promise<void>>();
+    expectTypeOf(included.get('a')).toEqualTypeOf<Ok<string> | Err<'ClientError', unknown>>();
+    expectTypeOf(excluded.get).toEqualTypeOf<(key: string) => string>();
+
+    // @ts-expect-error - unknown member
+    resultfyAll(client, 'ClientError', { include: ['delete'] });
+  });
+});
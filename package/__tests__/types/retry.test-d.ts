@@ -0,0 +1,49 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  retry,
+  AsyncResult,
+  type IResult,
+  type IRetryAttempt,
+  type IRetryResult,
+  type Err,
+  type Ok,
+} from '../../src';
+
+type PriceResult = IResult<number, Err<'fetch:timeout', number> | Err<'bitcoin:no-content'>>;
+
+declare function fetchPrice(): PriceResult;
+declare function fetchPriceAsync(): AsyncResult<number, Err<'fetch:timeout', number> | Err<'bitcoin:no-content'>>;
+
+type RetryErr<E> = Err<'retry', IRetryAttempt<E>[], E>;
+
+describe('retry types', () => {
+  test('should retry every error by default', () => {
+    expectTypeOf(retry(fetchPrice)).toEqualTypeOf<
+      AsyncResult<number, RetryErr<Err<'fetch:timeout', number> | Err<'bitcoin:no-content'>>>
+    >();
+  });
+
+  test('should keep the errors that are not retried', () => {
+    expectTypeOf(retry(fetchPriceAsync, { on: ['fetch:*'] })).toEqualTypeOf<
+      AsyncResult<number, Err<'bitcoin:no-content'> | RetryErr<Err<'fetch:timeout', number>>>
+    >();
+  });
+
+  test('should add the aborted error when a signal is given', () => {
+    expectTypeOf(retry(fetchPrice, { on: ['bitcoin:no-content'], signal: AbortSignal.abort() })).toEqualTypeOf<
+      AsyncResult<number, Err<'fetch:timeout', number> | RetryErr<Err<'bitcoin:no-content'>> | Err<'aborted', unknown>>
+    >();
+  });
+
+  test('should only accept error names and namespaces of the function', () => {
+    // @ts-expect-error - db:* is not a namespace of the function errors
+    retry(fetchPrice, { on: ['db:*'] });
+
+    // @ts-expect-error - NotFound is not an error of the function
+    retry(fetchPrice, { on: ['NotFound'] });
+  });
+
+  test('IRetryResult should describe the retried result', () => {
+    expectTypeOf<IRetryResult<Ok<1> | Err<'a'>, { on: ['a'] }>>().toEqualTypeOf<Ok<1> | RetryErr<Err<'a'>>>();
+  });
+});
@@ -0,0 +1,68 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  ok,
+  err,
+  from,
+  isResult,
+  match,
+  Result,
+  AsyncResult,
+  type Err,
+  type Ok,
+  type IResultFrom,
+  type IOkDataOf,
+  type IErrOf,
+  type IErrReasonOf,
+  type IInvalidResultError,
+  type IUnknownOkErr,
+} from '../../src';
+
+type PlainOk = { success: true; data: number };
+type PlainErr = { success: false; error: 'NotFound'; reason: string };
+type Plain = PlainOk | PlainErr;
+
+declare const plain: Plain;
+
+describe('structural results', () => {
+  test('IResultFrom upgrades plain results and keeps instances', () => {
+    expectTypeOf<IResultFrom<Plain>>().toEqualTypeOf<Ok<number> | Err<'NotFound', string>>();
+    expectTypeOf<IResultFrom<Ok<string> | Err<'A', number, Err<'B'>>>>().toEqualTypeOf<Ok<string> | Err<'A', number, Err<'B'>>>();
+  });
+
+  test('type utilities accept plain results', () => {
+    expectTypeOf<IOkDataOf<Plain>>().toEqualTypeOf<number>();
+    expectTypeOf<IErrOf<Plain>>().toEqualTypeOf<Err<'NotFound', string>>();
+    expectTypeOf<IErrReasonOf<Plain, 'NotFound'>>().toEqualTypeOf<string>();
+  });
+
+  test('from types its result from the input', () => {
+    const value: unknown = JSON.parse('{}');
+
+    expectTypeOf(from(plain)).toEqualTypeOf<Ok<number> | Err<'NotFound', string>>();
+    expectTypeOf(from(value)).toEqualTypeOf<Ok<unknown> | Err<string, unknown> | Err<IInvalidResultError, string>>();
+  });
+
+  test('isResult narrows unknown values', () => {
+    const value: unknown = JSON.parse('{}');
+
+    if (isResult(value)) {
+      expectTypeOf(value).toEqualTypeOf<IUnknownOkErr>();
+    }
+  });
+
+  test('combinators type plain results as upgraded', () => {
+    expectTypeOf(ok(1).andThen(() => plain)).toEqualTypeOf<Ok<number> | Err<'NotFound', string>>();
+    expectTypeOf(err('A').or(plain)).toEqualTypeOf<Ok<number> | Err<'NotFound', string>>();
+    expectTypeOf(Result.all([plain, ok('a')])).toEqualTypeOf<Ok<[number, string]> | Err<'NotFound', string>>();
+    expectTypeOf(AsyncResult.from(plain)).toEqualTypeOf<AsyncResult<number, Err<'NotFound', string>>>();
+  });
+
+  test('match accepts plain results', () => {
+    const message = match(plain, {
+      ok: (data) => data.toFixed(),
+      NotFound: (reason) => reason,
+    });
+
+    expectTypeOf(message).toEqualTypeOf<string>();
+  });
+});
@@ -0,0 +1,68 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  ok,
+  AsyncResult,
+  type IResult,
+  type ITapResult,
+  type Err,
+  type Ok,
+} from '../../src';
+
+type PriceResult = IResult<number, Err<'bitcoin:no-content'> | Err<'fetch:timeout', number>>;
+
+const result = ok(1) as PriceResult;
+
+describe('tap types', () => {
+  test('tap should keep the result type', () => {
+    const tapped = result.tap((data) => {
+      expectTypeOf(data).toEqualTypeOf<number>();
+    });
+
+    expectTypeOf(tapped).toEqualTypeOf<PriceResult>();
+    expectTypeOf(ok('a').tap(() => 1)).toEqualTypeOf<Ok<string>>();
+  });
+
+  test('tap should return an AsyncResult for async side effects', () => {
+    expectTypeOf(ok(1).tap(async () => {})).toEqualTypeOf<AsyncResult<number, never>>();
+    expectTypeOf(result.tap(async () => {})).toEqualTypeOf<
+      Err<'bitcoin:no-content'> | Err<'fetch:timeout', number> | AsyncResult<number, Err<'bitcoin:no-content'> | Err<'fetch:timeout', number>>
+    >();
+    expectTypeOf(result.tapErr('fetch:*', async () => {})).toEqualTypeOf<
+      Ok<number> | Err<'bitcoin:no-content'> | AsyncResult<number, Err<'bitcoin:no-content'> | Err<'fetch:timeout', number>>
+    >();
+  });
+
+  test('tap should add the tap error when exceptions become errors', () => {
+    expectTypeOf(result.tap(() => {}, { exceptions: 'err' })).toEqualTypeOf<PriceResult | Err<'tap', unknown>>();
+  });
+
+  test('tapErr should receive the error union or the matching errors', () => {
+    result.tapErr((errorResult) => {
+      expectTypeOf(errorResult).toEqualTypeOf<Err<'bitcoin:no-content'> | Err<'fetch:timeout', number>>();
+    });
+
+    const tapped = result.tapErr('fetch:*', (errorResult) => {
+      expectTypeOf(errorResult).toEqualTypeOf<Err<'fetch:timeout', number>>();
+    });
+
+    expectTypeOf(tapped).toEqualTypeOf<PriceResult>();
+  });
+
+  test('AsyncResult taps should keep the result type', () => {
+    const asyncResult = AsyncResult.from(result);
+
+    expectTypeOf(asyncResult.tap(async () => {})).toEqualTypeOf<typeof asyncResult>();
+    expectTypeOf(asyncResult.tapErr('bitcoin:*', (errorResult) => {
+      expectTypeOf(errorResult).toEqualTypeOf<Err<'bitcoin:no-content'>>();
+    })).toEqualTypeOf<typeof asyncResult>();
+    expectTypeOf(asyncResult.tap(() => {}, { exceptions: 'err' })).toEqualTypeOf<
+      AsyncResult<number, Err<'bitcoin:no-content'> | Err<'fetch:timeout', number> | Err<'tap', unknown>>
+    >();
+  });
+
+  test('ITapResult should describe the tapped result', () => {
+    expectTypeOf<ITapResult<Ok<number>, void, object>>().toEqualTypeOf<Ok<number>>();
+    expectTypeOf<ITapResult<Ok<number>, Promise<void>, { exceptions: 'err' }, never>>().toEqualTypeOf<AsyncResult<number, Err<'tap', unknown>>>();
+    expectTypeOf<ITapResult<Ok<number>, Promise<void>, object>>().toEqualTypeOf<Ok<number> | AsyncResult<number, never>>();
+  });
+});
@@ -0,0 +1,47 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  withTimeout,
+  deadline,
+  AsyncResult,
+  type IDeadline,
+  type IResult,
+  type Err,
+} from '../../src';
+
+type PriceResult = IResult<number, Err<'bitcoin:no-content'>>;
+
+declare function fetchPrice(signal: AbortSignal): AsyncResult<number, Err<'fetch:fetch-error', unknown>>;
+declare const pricePromise: Promise<PriceResult>;
+
+describe('withTimeout types', () => {
+  test('should add the timeout error to the union', () => {
+    expectTypeOf(withTimeout(pricePromise, 1000)).toEqualTypeOf<
+      AsyncResult<number, Err<'bitcoin:no-content'> | Err<'timeout', { ms: number }>>
+    >();
+  });
+
+  test('should use the given error name', () => {
+    expectTypeOf(withTimeout(fetchPrice, 1000, 'fetch:timeout')).toEqualTypeOf<
+      AsyncResult<number, Err<'fetch:fetch-error', unknown> | Err<'fetch:timeout', { ms: number }>>
+    >();
+  });
+
+  test('should add the aborted error when given a deadline', () => {
+    expectTypeOf(withTimeout(pricePromise, deadline(1000))).toEqualTypeOf<
+      AsyncResult<number, Err<'bitcoin:no-content'> | Err<'timeout', { ms: number }> | Err<'aborted', unknown>>
+    >();
+  });
+
+  test('should pass the signal and the deadline to the work', () => {
+    withTimeout((signal, budget) => {
+      expectTypeOf(signal).toEqualTypeOf<AbortSignal>();
+      expectTypeOf(budget).toEqualTypeOf<IDeadline>();
+      return fetchPrice(signal);
+    }, deadline(1000));
+  });
+
+  test('should only accept result-returning work', () => {
+    // @ts-expect-error - the work must resolve to a result
+    withTimeout(Promise.resolve(42), 1000);
+  });
+});
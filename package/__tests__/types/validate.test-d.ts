@@ -0,0 +1,41 @@
+import { expectTypeOf, test, describe } from 'vitest';
+import {
+  ok,
+  Result,
+  type Err,
+  type Ok,
+  type IFieldPath,
+  type IResult,
+} from '../../src';
+
+const name = ok('John') as IResult<string, { NameRequired: undefined }>;
+const age = ok(25) as IResult<number, { Underage: number }>;
+const zip = ok('12345') as IResult<string, { InvalidZip: string }>;
+
+describe('validate types', () => {
+  test('should keep the object shape of the data', () => {
+    const result = Result.validate({ name, age, address: { zip } });
+
+    expectTypeOf(result).toEqualTypeOf<
+      | Ok<{ name: string; age: number; address: { zip: string } }>
+      | Err<'validation', (
+        | (Err<'NameRequired', undefined> & { path: IFieldPath })
+        | (Err<'Underage', number> & { path: IFieldPath })
+        | (Err<'InvalidZip', string> & { path: IFieldPath })
+      )[]>
+    >();
+  });
+
+  test('should keep the tuple shape of the data', () => {
+    const result = Result.validate([name, age]);
+
+    expectTypeOf(result).toEqualTypeOf<
+      | Ok<[string, number]>
+      | Err<'validation', ((Err<'NameRequired', undefined> & { path: IFieldPath }) | (Err<'Underage', number> & { path: IFieldPath }))[]>
+    >();
+  });
+
+  test('atPath should attach the path type to errors', () => {
+    expectTypeOf(age.atPath('age')).toEqualTypeOf<Ok<number> | (Err<'Underage', number> & { path: IFieldPath })>();
+  });
+});
@@ -0,0 +1,54 @@
+import { bench, describe } from 'vitest';
+import { err, type IStackCapture } from '../src';
+
+/**
+ * Benchmarks of error creation for each stack capture mode.
+ * Run with `pnpm bench` to pick the mode that fits each environment.
+ */
+
+const modes: IStackCapture[] = ['eager', 'lazy', { sampleRate: 0.1 }, 'off'];
+
+/**
+ * Returns a readable name for a stack capture mode.
+ *
+ * @param mode - The stack capture mode
+ * @returns The benchmark name
+ */
+function nameOf(mode: IStackCapture): string {
+  return typeof mode === 'object' ? `sampled (${mode.sampleRate})` : mode;
+}
+
+/**
+ * Simulates a validation that fails, the typical hot path where errors are control flow.
+ *
+ * @param value - Value to validate
+ * @param stack - Stack capture mode
+ * @returns An error result
+ */
+function validate(value: string, stack: IStackCapture) {
+  return err('invalid-email', value, { stack });
+}
+
+describe('create errors', () => {
+  for (const mode of modes) {
+    bench(nameOf(mode), () => {
+      validate('john@', mode);
+    });
+  }
+});
+
+describe('create errors and read the stack', () => {
+  for (const mode of modes) {
+    bench(nameOf(mode), () => {
+      void validate('john@', mode).stack;
+    });
+  }
+});
+
+describe('create and map errors', () => {
+  for (const mode of modes) {
+    bench(nameOf(mode), () => {
+      validate('john@', mode).mapErr(() => 'user:invalid-email');
+    });
+  }
+});
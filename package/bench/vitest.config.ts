@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'node',
+    include: ['./bench/**/*.bench.ts'],
+    benchmark: {
+      include: ['./bench/**/*.bench.ts'],
+    },
+  },
+});
@@ -3,18 +3,30 @@ import commonjs from '@rollup/plugin-commonjs';
 import terser from '@rollup/plugin-terser';
 import dts from 'rollup-plugin-dts';
 
+const entries = ['index', 'matchers/index', 'matchers/vitest', 'arbitraries/index', 'fp/index'];
+const external = ['vitest'];
+
+// A single build per format so entries share the result classes through common chunks
+// (separate bundles would duplicate them and break `instanceof` across entry points).
+const input = (extension) => Object.fromEntries(entries.map((entry) => [entry, `./dist/${entry}${extension}`]));
+
 export default [
   {
-    input: './dist/index.js',
+    input: input('.js'),
+    external,
     output: [
       {
-        file: './dist/index.cjs.js',
+        dir: './dist',
         format: 'cjs',
+        entryFileNames: '[name].cjs.js',
+        chunkFileNames: 'chunks/[name]-[hash].cjs.js',
         sourcemap: true
       },
       {
-        file: './dist/index.mjs',
+        dir: './dist',
         format: 'esm',
+        entryFileNames: '[name].mjs',
+        chunkFileNames: 'chunks/[name]-[hash].mjs',
         sourcemap: true
       }
     ],
@@ -25,10 +37,13 @@ export default [
     ]
   },
   {
-    input: './dist/index.d.ts',
+    input: input('.d.ts'),
+    external,
     output: {
-      file: './dist/index.d.ts',
-      format: 'es'
+      dir: './dist',
+      format: 'es',
+      entryFileNames: '[name].d.ts',
+      chunkFileNames: 'chunks/[name]-[hash].d.ts'
     },
     plugins: [dts()]
   }
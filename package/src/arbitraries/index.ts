@@ -0,0 +1,190 @@
+import { ok, err, equals } from '../result/functions';
+import type { Err, Ok } from '../result/classes';
+import type { IUnknownOkErr } from '../result/types';
+
+/**
+ * The part of a fast-check `Arbitrary` used by the result arbitraries.
+ *
+ * @template T - Type of the generated values
+ */
+export interface IArbitrary<T> {
+  map<U>(mapper: (value: T) => U): IArbitrary<U>;
+}
+
+/**
+ * The part of the fast-check module used by the result arbitraries and law checks.
+ * Pass `import * as fc from 'fast-check'`: tryless does not depend on it.
+ */
+export interface IFastCheck {
+  constantFrom<T>(...values: T[]): IArbitrary<T>;
+  oneof<T>(...arbitraries: IArbitrary<T>[]): IArbitrary<T>;
+  tuple<T extends unknown[]>(...arbitraries: { [K in keyof T]: IArbitrary<T[K]> }): IArbitrary<T>;
+  func<T>(arbitrary: IArbitrary<T>): IArbitrary<(...args: unknown[]) => T>;
+  property<T>(arbitrary: IArbitrary<T>, predicate: (value: T) => boolean | void): unknown;
+  assert(property: unknown, parameters?: { numRuns?: number }): unknown;
+}
+
+/**
+ * Arbitraries of results created by {@link resultArbitraries}.
+ */
+export type IResultArbitraries = {
+  ok<T>(data: IArbitrary<T>): IArbitrary<Ok<T>>;
+  err<const E extends string, R = undefined>(errors: readonly E[], reason?: IArbitrary<R>): IArbitrary<Err<E, R>>;
+  result<T, const E extends string, R = undefined>(data: IArbitrary<T>, errors: readonly E[], reason?: IArbitrary<R>): IArbitrary<Ok<T> | Err<E, R>>;
+};
+
+/**
+ * Combinators checked by {@link checkResultLaws}, defaulting to the methods of `Ok`/`Err`.
+ *
+ * @property ok - Wraps data in a success result
+ * @property andThen - Chains a result-returning function on the data
+ * @property mapData - Transforms the data
+ * @property or - Falls back to another result on error
+ * @property map - Applies a function to the whole result
+ */
+export type IResultCombinators = {
+  ok: (data: unknown) => IUnknownOkErr;
+  andThen: (result: IUnknownOkErr, fn: (data: unknown) => IUnknownOkErr) => IUnknownOkErr;
+  mapData: (result: IUnknownOkErr, fn: (data: unknown) => unknown) => IUnknownOkErr;
+  or: (result: IUnknownOkErr, other: IUnknownOkErr) => IUnknownOkErr;
+  map: (result: IUnknownOkErr, fn: (result: IUnknownOkErr) => unknown) => unknown;
+};
+
+/**
+ * Options accepted by {@link checkResultLaws}.
+ *
+ * @template T - Type of the data
+ * @template E - Error names
+ * @template R - Type of the reasons
+ * @property data - Arbitrary of the data
+ * @property errors - Error names of the generated errors
+ * @property reason - Arbitrary of the reasons (defaults to undefined reasons)
+ * @property combinators - Combinators to check instead of the `Ok`/`Err` methods
+ * @property equals - Equality of two results (defaults to {@link equals})
+ * @property numRuns - Number of runs of each law
+ */
+export type IResultLawsOptions<T, E extends string, R> = {
+  data: IArbitrary<T>;
+  errors: readonly E[];
+  reason?: IArbitrary<R>;
+  combinators?: Partial<IResultCombinators>;
+  equals?: (a: IUnknownOkErr, b: IUnknownOkErr) => boolean;
+  numRuns?: number;
+};
+
+/**
+ * Combinators of `Ok`/`Err`, checked by default and used as the reference semantics.
+ */
+const builtinCombinators: IResultCombinators = {
+  ok: (data) => ok(data),
+  andThen: (result, fn) => (result as Ok<unknown>).andThen(fn),
+  mapData: (result, fn) => (result as Ok<unknown>).mapData(fn),
+  or: (result, other) => (result as Ok<unknown>).or(other),
+  map: (result, fn) => (result as Ok<unknown>).map(fn),
+};
+
+/**
+ * Creates fast-check arbitraries of results from data and reason arbitraries and sets of error names.
+ * Generated errors do not capture stack traces.
+ *
+ * @param fc - The fast-check module
+ * @returns Arbitraries of success results, error results and both
+ *
+ * @example
+ * ```ts
+ * import * as fc from 'fast-check';
+ * import { resultArbitraries } from 'tryless/arbitraries';
+ *
+ * const arb = resultArbitraries(fc);
+ * fc.assert(fc.property(arb.result(fc.integer(), ['NotFound', 'Forbidden'], fc.string()), (result) => {
+ *   expect(toResponse(result).status).toBeLessThan(500);
+ * }));
+ * ```
+ */
+export function resultArbitraries(fc: IFastCheck): IResultArbitraries {
+  const arbitraries: IResultArbitraries = {
+    ok: (data) => data.map((value) => ok(value)),
+    err: <const E extends string, R = undefined>(errors: readonly E[], reason?: IArbitrary<R>) => {
+      const names = fc.constantFrom(...errors);
+      const tuples = reason ? fc.tuple<[E, R]>(names, reason) : names.map((name): [E, R] => [name, undefined as R]);
+
+      return tuples.map(([name, value]) => err(name, value, { stack: 'off' }));
+    },
+    result: (data, errors, reason) => fc.oneof<Ok<never> | Err<never, never>>(
+      arbitraries.ok(data) as IArbitrary<Ok<never>>,
+      arbitraries.err(errors, reason) as IArbitrary<Err<never, never>>,
+    ),
+  };
+
+  return arbitraries;
+}
+
+/**
+ * Checks with fast-check that result combinators obey the functor and monad laws
+ * and agree with the `andThen`, `mapData`, `or` and `map` semantics of `Ok`/`Err`:
+ * - left identity: `andThen(ok(a), f)` equals `f(a)`
+ * - right identity: `andThen(m, ok)` equals `m`
+ * - associativity: `andThen(andThen(m, f), g)` equals `andThen(m, (x) => andThen(f(x), g))`
+ * - functor identity and composition of `mapData`
+ * - `or` keeps successes, falls back on errors and is associative
+ * - `map(m, f)` equals `f(m)`
+ *
+ * @template T - Type of the data
+ * @template E - Error names
+ * @template R - Type of the reasons
+ * @param fc - The fast-check module
+ * @param options - Arbitraries of the results, combinators to check, equality and number of runs
+ * @throws {Error} Naming the first law that does not hold, with the fast-check counterexample
+ *
+ * @example
+ * ```ts
+ * import * as fc from 'fast-check';
+ * import { checkResultLaws } from 'tryless/arbitraries';
+ *
+ * it('should obey the result laws', () => {
+ *   checkResultLaws(fc, {
+ *     data: fc.integer(),
+ *     errors: ['NotFound', 'Forbidden'],
+ *     combinators: { andThen: (result, fn) => myAndThen(fn)(result) },
+ *   });
+ * });
+ * ```
+ */
+export function checkResultLaws<T, const E extends string, R = undefined>(fc: IFastCheck, options: IResultLawsOptions<T, E, R>): void {
+  const { data, errors, reason, equals: same = equals, numRuns } = options;
+  const combinators = { ...builtinCombinators, ...options.combinators };
+  const { ok: of, andThen, mapData, or, map } = combinators;
+
+  const results = resultArbitraries(fc).result(data, errors, reason) as IArbitrary<IUnknownOkErr>;
+  const chains = fc.func(results) as IArbitrary<(data: unknown) => IUnknownOkErr>;
+  const mappers = fc.func(data) as IArbitrary<(data: unknown) => unknown>;
+
+  const check = <V>(law: string, arbitrary: IArbitrary<V>, predicate: (value: V) => boolean) => {
+    try {
+      fc.assert(fc.property(arbitrary, predicate), { numRuns });
+    } catch (error) {
+      throw new Error(`Result law "${law}" does not hold: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  check('andThen left identity', fc.tuple<[T, (data: unknown) => IUnknownOkErr]>(data, chains), ([value, f]) => same(andThen(of(value), f), f(value)));
+  check('andThen right identity', results, (m) => same(andThen(m, of), m));
+  check('andThen associativity', fc.tuple<[IUnknownOkErr, (data: unknown) => IUnknownOkErr, (data: unknown) => IUnknownOkErr]>(results, chains, chains), ([m, f, g]) => (
+    same(andThen(andThen(m, f), g), andThen(m, (value) => andThen(f(value), g)))
+  ));
+  check('andThen semantics', fc.tuple<[IUnknownOkErr, (data: unknown) => IUnknownOkErr]>(results, chains), ([m, f]) => same(andThen(m, f), builtinCombinators.andThen(m, f)));
+  check('mapData identity', results, (m) => same(mapData(m, (value) => value), m));
+  check('mapData composition', fc.tuple<[IUnknownOkErr, (data: unknown) => unknown, (data: unknown) => unknown]>(results, mappers, mappers), ([m, f, g]) => (
+    same(mapData(m, (value) => g(f(value))), mapData(mapData(m, f), g))
+  ));
+  check('mapData semantics', fc.tuple<[IUnknownOkErr, (data: unknown) => unknown]>(results, mappers), ([m, f]) => same(mapData(m, f), builtinCombinators.mapData(m, f)));
+  check('or semantics', fc.tuple<[IUnknownOkErr, IUnknownOkErr]>(results, results), ([m, n]) => same(or(m, n), m.success ? m : n));
+  check('or associativity', fc.tuple<[IUnknownOkErr, IUnknownOkErr, IUnknownOkErr]>(results, results, results), ([a, b, c]) => same(or(or(a, b), c), or(a, or(b, c))));
+  check('map semantics', results, (m) => {
+    const seen: IUnknownOkErr[] = [];
+    map(m, (result) => seen.push(result));
+
+    return seen.length === 1 && seen[0] === m;
+  });
+}
+
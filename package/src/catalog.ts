@@ -0,0 +1,114 @@
+import { Err } from './result/classes';
+import type {
+  IErrOptions,
+  IErrorCatalog,
+  IErrorDefinition,
+  IErrorDefinitions,
+  IReasonType,
+  IReservedErrorName,
+} from './result/types';
+
+/**
+ * Declares the reason type of an error in a catalog created with {@link defineErrors}.
+ * Only carries a type: the returned marker is an empty object.
+ *
+ * @template T - Type of the reason
+ * @returns A marker of the reason type
+ *
+ * @example
+ * ```ts
+ * import { defineErrors, reasonType } from 'tryless';
+ *
+ * const Errors = defineErrors({
+ *   NotFound: { reason: reasonType<{ id: string }>(), status: 404 },
+ * });
+ * ```
+ */
+export function reasonType<T>(): IReasonType<T> {
+  return {};
+}
+
+/**
+ * Declares a catalog of errors once: names, reason types, messages and metadata.
+ * Returns a typed constructor per error, so a typo in an error name fails to compile,
+ * together with runtime type guards and metadata lookup.
+ *
+ * The reason type of an error comes from {@link reasonType}, else from the parameter of its message function,
+ * else it is undefined.
+ *
+ * @template T - The error declarations
+ * @param definitions - Error declarations keyed by error name
+ * @returns The error catalog
+ *
+ * @example
+ * ```ts
+ * import { defineErrors, reasonType, type ICatalogErrorsOf, type IResult } from 'tryless';
+ *
+ * const UserErrors = defineErrors({
+ *   NotFound: { message: (id: string) => `User ${id} not found`, status: 404 },
+ *   Unauthorized: { message: 'Login required', status: 401 },
+ *   Invalid: { reason: reasonType<string[]>(), status: 422 },
+ * });
+ *
+ * function findUser(id: string): IResult<User, ICatalogErrorsOf<typeof UserErrors>> {
+ *   return UserErrors.NotFound(id); // Err<'NotFound', string>
+ * }
+ *
+ * const result = findUser('42');
+ * if (UserErrors.is(result, 'NotFound', 'Unauthorized')) {
+ *   response.status(UserErrors.meta(result).status).send(UserErrors.message(result));
+ * }
+ * ```
+ */
+export function defineErrors<const T extends IErrorDefinitions & { [K in IReservedErrorName]?: never }>(definitions: T): IErrorCatalog<T> {
+  const catalog: Record<string, unknown> = {
+    definitions,
+    is: (value: unknown, ...names: string[]) => isCatalogErr(definitions, value) && (names.length === 0 || names.includes(value.error)),
+    meta: (error: string | { error: string }) => definitions[typeof error === 'string' ? error : error.error],
+    message: (error: { error: string; reason: unknown }) => messageOf(definitions[error.error], error),
+  };
+
+  for (const error of Object.keys(definitions)) {
+    const create = (reason?: unknown, options?: IErrOptions) => new Err(error, reason, create as (...args: unknown[]) => unknown, options);
+
+    catalog[error] = Object.assign(create, {
+      error,
+      meta: definitions[error],
+      is: (value: unknown) => isCatalogErr(definitions, value) && value.error === error,
+    });
+  }
+
+  return catalog as IErrorCatalog<T>;
+}
+
+/**
+ * Type guard to check if a value is an error result whose name is declared in a catalog.
+ *
+ * @param definitions - The error declarations of the catalog
+ * @param value - Value to check
+ * @returns True if the value is an error of the catalog
+ */
+function isCatalogErr(definitions: IErrorDefinitions, value: unknown): value is { success: false; error: string } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { success?: unknown }).success === false &&
+    typeof (value as { error?: unknown }).error === 'string' &&
+    Object.prototype.hasOwnProperty.call(definitions, (value as { error: string }).error)
+  );
+}
+
+/**
+ * Builds the message of an error from its declaration.
+ *
+ * @param definition - The error declaration, if any
+ * @param error - The error result
+ * @returns The declared message, or the error name when there is none
+ */
+function messageOf(definition: IErrorDefinition | undefined, error: { error: string; reason: unknown }): string {
+  if (typeof definition?.message === 'function') {
+    return definition.message(error.reason);
+  }
+
+  return definition?.message ?? error.error;
+}
@@ -0,0 +1,20 @@
+import type { IClock } from './result/types';
+
+/**
+ * Clock backed by `Date.now` and timers, used when no clock is injected.
+ */
+export const systemClock: IClock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) => new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }),
+};
@@ -0,0 +1,36 @@
+import type { IConfig } from './result/types';
+
+/**
+ * The current configuration, shared by the whole library.
+ */
+const config: IConfig = {
+  stackCapture: 'eager',
+  freeze: 'off',
+};
+
+/**
+ * Updates the global configuration of the library.
+ * Only the given options are changed.
+ *
+ * @param options - Options to change
+ *
+ * @example
+ * ```ts
+ * import { configure } from 'tryless';
+ *
+ * // Errors are expected control flow in production: capture 1% of the stacks
+ * configure({ stackCapture: process.env.NODE_ENV === 'production' ? { sampleRate: 0.01 } : 'eager' });
+ * ```
+ */
+export function configure(options: Partial<IConfig>): void {
+  Object.assign(config, options);
+}
+
+/**
+ * Returns the current global configuration of the library.
+ *
+ * @returns The current configuration
+ */
+export function getConfig(): Readonly<IConfig> {
+  return config;
+}
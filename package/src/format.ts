@@ -0,0 +1,51 @@
+/**
+ * Renders the chain of causes of an error result or error, one link per paragraph,
+ * including the stack trace of each link when available.
+ * Stops at the first value that has no cause, and on circular chains.
+ *
+ * @param cause - The first cause of the chain
+ * @returns The rendered chain, or an empty string if there is no cause
+ *
+ * @example
+ * ```ts
+ * formatCauseChain(err('db:timeout', 5000));
+ * // "\n\nCaused by db:timeout: 5000 - Error\n    at ..."
+ * ```
+ */
+export function formatCauseChain(cause: unknown): string {
+  const seen = new Set<unknown>();
+  let output = '';
+  let current = cause;
+
+  while (current !== undefined && !seen.has(current)) {
+    seen.add(current);
+
+    if (isErrLike(current)) {
+      output += `\n\nCaused by ${current.error}: ${current.reason} - ${current.stack}`;
+    } else if (current instanceof Error) {
+      output += `\n\nCaused by ${current.stack ?? String(current)}`;
+    } else {
+      output += `\n\nCaused by ${String(current)}`;
+      break;
+    }
+
+    current = (current as { cause?: unknown }).cause;
+  }
+
+  return output;
+}
+
+/**
+ * Type guard to check if a value has the shape of an error result.
+ *
+ * @param value - Value to check
+ * @returns True if the value is an error result
+ */
+function isErrLike(value: unknown): value is { success: false; error: string; reason: unknown; stack?: string } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { success?: unknown }).success === false &&
+    typeof (value as { error?: unknown }).error === 'string'
+  );
+}
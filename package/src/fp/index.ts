@@ -0,0 +1,281 @@
+import { ok } from '../result/functions';
+import { toResult } from '../result/structural';
+import { matchesErrName } from '../result/names';
+import { UnwrapError } from '../unwrap-error';
+import type { Err, Ok } from '../result/classes';
+import type { IErrNameMatchOf, IUnknownErr, IUnknownOkErr } from '../result/types';
+
+export * from './pipe';
+
+/**
+ * A success result holding data of type `T`: an `Ok` instance or a plain object such as a parsed JSON result.
+ *
+ * @template T - Type of the data
+ */
+type IOkLike<T> = { success: true; data: T };
+
+/**
+ * Extracts the data type of the success results of a result union.
+ *
+ * @template S - Type of the result
+ */
+type IDataOf<S> = S extends { success: true; data: infer T } ? T : never;
+
+/**
+ * Maps the error results of a result union to an `Err` named `F`, keeping their reason and cause.
+ *
+ * @template S - Type of the result
+ * @template F - New error identifier
+ */
+type IRenamedErrOf<S, F extends string> = S extends { success: false; reason: infer V; cause?: infer C } ? Err<F, V, C> : S;
+
+/**
+ * Maps the error results of a result union to an `Err` of reason `U`, keeping their identifier and cause.
+ *
+ * @template S - Type of the result
+ * @template U - Type of the new reason
+ */
+type IReasonedErrOf<S, U> = S extends { success: false; error: infer N extends string; cause?: infer C } ? Err<N, U, C> : S;
+
+/**
+ * Transforms the data of a success result, leaving error results untouched (`.mapData()` as a function).
+ *
+ * @template S - Type of the result
+ * @template U - Type of the transformed data
+ * @param fn - Function to transform the data
+ * @returns A function returning a new Ok with the transformed data, or the error result
+ *
+ * @example
+ * ```ts
+ * const total = pipe(findOrder(id), map((order) => order.total));
+ * // Ok<number> | Err<'NotFound'>
+ * ```
+ */
+export function map<S extends IUnknownOkErr, U>(fn: (data: IDataOf<S>) => U): (result: S) => Ok<U> | Extract<S, { success: false }>;
+export function map<T, U>(fn: (data: T) => U): <S extends IOkLike<T> | IUnknownErr>(result: S) => Ok<U> | Extract<S, { success: false }>;
+export function map(fn: (data: unknown) => unknown): (result: IUnknownOkErr) => IUnknownOkErr {
+  return (result) => result.success ? ok(fn(result.data)) : result;
+}
+
+/**
+ * Transforms the error identifier of an error result, keeping its reason, cause and stack trace.
+ * Success results are returned untouched.
+ *
+ * @template S - Type of the result
+ * @template F - String literal type of the new error identifier
+ * @param fn - Function to transform the error identifier
+ * @returns A function returning a new Err with the transformed identifier, or the success result
+ */
+export function mapErr<S extends IUnknownOkErr, F extends string>(fn: (error: Extract<S, { success: false }>['error']) => F): (result: S) => IRenamedErrOf<S, F> {
+  return (result) => {
+    if (result.success) {
+      return result as IRenamedErrOf<S, F>;
+    }
+
+    return (toResult(result) as Err<string, unknown>).mapErr(fn as (error: string) => F) as IRenamedErrOf<S, F>;
+  };
+}
+
+/**
+ * Transforms the reason of an error result, keeping its error identifier, cause and stack trace.
+ * Success results are returned untouched.
+ *
+ * @template S - Type of the result
+ * @template U - Type of the transformed reason
+ * @param fn - Function to transform the reason
+ * @returns A function returning a new Err with the transformed reason, or the success result
+ */
+export function mapReason<S extends IUnknownOkErr, U>(fn: (reason: Extract<S, { success: false }>['reason']) => U): (result: S) => IReasonedErrOf<S, U> {
+  return (result) => {
+    if (result.success) {
+      return result as IReasonedErrOf<S, U>;
+    }
+
+    return (toResult(result) as Err<string, unknown>).mapReason(fn as (reason: unknown) => U) as IReasonedErrOf<S, U>;
+  };
+}
+
+/**
+ * Chains a result-returning function on the data of a success result, leaving error results untouched.
+ *
+ * @template S - Type of the result
+ * @template R - Type of the result returned by the function
+ * @param fn - Function to apply to the data
+ * @returns A function returning the result of `fn`, or the error result
+ *
+ * @example
+ * ```ts
+ * const user = pipe(parseId(input), andThen(findUser));
+ * // Ok<User> | Err<'InvalidId'> | Err<'NotFound'>
+ * ```
+ */
+export function andThen<S extends IUnknownOkErr, R extends IUnknownOkErr>(fn: (data: IDataOf<S>) => R): (result: S) => R | Extract<S, { success: false }>;
+export function andThen<T, R extends IUnknownOkErr>(fn: (data: T) => R): <S extends IOkLike<T> | IUnknownErr>(result: S) => R | Extract<S, { success: false }>;
+export function andThen(fn: (data: unknown) => IUnknownOkErr): (result: IUnknownOkErr) => IUnknownOkErr {
+  return (result) => result.success ? fn(result.data) : result;
+}
+
+/**
+ * Recovers from error results with a result-returning function, leaving success results untouched.
+ *
+ * @template S - Type of the result
+ * @template R - Type of the result returned by the function
+ * @param fn - Function to apply to the error result
+ * @returns A function returning the success result, or the result of `fn`
+ */
+export function orElse<S extends IUnknownOkErr, R extends IUnknownOkErr>(fn: (errorResult: Extract<S, { success: false }>) => R): (result: S) => Exclude<S, { success: false }> | R;
+
+/**
+ * Recovers from a single error, or from every error of a namespace (`'bitcoin:*'`), with a result-returning function.
+ * Success results and other errors are returned untouched.
+ *
+ * @template S - Type of the result
+ * @template K - Error name or namespace pattern to recover from
+ * @template R - Type of the result returned by the function
+ * @param error - Error name or namespace pattern to recover from
+ * @param fn - Function to apply to the matching error result
+ * @returns A function returning the result of `fn` for matching errors, or the result
+ *
+ * @example
+ * ```ts
+ * const price = pipe(getBitcoinPrice(), orElse('fetch:*', () => ok(cachedPrice)));
+ * // Ok<number> | Err<'bitcoin:invalid-response'>
+ * ```
+ */
+export function orElse<S extends IUnknownOkErr, K extends string, R extends IUnknownOkErr>(
+  error: K,
+  fn: (errorResult: Extract<S, { error: IErrNameMatchOf<K> }>) => R,
+): (result: S) => Exclude<S, { error: IErrNameMatchOf<K> }> | R;
+export function orElse(errorOrFn: string | ((errorResult: never) => unknown), fn?: (errorResult: never) => unknown): (result: IUnknownOkErr) => unknown {
+  return (result) => {
+    if (result.success) {
+      return result;
+    }
+
+    if (typeof errorOrFn === 'function') {
+      return (errorOrFn as (errorResult: IUnknownErr) => unknown)(result);
+    }
+
+    return matchesErrName(result.error, errorOrFn) ? (fn as (errorResult: IUnknownErr) => unknown)(result) : result;
+  };
+}
+
+/**
+ * Falls back to another result when the result is an error.
+ *
+ * @template R - Type of the fallback result
+ * @param fallback - Result to return instead of an error result
+ * @returns A function returning the success result, or the fallback
+ */
+export function or<R extends IUnknownOkErr>(fallback: R): <S extends IUnknownOkErr>(result: S) => Exclude<S, { success: false }> | R {
+  return (result) => (result.success ? result : fallback) as Exclude<typeof result, { success: false }> | R;
+}
+
+/**
+ * Runs a side effect with the data of a success result, and returns the result unchanged.
+ * The side effect is not awaited and its exceptions propagate.
+ *
+ * @template S - Type of the result
+ * @param fn - Side effect receiving the data
+ * @returns A function running the side effect and returning the result
+ *
+ * @example
+ * ```ts
+ * const user = pipe(
+ *   findUser(id),
+ *   tap((user) => logger.info('found user', user.id)),
+ *   andThen(loadProfile),
+ * );
+ * ```
+ */
+export function tap<S extends IUnknownOkErr>(fn: (data: IDataOf<S>) => unknown): (result: S) => S;
+export function tap<T>(fn: (data: T) => unknown): <S extends IOkLike<T> | IUnknownErr>(result: S) => S;
+export function tap(fn: (data: unknown) => unknown): (result: IUnknownOkErr) => IUnknownOkErr {
+  return (result) => {
+    if (result.success) {
+      fn(result.data);
+    }
+
+    return result;
+  };
+}
+
+/**
+ * Runs a side effect with an error result, and returns the result unchanged.
+ * The side effect is not awaited and its exceptions propagate.
+ *
+ * @template S - Type of the result
+ * @param fn - Side effect receiving the error result
+ * @returns A function running the side effect and returning the result
+ */
+export function tapErr<S extends IUnknownOkErr>(fn: (errorResult: Extract<S, { success: false }>) => unknown): (result: S) => S;
+
+/**
+ * Runs a side effect with an error result matching an error name or a namespace pattern (`'bitcoin:*'`),
+ * and returns the result unchanged.
+ * The side effect is not awaited and its exceptions propagate.
+ *
+ * @template S - Type of the result
+ * @template K - Error name or namespace pattern to tap
+ * @param error - Error name or namespace pattern to tap
+ * @param fn - Side effect receiving the matching error result
+ * @returns A function running the side effect and returning the result
+ */
+export function tapErr<S extends IUnknownOkErr, K extends string>(error: K, fn: (errorResult: Extract<S, { error: IErrNameMatchOf<K> }>) => unknown): (result: S) => S;
+export function tapErr(errorOrFn: string | ((errorResult: never) => unknown), fn?: (errorResult: never) => unknown): (result: IUnknownOkErr) => IUnknownOkErr {
+  return (result) => {
+    const named = typeof errorOrFn === 'string';
+    if (result.success || (named && !matchesErrName(result.error, errorOrFn))) {
+      return result;
+    }
+
+    (named ? fn as (errorResult: IUnknownErr) => unknown : errorOrFn as (errorResult: IUnknownErr) => unknown)(result);
+    return result;
+  };
+}
+
+/**
+ * Returns the data of a success result, or throws for an error result.
+ * Used as a pipeline step itself: `pipe(result, unwrap)`.
+ *
+ * @template S - Type of the result
+ * @param result - The result to unwrap
+ * @returns The data of the result
+ * @throws {UnwrapError} If the result is an error
+ */
+export function unwrap<S extends IUnknownOkErr>(result: S): IDataOf<S> {
+  if (result.success) {
+    return result.data as IDataOf<S>;
+  }
+
+  throw new UnwrapError(result, unwrap as (...args: unknown[]) => unknown, `Could not unwrap error`);
+}
+
+/**
+ * Returns the data of a success result, or a default value for an error result.
+ *
+ * @template U - Type of the default value
+ * @param defaultValue - Value to return for an error result
+ * @returns A function returning the data or the default value
+ *
+ * @example
+ * ```ts
+ * const price = pipe(getBitcoinPrice(), unwrapOr(0));
+ * // number
+ * ```
+ */
+export function unwrapOr<U>(defaultValue: U): <S extends IUnknownOkErr>(result: S) => IDataOf<S> | U {
+  return (result) => result.success ? result.data as IDataOf<typeof result> : defaultValue;
+}
+
+/**
+ * Returns the data of a success result, or a default value computed from an error result.
+ *
+ * @template S - Type of the result
+ * @template U - Type of the computed value
+ * @param defaultValue - Function to compute the default value from the error result
+ * @returns A function returning the data or the computed value
+ */
+export function unwrapOrElse<S extends IUnknownOkErr, U>(defaultValue: (errorResult: Extract<S, { success: false }>) => U): (result: S) => IDataOf<S> | U {
+  return (result) => result.success ? result.data as IDataOf<S> : defaultValue(result as Extract<S, { success: false }>);
+}
@@ -0,0 +1,159 @@
+/**
+ * Passes a value through a pipeline of functions, left to right.
+ * Every step is typed from the output of the previous one, so curried operators need no annotations.
+ *
+ * @param value - The value to pass to the first function
+ * @param fns - Functions applied in order, each to the output of the previous one
+ * @returns The output of the last function, or the value when no function is given
+ *
+ * @example
+ * ```ts
+ * import { pipe, map, andThen, unwrapOr } from 'tryless/fp';
+ *
+ * const total = pipe(
+ *   parseOrder(body),
+ *   andThen(validateOrder),
+ *   map((order) => order.items.length),
+ *   unwrapOr(0),
+ * );
+ * ```
+ */
+export function pipe<A>(value: A): A;
+export function pipe<A, B>(value: A, ab: (a: A) => B): B;
+export function pipe<A, B, C>(value: A, ab: (a: A) => B, bc: (b: B) => C): C;
+export function pipe<A, B, C, D>(value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D): D;
+export function pipe<A, B, C, D, E>(value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E): E;
+export function pipe<A, B, C, D, E, F>(
+  value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F,
+): F;
+export function pipe<A, B, C, D, E, F, G>(
+  value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+): G;
+export function pipe<A, B, C, D, E, F, G, H>(
+  value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H,
+): H;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+  value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I,
+): I;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+  value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J,
+): J;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(
+  value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K,
+): K;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L>(
+  value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K, kl: (k: K) => L,
+): L;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M>(
+  value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K, kl: (k: K) => L, lm: (l: L) => M,
+): M;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N>(
+  value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K, kl: (k: K) => L, lm: (l: L) => M,
+  mn: (m: M) => N,
+): N;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O>(
+  value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K, kl: (k: K) => L, lm: (l: L) => M,
+  mn: (m: M) => N, no: (n: N) => O,
+): O;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P>(
+  value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K, kl: (k: K) => L, lm: (l: L) => M,
+  mn: (m: M) => N, no: (n: N) => O, op: (o: O) => P,
+): P;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q>(
+  value: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K, kl: (k: K) => L, lm: (l: L) => M,
+  mn: (m: M) => N, no: (n: N) => O, op: (o: O) => P, pq: (p: P) => Q,
+): Q;
+export function pipe(value: unknown, ...fns: ((value: unknown) => unknown)[]): unknown {
+  return fns.reduce((current, fn) => fn(current), value);
+}
+
+/**
+ * Composes functions left to right into a single function.
+ * The first function may take any arguments; the others take the output of the previous one.
+ *
+ * @param fns - Functions applied in order, the first one to the arguments of the composed function
+ * @returns A function applying every function in order
+ *
+ * @example
+ * ```ts
+ * import { flow, andThen, map } from 'tryless/fp';
+ *
+ * const loadTotal = flow(findOrder, andThen(validateOrder), map((order) => order.total));
+ * const total = loadTotal(id);
+ * ```
+ */
+export function flow<A extends readonly unknown[], B>(ab: (...a: A) => B): (...a: A) => B;
+export function flow<A extends readonly unknown[], B, C>(ab: (...a: A) => B, bc: (b: B) => C): (...a: A) => C;
+export function flow<A extends readonly unknown[], B, C, D>(ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D): (...a: A) => D;
+export function flow<A extends readonly unknown[], B, C, D, E>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E,
+): (...a: A) => E;
+export function flow<A extends readonly unknown[], B, C, D, E, F>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F,
+): (...a: A) => F;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+): (...a: A) => G;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H,
+): (...a: A) => H;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I,
+): (...a: A) => I;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J,
+): (...a: A) => J;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J, K>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K,
+): (...a: A) => K;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J, K, L>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K, kl: (k: K) => L,
+): (...a: A) => L;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J, K, L, M>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K, kl: (k: K) => L, lm: (l: L) => M,
+): (...a: A) => M;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J, K, L, M, N>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K, kl: (k: K) => L, lm: (l: L) => M,
+  mn: (m: M) => N,
+): (...a: A) => N;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J, K, L, M, N, O>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K, kl: (k: K) => L, lm: (l: L) => M,
+  mn: (m: M) => N, no: (n: N) => O,
+): (...a: A) => O;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J, K, L, M, N, O, P>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K, kl: (k: K) => L, lm: (l: L) => M,
+  mn: (m: M) => N, no: (n: N) => O, op: (o: O) => P,
+): (...a: A) => P;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q>(
+  ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G,
+  gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J, jk: (j: J) => K, kl: (k: K) => L, lm: (l: L) => M,
+  mn: (m: M) => N, no: (n: N) => O, op: (o: O) => P, pq: (p: P) => Q,
+): (...a: A) => Q;
+export function flow(first: (...args: unknown[]) => unknown, ...fns: ((value: unknown) => unknown)[]): (...args: unknown[]) => unknown {
+  if (typeof first !== "function") {
+    throw new Error("flow expects at least one function");
+  }
+
+  return function flowed(this: unknown, ...args: unknown[]) {
+    return fns.reduce((current, fn) => fn(current), first.apply(this, args));
+  };
+}
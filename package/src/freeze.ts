@@ -0,0 +1,91 @@
+import { getConfig } from './config';
+import type { IFreezeMode } from './result/types';
+
+/**
+ * Results created inside {@link freezeAfter}, frozen once it returns.
+ */
+let pending: { stack?: string; data?: unknown; reason?: unknown }[] | undefined;
+
+/**
+ * Freezes a result following the given freeze mode: `'shallow'` freezes the instance,
+ * `'deep'` also freezes the plain objects and arrays of its data or reason, recursively.
+ * Inside {@link freezeAfter}, freezing is postponed.
+ *
+ * @param result - The result to freeze
+ * @param mode - Freeze mode, defaults to the configured one
+ */
+export function freezeResult(result: { data?: unknown; reason?: unknown }, mode: IFreezeMode = getConfig().freeze): void {
+  if (mode === 'off') {
+    return;
+  }
+
+  if (pending) {
+    pending.push(result);
+    return;
+  }
+
+  if (mode === 'deep') {
+    deepFreeze('data' in result ? result.data : result.reason);
+  }
+
+  Object.freeze(result);
+}
+
+/**
+ * Builds results that are completed after their construction (copied stack trace, field path),
+ * postponing their freezing until `build` returns.
+ *
+ * @param build - Creates and completes the results
+ * @returns The value returned by `build`
+ */
+export function freezeAfter<T>(build: () => T): T {
+  const outer = pending;
+  const created: NonNullable<typeof pending> = [];
+  pending = created;
+
+  try {
+    return build();
+  } finally {
+    pending = outer;
+    created.forEach((result) => freezeResult(result));
+  }
+}
+
+/**
+ * Checks if a value is an array or a plain object, created by a literal, `JSON.parse` or `Object.create(null)`.
+ *
+ * @param value - The value to check
+ * @returns True if the value is an array or a plain object
+ */
+function isPlainObject(value: unknown): value is object {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const prototype: unknown = Object.getPrototypeOf(value);
+
+  return Array.isArray(value) || prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Freezes a value and the plain objects and arrays it references, recursively.
+ * Other objects (class instances, maps, sets, dates, array buffer views...) are left as they are,
+ * as freezing them would break their own methods.
+ *
+ * @param value - The value to freeze
+ */
+export function deepFreeze(value: unknown): void {
+  if (!isPlainObject(value) || Object.isFrozen(value)) {
+    return;
+  }
+
+  Object.freeze(value);
+
+  for (const key of Reflect.ownKeys(value)) {
+    const descriptor = Object.getOwnPropertyDescriptor(value, key);
+
+    if (descriptor && 'value' in descriptor) {
+      deepFreeze(descriptor.value);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { AsyncResult } from './result/async-result';
+import { toResult } from './result/structural';
+import type { IErrOf, IOkDataOf, IResultFrom, IUnknownErr, IUnknownOkErr } from './result/types';
+
+/**
+ * Runs a generator function as a sequence of result-returning steps (do-notation).
+ * Inside the body, `yield*` a result to get its data back; the first error yielded
+ * short-circuits the body and is returned as is, running any pending `finally` blocks.
+ *
+ * The inferred return type is the union of every error that may be yielded
+ * plus the result returned by the body.
+ *
+ * @template Y - Union of the errors yielded by the body
+ * @template R - Type of the result returned by the body
+ * @param body - Generator function that yields errors and returns a result
+ * @returns The first yielded error, or the result returned by the body
+ *
+ * @example
+ * ```ts
+ * import { gen, ok } from 'tryless';
+ *
+ * const result = gen(function* () {
+ *   const user = yield* findUser(id);           // Ok<User> | Err<'NotFound', string>
+ *   const email = yield* validateEmail(user);   // Ok<string> | Err<'InvalidEmail', string>
+ *
+ *   return ok({ ...user, email });
+ * });
+ * // Ok<User> | Err<'NotFound', string> | Err<'InvalidEmail', string>
+ * ```
+ */
+export function gen<Y extends IUnknownErr, R extends IUnknownOkErr>(
+  body: () => Generator<Y, R, unknown>
+): Y | IResultFrom<R>;
+
+/**
+ * Runs an async generator function as a sequence of result-returning steps (do-notation).
+ * Inside the body, `yield*` an awaited result or an {@link AsyncResult} to get its data back;
+ * the first error yielded short-circuits the body and is returned as is.
+ *
+ * @template Y - Union of the errors yielded by the body
+ * @template R - Type of the result returned by the body
+ * @param body - Async generator function that yields errors and returns a result
+ * @returns AsyncResult resolving to the first yielded error, or to the result returned by the body
+ *
+ * @example
+ * ```ts
+ * import { gen, ok, resultfy } from 'tryless';
+ *
+ * const result = await gen(async function* () {
+ *   const response = yield* resultfy(fetch(url), 'fetch-error');
+ *   const json = yield* await resultfy(response.json(), 'invalid-json');
+ *
+ *   return ok(json);
+ * });
+ * ```
+ */
+export function gen<Y extends IUnknownErr, R extends IUnknownOkErr>(
+  body: () => AsyncGenerator<Y, R, unknown>
+): AsyncResult<IOkDataOf<R>, Y | IErrOf<R>>;
+export function gen(
+  body: () => Generator<IUnknownErr, IUnknownOkErr, unknown> | AsyncGenerator<IUnknownErr, IUnknownOkErr, unknown>
+): unknown {
+  const iterator = body();
+
+  if (Symbol.asyncIterator in iterator) {
+    return AsyncResult.from(run(iterator));
+  }
+
+  const step = iterator.next();
+  if (!step.done) {
+    iterator.return(step.value);
+  }
+
+  return toResult(step.value);
+}
+
+/**
+ * Drives an async generator created by {@link gen} until it returns or yields its first error.
+ *
+ * @param iterator - The async generator to drive
+ * @returns Promise of the first yielded error, or of the returned result
+ */
+async function run(iterator: AsyncGenerator<IUnknownErr, IUnknownOkErr, unknown>): Promise<IUnknownOkErr> {
+  const step = await iterator.next();
+  if (!step.done) {
+    await iterator.return(step.value);
+  }
+
+  return step.value;
+}
@@ -1,8 +1,10 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { UnknownError } from './result/constants';
 import { Err, Ok } from './result/classes';
+import { AsyncResult } from './result/async-result';
 import { ok } from './result/functions';
-import type { IUnknownError } from './result/types';
+import { toResult } from './result/structural';
+import type { IClassifiedErrOf, IResultfied, IResultfiedAll, IResultfyAllOptions, IResultfyDecorator, IThrownTable, IUnknownErr, IUnknownError } from './result/types';
 
 /**
  * Type guard to check if a value is a PromiseLike object (thenable).
@@ -111,9 +113,10 @@ export function errReject<E extends string>(error: E): (reason: unknown) => Err<
  *
  * **Recommended approach** for wrapping promises and functions. More concise than `.then(ok, errReject())`.
  *
- * **For Promises:** Wraps a promise to return Ok on fulfillment or Err on rejection.
+ * **For Promises:** Wraps a promise in an {@link AsyncResult} that resolves to Ok on fulfillment or Err on rejection.
  *
  * **For Functions:** Returns a wrapped version that catches errors and returns results.
+ * Async functions return an {@link AsyncResult}, so the whole pipeline can be chained.
  *
  * @template F - Type of the function or promise to wrap
  * @param fn - The function or promise to wrap
@@ -156,11 +159,11 @@ export function errReject<E extends string>(error: E): (reason: unknown) => Err<
  *
  * @template F - Promise type to wrap
  * @param fn - The promise to wrap
- * @returns Promise that resolves to Ok or Err result
+ * @returns AsyncResult that resolves to Ok or Err result
  */
 export function resultfy<F extends Promise<any>>(
   fn: F
-): Promise<Ok<Awaited<F>> | Err<IUnknownError, unknown>>;
+): AsyncResult<Awaited<F>, Err<IUnknownError, unknown>>;
 
 /**
  * Wraps a promise to return Ok on fulfillment or Err with custom error on rejection.
@@ -169,12 +172,28 @@ export function resultfy<F extends Promise<any>>(
  * @template E - String literal type for the error identifier
  * @param fn - The promise to wrap
  * @param error - Custom error identifier to use for rejections
- * @returns Promise that resolves to Ok or Err result
+ * @returns AsyncResult that resolves to Ok or Err result
  */
 export function resultfy<F extends Promise<any>, E extends string>(
   fn: F,
   error: E
-): Promise<Ok<Awaited<F>> | Err<E, unknown>>;
+): AsyncResult<Awaited<F>, Err<E, unknown>>;
+
+/**
+ * Wraps a promise to return Ok on fulfillment or the error chosen by a classifier on rejection.
+ * The classifier is a function returning an error result, or a table mapping error names to the constructor
+ * (checked with `instanceof`) or predicate matching the rejection reason; unmatched reasons give `Err<'unknown', unknown>`.
+ *
+ * @template F - Promise type to wrap
+ * @template C - Type of the classifier function or table
+ * @param fn - The promise to wrap
+ * @param classify - Classifier function or table
+ * @returns AsyncResult that resolves to Ok or one of the classified errors
+ */
+export function resultfy<F extends Promise<any>, C extends ((thrown: unknown) => IUnknownErr) | IThrownTable>(
+  fn: F,
+  classify: C
+): AsyncResult<Awaited<F>, IClassifiedErrOf<C>>;
 
 /**
  * Wraps a function to catch errors and return results with unknown error.
@@ -185,13 +204,7 @@ export function resultfy<F extends Promise<any>, E extends string>(
  */
 export function resultfy<F extends (...args: any) => any>(
   fn: F
-): ReturnType<F> extends never
-  ? (...args: Parameters<F>) => Err<IUnknownError, unknown>
-  : ReturnType<F> extends Promise<never>
-  ? (...args: Parameters<F>) => Promise<Err<IUnknownError, unknown>>
-  : ReturnType<F> extends Promise<infer U>
-  ? (...args: Parameters<F>) => Promise<Ok<U> | Err<IUnknownError, unknown>>
-  : (...args: Parameters<F>) => Ok<ReturnType<F>> | Err<IUnknownError, unknown>;
+): IResultfied<F, Err<IUnknownError, unknown>>;
 
 /**
  * Wraps a function to catch errors and return results with custom error.
@@ -208,36 +221,237 @@ export function resultfy<
 >(
   fn: F,
   error: E
-): ReturnType<F> extends never
-  ? (...args: Parameters<F>) => Err<E, unknown>
-  : ReturnType<F> extends Promise<never>
-  ? (...args: Parameters<F>) => Promise<Err<E, unknown>>
-  : ReturnType<F> extends Promise<infer U>
-  ? (...args: Parameters<F>) => Promise<Ok<U> | Err<E, unknown>>
-  : (...args: Parameters<F>) => Ok<ReturnType<F>> | Err<E, unknown>;
-export function resultfy<F, E extends string>(
+): IResultfied<F, Err<E, unknown>>;
+
+/**
+ * Wraps a function to catch errors and return the error chosen by a classifier.
+ * The classifier is a function returning an error result, or a table mapping error names to the constructor
+ * (checked with `instanceof`) or predicate matching the thrown value; unmatched values give `Err<'unknown', unknown>`.
+ *
+ * @template F - Function type to wrap
+ * @template C - Type of the classifier function or table
+ * @param fn - The function to wrap
+ * @param classify - Classifier function or table
+ * @returns Wrapped function that returns Ok or one of the classified errors
+ *
+ * @example
+ * ```ts
+ * const load = resultfy(fetchJSON, {
+ *   aborted: (thrown): thrown is DOMException => thrown instanceof DOMException && thrown.name === 'AbortError',
+ *   http: HttpError,
+ *   invalid: TypeError,
+ * });
+ * // (url: string) => AsyncResult<unknown, Err<'aborted', DOMException> | Err<'http', HttpError> | Err<'invalid', TypeError> | Err<'unknown', unknown>>
+ * ```
+ */
+export function resultfy<
+  F extends (...args: any) => any,
+  C extends ((thrown: unknown) => IUnknownErr) | IThrownTable
+>(
   fn: F,
-  fnError?: E
+  classify: C
+): IResultfied<F, IClassifiedErrOf<C>>;
+export function resultfy<F>(
+  fn: F,
+  classify?: string | ((thrown: unknown) => IUnknownErr) | IThrownTable
 ): any {
-  const error = fnError ?? UnknownError;
+  const toErr = (thrown: unknown, caller: (...args: any[]) => any): IUnknownErr => {
+    if (typeof classify === "function") {
+      return toResult(classify(thrown)) as IUnknownErr;
+    }
+
+    const error = typeof classify === "object" ? matchThrown(classify, thrown) : classify ?? UnknownError;
+    return new Err<string, unknown>(error, thrown, caller);
+  };
+
   if (isThenable(fn)) {
-    return fn.then(ok, errReject(error));
+    return new AsyncResult<unknown, IUnknownErr>(fn.then(ok, function rejectWrapper(reason) {
+      return toErr(reason, rejectWrapper);
+    }));
   }
 
   if (typeof fn !== "function") {
     throw new Error("fn must be a function or a promise");
   }
 
-  return (function wrapper(...args: any) {
+  return (function wrapper(this: unknown, ...args: any) {
     try {
-      const result = (fn as (...args: any[]) => any)(...args);
+      const result = (fn as (...args: any[]) => any).apply(this, args);
       if (isThenable(result)) {
-        return result.then(ok, (reason) => new Err<string, unknown>(error, reason, wrapper));
+        return new AsyncResult<unknown, IUnknownErr>(result.then(ok, (reason) => toErr(reason, wrapper)));
       }
       return ok(result);
     } catch (reason) {
-      return new Err<string, unknown>(error, reason, wrapper);
+      return toErr(reason, wrapper);
     }
   }) as any;
 }
 
+/**
+ * Wraps every method of an object or module with {@link resultfy}, so each returns results instead of throwing:
+ * an AsyncResult for async methods, `Ok | Err` otherwise. Overloads are kept and methods are called with the
+ * original object as `this`, as are the methods left unwrapped. Other members are read through unchanged.
+ *
+ * @template T - Type of the object to wrap
+ * @template E - Error name, `'ns:*'` pattern, classifier function or table
+ * @template O - Type of the options
+ * @param obj - The object or module to wrap
+ * @param error - Error name of every method, a `'ns:*'` pattern naming errors after the methods (`'fs:readFile'`),
+ * or a classifier function or table as accepted by {@link resultfy} (defaults to 'unknown')
+ * @param options - Methods to include or exclude
+ * @returns A proxy of the object whose methods return results
+ *
+ * @example
+ * ```ts
+ * import fs from 'node:fs/promises';
+ * import { resultfyAll } from 'tryless';
+ *
+ * const safeFs = resultfyAll(fs, 'fs:*', { include: ['readFile', 'writeFile'] });
+ * const config = await safeFs.readFile('config.json', 'utf8');
+ * // Ok<string> | Err<'fs:readFile', unknown>
+ * ```
+ */
+export function resultfyAll<T extends object, const O extends IResultfyAllOptions<keyof T> = object>(
+  obj: T,
+  error?: undefined,
+  options?: O
+): IResultfiedAll<T, IUnknownError, O>;
+export function resultfyAll<
+  T extends object,
+  const E extends string | ((thrown: unknown) => IUnknownErr) | IThrownTable,
+  const O extends IResultfyAllOptions<keyof T> = object
+>(
+  obj: T,
+  error: E,
+  options?: O
+): IResultfiedAll<T, E, O>;
+export function resultfyAll(
+  obj: object,
+  error?: string | ((thrown: unknown) => IUnknownErr) | IThrownTable,
+  options: IResultfyAllOptions = {}
+): unknown {
+  const wrapped = new Map<PropertyKey, { method: unknown; safe: unknown }>();
+
+  const isWrapped = (key: PropertyKey) => typeof key === "string"
+    && key !== "constructor"
+    && (options.include === undefined || options.include.includes(key))
+    && !options.exclude?.includes(key);
+
+  const get = (key: PropertyKey): unknown => {
+    const value = Reflect.get(obj, key, obj) as unknown;
+
+    if (typeof value !== "function" || key === "constructor") {
+      return value;
+    }
+
+    const cached = wrapped.get(key);
+    if (cached?.method === value) {
+      return cached.safe;
+    }
+
+    // Methods left unwrapped are still bound, so private fields keep working through the proxy
+    const bound = value.bind(obj) as (...args: any[]) => any;
+    const name = typeof error === "string" && error.endsWith(":*") ? `${error.slice(0, -1)}${String(key)}` : error;
+    const safe = isWrapped(key) ? resultfy(bound, name as string) : bound;
+    wrapped.set(key, { method: value, safe });
+
+    return safe;
+  };
+
+  // The proxy forwards to `obj` from an empty target: a frozen object, such as a module namespace,
+  // cannot be the target, as a proxy must return its non-configurable read-only properties unchanged
+  return new Proxy(Object.create(null) as object, {
+    get: (_target, key) => get(key),
+    set: (_target, key, value) => Reflect.set(obj, key, value, obj),
+    has: (_target, key) => Reflect.has(obj, key),
+    ownKeys: () => Reflect.ownKeys(obj),
+    getOwnPropertyDescriptor: (_target, key) => {
+      const descriptor = Reflect.getOwnPropertyDescriptor(obj, key);
+
+      return descriptor && ('value' in descriptor ? { ...descriptor, value: get(key), configurable: true } : { ...descriptor, configurable: true });
+    },
+    getPrototypeOf: () => Reflect.getPrototypeOf(obj),
+  });
+}
+
+/**
+ * Method decorator wrapping the method with {@link resultfy}: it returns an AsyncResult when async,
+ * `Ok | Err` otherwise, with stack traces starting at the caller of the method.
+ * Works as a standard (TC39) decorator and as a legacy `experimentalDecorators` one.
+ * Decorators cannot change the declared type of a method: use `IResultfyDecorated` to type the instances.
+ *
+ * @template E - Error name, `'ns:*'` pattern, classifier function or table
+ * @param error - Error name of the method, a `'ns:*'` pattern naming the error after the method (`'repo:findUser'`),
+ * or a classifier function or table as accepted by {@link resultfy} (defaults to 'unknown')
+ * @returns The method decorator
+ *
+ * @example
+ * ```ts
+ * import { Resultfy, type IResultfyDecorated } from 'tryless';
+ *
+ * class UserRepository {
+ *   @Resultfy('user:repo-error')
+ *   async findUser(id: string): Promise<User> {
+ *     return this.db.users.findOrThrow(id);
+ *   }
+ * }
+ *
+ * export type SafeUserRepository = IResultfyDecorated<UserRepository, 'findUser', 'user:repo-error'>;
+ * const repo = new UserRepository() as unknown as SafeUserRepository;
+ * const user = await repo.findUser('1'); // Ok<User> | Err<'user:repo-error', unknown>
+ * ```
+ */
+export function Resultfy<const E extends string | ((thrown: unknown) => IUnknownErr) | IThrownTable>(error?: E): IResultfyDecorator {
+  const wrap = (method: unknown, key: string | symbol) => {
+    if (typeof method !== "function") {
+      throw new Error("@Resultfy can only decorate methods");
+    }
+
+    const name = typeof error === "string" && error.endsWith(":*") ? `${error.slice(0, -1)}${String(key)}` : error;
+    return resultfy(method as (...args: any[]) => any, name as string);
+  };
+
+  return function decorator(target: unknown, context: string | symbol | ClassMethodDecoratorContext, descriptor?: PropertyDescriptor): any {
+    if (typeof context === "object") {
+      return wrap(target, context.name);
+    }
+
+    return { ...descriptor, value: wrap(descriptor?.value, context) };
+  } as IResultfyDecorator;
+}
+
+/**
+ * Finds the name of the first entry of a `resultfy` table matching a thrown value.
+ * Constructors are checked with `instanceof`; other functions are called as predicates.
+ *
+ * @param table - Error names mapped to constructors or predicates
+ * @param thrown - The thrown value or rejection reason
+ * @returns The matching error name, or 'unknown'
+ */
+function matchThrown(table: IThrownTable, thrown: unknown): string {
+  const name = Object.keys(table).find((key) => {
+    const matcher = table[key] as (...args: any[]) => any;
+    return isConstructor(matcher) ? thrown instanceof matcher : Boolean(matcher(thrown));
+  });
+
+  return name ?? UnknownError;
+}
+
+/**
+ * Checks if a function is a constructor rather than a predicate: a class, a built-in constructor
+ * or a function whose prototype has been extended.
+ *
+ * @param fn - The function to check
+ * @returns True if the function is meant to be called with `new`
+ */
+function isConstructor(fn: (...args: any[]) => any): boolean {
+  const prototype = fn.prototype as object | undefined;
+
+  if (prototype === undefined) {
+    return false;
+  }
+
+  return /^class\b/.test(Function.prototype.toString.call(fn))
+    || Object.getPrototypeOf(prototype) !== Object.prototype
+    || Object.getOwnPropertyNames(prototype).length > 1;
+}
@@ -1,3 +1,9 @@
 export * from './result';
 export * from './unwrap-error';
 export * from './helpers';
+export * from './gen';
+export * from './config';
+export * from './option';
+export * from './catalog';
+export * from './retry';
+export * from './timeout';
@@ -0,0 +1,162 @@
+import { formatCauseChain } from '../format';
+import { matchesErrName } from '../result/names';
+
+/**
+ * The part of the `this` context of Vitest and Jest matchers used by the result matchers.
+ *
+ * @property isNot - Whether the assertion is negated with `.not`
+ * @property equals - Recursive equality used by `toEqual`
+ * @property utils - Formatting helpers of the test runner
+ */
+export type IMatcherContext = {
+  isNot?: boolean;
+  equals: (a: unknown, b: unknown) => boolean;
+  utils: { stringify: (value: unknown) => string };
+};
+
+/**
+ * Outcome of a matcher, as expected by `expect.extend`.
+ *
+ * @property pass - Whether the received value matches
+ * @property message - Builds the failure message
+ */
+export type IMatcherResult = { pass: boolean; message: () => string };
+
+/**
+ * Result matchers added to `expect` by {@link matchers}.
+ * Error names accept namespace patterns (`'bitcoin:*'`).
+ *
+ * @template R - Return type of the matchers in the test runner
+ */
+export interface IResultMatchers<R = unknown> {
+  /** Checks that the received value is a success result. */
+  toBeOk(): R;
+  /** Checks that the received value is a success result whose data equals `data` (like `toEqual`). */
+  toBeOkWith(data: unknown): R;
+  /** Checks that the received value is an error result, optionally with an error name or namespace pattern. */
+  toBeErr(error?: string): R;
+  /** Checks that the received value is an error result with an error name or namespace pattern and a reason equal to `reason`. */
+  toBeErrWith(error: string, reason: unknown): R;
+  /** Checks that the received promise resolves to a success result. */
+  toResolveOk(): Promise<R>;
+  /** Checks that the received promise resolves to a success result whose data equals `data`. */
+  toResolveOkWith(data: unknown): Promise<R>;
+  /** Checks that the received promise resolves to an error result, optionally with an error name or namespace pattern. */
+  toResolveErr(error?: string): Promise<R>;
+  /** Checks that the received promise resolves to an error result with an error name or namespace pattern and a reason equal to `reason`. */
+  toResolveErrWith(error: string, reason: unknown): Promise<R>;
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace jest {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars, @typescript-eslint/ban-types
+    interface Matchers<R, T = {}> extends IResultMatchers<R> {}
+  }
+}
+
+/**
+ * Loose shape of a received result, read by the matchers without assuming it is one.
+ */
+type IReceived = { success?: unknown; data?: unknown; error?: unknown; reason?: unknown; stack?: unknown; cause?: unknown };
+
+/**
+ * Checks if a value has the shape of a result.
+ *
+ * @param value - The received value
+ * @returns True if the value is a success or error result
+ */
+function isResultLike(value: unknown): value is IReceived {
+  return typeof value === 'object' && value !== null && typeof (value as IReceived).success === 'boolean';
+}
+
+/**
+ * Pretty-prints a received value, rendering results with their data, or their reason, stack trace and causes.
+ *
+ * @param context - The matcher context
+ * @param value - The received value
+ * @returns The rendered value
+ */
+function formatReceived(context: IMatcherContext, value: unknown): string {
+  if (!isResultLike(value)) {
+    return `${context.utils.stringify(value)} (not a result)`;
+  }
+
+  if (value.success) {
+    return `Ok(${context.utils.stringify(value.data)})`;
+  }
+
+  const stack = typeof value.stack === 'string' ? `\n${value.stack}` : '';
+  return `Err(${String(value.error)}, ${context.utils.stringify(value.reason)})${stack}${formatCauseChain(value.cause)}`;
+}
+
+/**
+ * Builds the outcome of a matcher with a message suited to `.not`.
+ *
+ * @param context - The matcher context
+ * @param pass - Whether the received value matches
+ * @param expectation - Description of the expected value
+ * @param received - The received value
+ * @returns The matcher outcome
+ */
+function outcome(context: IMatcherContext, pass: boolean, expectation: string, received: unknown): IMatcherResult {
+  return {
+    pass,
+    message: () => `expected result ${pass ? 'not ' : ''}to be ${expectation}, received:\n${formatReceived(context, received)}`,
+  };
+}
+
+/**
+ * Matchers for results, to register with Vitest or Jest `expect.extend`.
+ * With Vitest, importing `tryless/matchers/vitest` registers them and their types in one go.
+ *
+ * @example
+ * ```ts
+ * // Jest setup file
+ * import { matchers } from 'tryless/matchers';
+ * expect.extend(matchers);
+ *
+ * // In tests
+ * expect(findUser('1')).toBeOkWith({ id: '1', name: 'John' });
+ * expect(findUser('missing')).toBeErrWith('NotFound', 'User not found');
+ * await expect(fetchPrice()).toResolveErr('fetch:*');
+ * ```
+ */
+export const matchers = {
+  toBeOk(this: IMatcherContext, received: unknown): IMatcherResult {
+    return outcome(this, isResultLike(received) && received.success === true, 'Ok', received);
+  },
+
+  toBeOkWith(this: IMatcherContext, received: unknown, data: unknown): IMatcherResult {
+    const pass = isResultLike(received) && received.success === true && this.equals(received.data, data);
+    return outcome(this, pass, `Ok(${this.utils.stringify(data)})`, received);
+  },
+
+  toBeErr(this: IMatcherContext, received: unknown, error?: string): IMatcherResult {
+    const pass = isResultLike(received) && received.success === false
+      && (error === undefined || matchesErrName(String(received.error), error));
+    return outcome(this, pass, error === undefined ? 'Err' : `Err(${error})`, received);
+  },
+
+  toBeErrWith(this: IMatcherContext, received: unknown, error: string, reason: unknown): IMatcherResult {
+    const pass = isResultLike(received) && received.success === false
+      && matchesErrName(String(received.error), error) && this.equals(received.reason, reason);
+    return outcome(this, pass, `Err(${error}, ${this.utils.stringify(reason)})`, received);
+  },
+
+  async toResolveOk(this: IMatcherContext, received: unknown): Promise<IMatcherResult> {
+    return matchers.toBeOk.call(this, await received);
+  },
+
+  async toResolveOkWith(this: IMatcherContext, received: unknown, data: unknown): Promise<IMatcherResult> {
+    return matchers.toBeOkWith.call(this, await received, data);
+  },
+
+  async toResolveErr(this: IMatcherContext, received: unknown, error?: string): Promise<IMatcherResult> {
+    return matchers.toBeErr.call(this, await received, error);
+  },
+
+  async toResolveErrWith(this: IMatcherContext, received: unknown, error: string, reason: unknown): Promise<IMatcherResult> {
+    return matchers.toBeErrWith.call(this, await received, error, reason);
+  },
+};
@@ -0,0 +1,12 @@
+import { expect } from 'vitest';
+import { matchers, type IResultMatchers } from './index';
+
+expect.extend(matchers);
+
+declare module 'vitest' {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  interface Matchers<T = any> extends IResultMatchers<T> {}
+}
+
+export { matchers };
+export type { IResultMatchers };
@@ -0,0 +1,458 @@
+import type { IUnknownOption } from './types';
+import { UnwrapError } from '../unwrap-error';
+import { Err, Ok } from '../result/classes';
+import { NoneErrorName } from './constants';
+
+/**
+ * Abstract base class for option types (Some and None).
+ * Provides a common interface for present and missing values with type-safe operations.
+ *
+ * @template T - Boolean literal type indicating presence (true) or absence (false) of a value
+ */
+export abstract class Option<T extends true | false> {
+  public some: T;
+
+  constructor(some: T) {
+    this.some = some;
+  }
+
+  /**
+   * Unwraps the option, returning the value or throwing if there is none.
+   *
+   * @param customError - Optional custom error message
+   * @returns The value if Some
+   * @throws {UnwrapError} If the option is None
+   */
+  public abstract unwrap(customError?: string): this extends { value: infer U } ? U : never;
+
+  /**
+   * Returns the value if Some, otherwise returns the default value.
+   *
+   * @template U - Type of the default value
+   * @param defaultValue - Value to return if None
+   * @returns The value or default value
+   */
+  public abstract unwrapOr<U>(defaultValue: U): this extends { value: infer J } ? J : U;
+
+  /**
+   * Returns the value if Some, otherwise computes a default value.
+   *
+   * @template U - Type of the computed value
+   * @param defaultValue - Function to compute the default value
+   * @returns The value or computed value
+   */
+  public abstract unwrapOrElse<U>(defaultValue: () => U): this extends { value: infer J } ? J : U;
+
+  /**
+   * Returns the given option if this is Some, otherwise returns this None.
+   *
+   * @template O - Type of the option to return
+   * @param option - Option to return if Some
+   * @returns The given option or this None
+   */
+  public abstract and<O extends IUnknownOption>(option: O): this extends { some: true } ? O : this;
+
+  /**
+   * Chains an operation on the value if Some.
+   *
+   * @template O - Type of the option returned by the function
+   * @param fn - Function to apply to the value
+   * @returns The option returned by the function or this None
+   */
+  public abstract andThen<O extends IUnknownOption>(fn: (value: this extends { value: infer J } ? J : never) => O): this extends { value: unknown } ? O : this;
+
+  /**
+   * Returns this option if Some, otherwise returns the given option.
+   *
+   * @template O - Type of the alternative option
+   * @param option - Option to return if None
+   * @returns This Some or the alternative option
+   */
+  public abstract or<O extends IUnknownOption>(option: O): this extends { some: false } ? O : this;
+
+  /**
+   * Returns this option if Some, otherwise computes an alternative option.
+   *
+   * @template O - Type of the alternative option
+   * @param fn - Function returning the alternative option
+   * @returns This Some or the alternative option
+   */
+  public abstract orElse<O extends IUnknownOption>(fn: () => O): this extends { some: false } ? O : this;
+
+  /**
+   * Applies a transformation function to the option.
+   *
+   * @template U - Return type of the transformation
+   * @param fn - Function to transform the option
+   * @returns The transformed value
+   */
+  public abstract map<U>(fn: (option: this) => U): U;
+
+  /**
+   * Transforms the value if Some, leaving None untouched.
+   *
+   * @template U - Type of the transformed value
+   * @param fn - Function to transform the value
+   * @returns A new Some with the transformed value, or this None
+   */
+  public abstract mapValue<U>(fn: (value: this extends { value: infer J } ? J : never) => U): this extends { value: unknown } ? Some<U> : this;
+
+  /**
+   * Keeps the value only if it matches the predicate.
+   *
+   * @param predicate - Function deciding whether the value is kept
+   * @returns This Some if the predicate passes, otherwise None
+   */
+  public abstract filter(predicate: (value: this extends { value: infer J } ? J : never) => boolean): this extends { value: unknown } ? this | None : this;
+
+  /**
+   * Converts the option into a result, using the given error when there is no value.
+   *
+   * @template E - String literal type for the error identifier
+   * @template R - Type of the error reason
+   * @param error - The error identifier used if None
+   * @param reason - Optional reason used if None
+   * @returns Ok with the value if Some, otherwise the error
+   */
+  public abstract okOr<E extends string, R = undefined>(error: E, reason?: R): this extends { value: infer J } ? Ok<J> : Err<E, R>;
+
+  /**
+   * Checks if this option holds a value.
+   *
+   * @returns True if Some, false otherwise
+   */
+  public isSome(): this extends { some: true } ? true : false {
+    return (this.some === true) as this extends { some: true } ? true : false;
+  }
+
+  /**
+   * Checks if this option holds no value.
+   *
+   * @returns True if None, false otherwise
+   */
+  public isNone(): this extends { some: false } ? true : false {
+    return (this.some === false) as this extends { some: false } ? true : false;
+  }
+
+  /**
+   * Converts the option to a string representation.
+   *
+   * @returns String representation of the option
+   */
+  public abstract toString(): string;
+}
+
+/**
+ * Represents an option holding a value.
+ *
+ * @template T - Type of the value
+ *
+ * @example
+ * ```ts
+ * import { some } from 'tryless';
+ * const option = some(42);
+ * // option.some === true
+ * // option.value === 42
+ * ```
+ */
+export class Some<T> extends Option<true> {
+  public value: T;
+
+  /**
+   * Creates a new Some instance.
+   *
+   * @param value - The value to wrap
+   */
+  constructor(value: T) {
+    super(true);
+
+    this.value = value;
+  }
+
+  /**
+   * Returns the wrapped value.
+   *
+   * @returns The value held by this option
+   */
+  public unwrap(): this extends { value: infer J } ? J : never {
+    return this.value as unknown as this extends { value: infer J } ? J : never;
+  }
+
+  /**
+   * Returns the wrapped value.
+   * The default value is ignored for Some options.
+   *
+   * @template U - Type of the default value (unused)
+   * @returns The value held by this option
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public unwrapOr<U>(_defaultValue: U): this extends { value: infer J } ? J : U {
+    return this.value as unknown as this extends { value: infer J } ? J : U;
+  }
+
+  /**
+   * Returns the wrapped value.
+   * The default value function is not called for Some options.
+   *
+   * @template U - Type of the computed value (unused)
+   * @returns The value held by this option
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public unwrapOrElse<U>(_defaultValue: () => U): this extends { value: infer J } ? J : U {
+    return this.value as unknown as this extends { value: infer J } ? J : U;
+  }
+
+  /**
+   * Returns the given option because this option holds a value.
+   *
+   * @template O - Type of the option to return
+   * @param option - Option to return
+   * @returns The given option
+   */
+  public and<O extends IUnknownOption>(option: O): this extends { some: true } ? O : this {
+    return option as this extends { some: true } ? O : this;
+  }
+
+  /**
+   * Applies the function to the wrapped value.
+   *
+   * @template O - Type of the option returned by the function
+   * @param fn - Function to apply to the value
+   * @returns Option from the function
+   */
+  public andThen<O extends IUnknownOption>(fn: (value: this extends { value: infer J } ? J : never) => O): this extends { value: unknown } ? O : this {
+    return fn(this.value as this extends { value: infer J } ? J : never) as this extends { value: unknown } ? O : this;
+  }
+
+  /**
+   * Returns this option because it already holds a value.
+   *
+   * @template O - Type of the alternative option (unused)
+   * @returns This option
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public or<O extends IUnknownOption>(_option: O): this extends { some: false } ? O : this {
+    return this as this extends { some: false } ? O : this;
+  }
+
+  /**
+   * Returns this option because it already holds a value.
+   * The alternative function is not called.
+   *
+   * @template O - Type of the alternative option (unused)
+   * @returns This option
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public orElse<O extends IUnknownOption>(_fn: () => O): this extends { some: false } ? O : this {
+    return this as this extends { some: false } ? O : this;
+  }
+
+  /**
+   * Applies a transformation function to this option.
+   *
+   * @template U - Return type of the transformation
+   * @param fn - Function to transform the option
+   * @returns The transformed value
+   */
+  public map<U>(fn: (option: this) => U): U {
+    return fn(this);
+  }
+
+  /**
+   * Applies the function to the wrapped value and wraps the outcome in a new Some.
+   *
+   * @template U - Type of the transformed value
+   * @param fn - Function to transform the value
+   * @returns A new Some holding the transformed value
+   */
+  public mapValue<U>(fn: (value: this extends { value: infer J } ? J : never) => U): this extends { value: unknown } ? Some<U> : this {
+    return new Some(fn(this.value as this extends { value: infer J } ? J : never)) as this extends { value: unknown } ? Some<U> : this;
+  }
+
+  /**
+   * Keeps this option if its value matches the predicate.
+   *
+   * @param predicate - Function deciding whether the value is kept
+   * @returns This option if the predicate passes, otherwise None
+   */
+  public filter(predicate: (value: this extends { value: infer J } ? J : never) => boolean): this extends { value: unknown } ? this | None : this {
+    return (predicate(this.value as this extends { value: infer J } ? J : never) ? this : new None()) as this extends { value: unknown } ? this | None : this;
+  }
+
+  /**
+   * Converts this option into a success result holding its value.
+   *
+   * @template E - Type of the error identifier (unused)
+   * @template R - Type of the error reason (unused)
+   * @returns Ok holding the value
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public okOr<E extends string, R = undefined>(_error: E, _reason?: R): this extends { value: infer J } ? Ok<J> : Err<E, R> {
+    return new Ok(this.value) as this extends { value: infer J } ? Ok<J> : Err<E, R>;
+  }
+
+  /**
+   * Returns a string representation of this option.
+   *
+   * @returns String in format "Some<value>"
+   */
+  public toString(): string {
+    return `Some<${this.value}>`;
+  }
+}
+
+/**
+ * Represents an option without a value.
+ *
+ * @example
+ * ```ts
+ * import { none } from 'tryless';
+ * const option = none();
+ * // option.some === false
+ * ```
+ */
+export class None extends Option<false> {
+  /**
+   * Creates a new None instance.
+   */
+  constructor() {
+    super(false);
+  }
+
+  /**
+   * Attempts to unwrap the option, but always throws because there is no value.
+   *
+   * @param customError - Optional custom error message
+   * @throws {UnwrapError} Always throws because None holds no value
+   */
+  public unwrap(customError?: string): this extends { value: infer U } ? U : never {
+    throw new UnwrapError({ success: false, error: NoneErrorName, reason: undefined }, this.unwrap as (...args: unknown[]) => unknown, `Could not unwrap none`, customError);
+  }
+
+  /**
+   * Returns the default value because there is no value.
+   *
+   * @template U - Type of the default value
+   * @param defaultValue - Value to return
+   * @returns The default value
+   */
+  public unwrapOr<U>(defaultValue: U): this extends { value: infer J } ? J : U {
+    return defaultValue as this extends { value: infer J } ? J : U;
+  }
+
+  /**
+   * Computes and returns a default value because there is no value.
+   *
+   * @template U - Type of the computed value
+   * @param defaultValue - Function to compute the default value
+   * @returns The computed default value
+   */
+  public unwrapOrElse<U>(defaultValue: () => U): this extends { value: infer J } ? J : U {
+    return defaultValue() as this extends { value: infer J } ? J : U;
+  }
+
+  /**
+   * Returns this None because there is no value.
+   * The given option is ignored.
+   *
+   * @template O - Type of the option (unused)
+   * @returns This None
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public and<O extends IUnknownOption>(_option: O): this extends { some: true } ? O : this {
+    return this as this extends { some: true } ? O : this;
+  }
+
+  /**
+   * Returns this None without calling the function.
+   *
+   * @template O - Type of the option returned by the function (unused)
+   * @returns This None
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public andThen<O extends IUnknownOption>(_fn: (value: this extends { value: infer J } ? J : never) => O): this extends { value: unknown } ? O : this {
+    return this as this extends { value: unknown } ? O : this;
+  }
+
+  /**
+   * Returns the alternative option because there is no value.
+   *
+   * @template O - Type of the alternative option
+   * @param option - Option to return
+   * @returns The alternative option
+   */
+  public or<O extends IUnknownOption>(option: O): this extends { some: false } ? O : this {
+    return option as this extends { some: false } ? O : this;
+  }
+
+  /**
+   * Computes the alternative option because there is no value.
+   *
+   * @template O - Type of the alternative option
+   * @param fn - Function returning the alternative option
+   * @returns The alternative option
+   */
+  public orElse<O extends IUnknownOption>(fn: () => O): this extends { some: false } ? O : this {
+    return fn() as this extends { some: false } ? O : this;
+  }
+
+  /**
+   * Applies a transformation function to this option.
+   *
+   * @template U - Return type of the transformation
+   * @param fn - Function to transform the option
+   * @returns The transformed value
+   */
+  public map<U>(fn: (option: this) => U): U {
+    return fn(this);
+  }
+
+  /**
+   * Returns this None because there is no value to transform.
+   *
+   * @template U - Type of the transformed value (unused)
+   * @returns This None
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public mapValue<U>(_fn: (value: this extends { value: infer J } ? J : never) => U): this extends { value: unknown } ? Some<U> : this {
+    return this as this extends { value: unknown } ? Some<U> : this;
+  }
+
+  /**
+   * Returns this None because there is no value to test.
+   *
+   * @returns This None
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public filter(_predicate: (value: this extends { value: infer J } ? J : never) => boolean): this extends { value: unknown } ? this | None : this {
+    return this as this extends { value: unknown } ? this | None : this;
+  }
+
+  /**
+   * Converts this option into an error result because there is no value.
+   *
+   * @template E - String literal type for the error identifier
+   * @template R - Type of the error reason
+   * @param error - The error identifier
+   * @param reason - Optional reason of the error
+   * @returns Err with the given error and reason
+   *
+   * @example
+   * ```ts
+   * const user = findUser(id).okOr('NotFound', `User ${id} not found`);
+   * // Ok<User> | Err<'NotFound', string>
+   * ```
+   */
+  public okOr<E extends string, R = undefined>(error: E, reason?: R): this extends { value: infer J } ? Ok<J> : Err<E, R> {
+    return new Err(error, reason as R, this.okOr as (...args: unknown[]) => unknown) as this extends { value: infer J } ? Ok<J> : Err<E, R>;
+  }
+
+  /**
+   * Returns a string representation of this option.
+   *
+   * @returns The string "None"
+   */
+  public toString(): string {
+    return 'None';
+  }
+}
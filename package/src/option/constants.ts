@@ -0,0 +1,12 @@
+/**
+ * Constant representing the error type of a missing value.
+ * Used by `UnwrapError` when unwrapping a `None`.
+ *
+ * @example
+ * ```ts
+ * import { none } from 'tryless';
+ * none().unwrap();
+ * // throws UnwrapError { error: 'none' }
+ * ```
+ */
+export const NoneErrorName = "none" as const;
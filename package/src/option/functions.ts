@@ -0,0 +1,35 @@
+import { None, Some } from './classes';
+
+/**
+ * Creates an option holding a value.
+ *
+ * @template T - Type of the value to wrap
+ * @param value - The value to wrap
+ * @returns A Some holding the value
+ *
+ * @example
+ * ```ts
+ * import { some } from 'tryless';
+ * const option = some(42);
+ * // { some: true, value: 42 }
+ * ```
+ */
+export function some<T>(value: T): Some<T> {
+  return new Some(value);
+}
+
+/**
+ * Creates an option without a value.
+ *
+ * @returns A None
+ *
+ * @example
+ * ```ts
+ * import { none } from 'tryless';
+ * const option = none();
+ * // { some: false }
+ * ```
+ */
+export function none(): None {
+  return new None();
+}
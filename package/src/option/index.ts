@@ -0,0 +1,4 @@
+export * from './constants';
+export * from './types';
+export * from './classes';
+export * from './functions';
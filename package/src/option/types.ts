@@ -0,0 +1,61 @@
+import type { None, Some } from './classes';
+import type { NoneErrorName } from './constants';
+
+/**
+ * Type alias for the {@link NoneErrorName} constant.
+ * Represents the string literal type "none".
+ */
+export type INoneError = typeof NoneErrorName;
+
+/**
+ * Type representing a generic option with an unknown value.
+ * Used internally for type-safe option handling when the value type is not specified.
+ *
+ * @property some - True when a value is present
+ * @property value - The value, only present when `some` is true
+ */
+export type IUnknownOption = { some: true; value: unknown } | { some: false };
+
+/**
+ * Represents a value that may be missing: either `Some` value or `None`.
+ * Use it instead of an error result when the absence of a value is not a failure.
+ *
+ * @template T - The type of the value wrapped by Some
+ *
+ * @example
+ * ```ts
+ * function findUser(id: string): IOption<User> {
+ *   const user = users.get(id);
+ *   return user ? some(user) : none();
+ * }
+ * ```
+ */
+export type IOption<T> = Some<T> | None;
+
+/**
+ * Extracts the Some type from an Option type.
+ * If the type is not a Some, returns never.
+ *
+ * @template T - The Option type to extract from
+ *
+ * @example
+ * ```ts
+ * type UserSome = ISomeOf<IOption<User>>;
+ * // Result: Some<User>
+ * ```
+ */
+export type ISomeOf<T> = T extends Some<infer U> ? Some<U> : never;
+
+/**
+ * Extracts the value type from a Some type.
+ * If the type is not a Some, returns never.
+ *
+ * @template T - The Option type to extract the value from
+ *
+ * @example
+ * ```ts
+ * type User = ISomeValueOf<IOption<User>>;
+ * // Result: User
+ * ```
+ */
+export type ISomeValueOf<T> = T extends Some<infer U> ? U : never;
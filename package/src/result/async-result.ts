@@ -0,0 +1,636 @@
+import { Err, Ok, Result } from './classes';
+import { UnwrapError } from '../unwrap-error';
+import { AbortedErrorName, TapErrorName } from './constants';
+import { runTasks } from './concurrency';
+import { match } from './match';
+import { matchesErrName } from './names';
+import { toResult } from './structural';
+import type {
+  IMatchCases,
+  IMatchResult,
+  IMatchStrictCases,
+  IResult,
+  IResultFrom,
+  IUnknownErr,
+  IUnknownOkErr,
+  IAbortedError,
+  IErrNameMatchOf,
+  IPrefixedErrOf,
+  ITapErrOf,
+  ITapOptions,
+  IAllResult,
+  IAnyResult,
+  IAsyncTasksOf,
+  ICollectResult,
+  IConcurrencyOptions,
+  IPartitionResult,
+  ITaskResultsOf,
+} from './types';
+
+/**
+ * Error union resolved by an AsyncResult with data `T` and error specification `E`.
+ */
+type IAsyncErrOf<T, E extends IUnknownErr | { [key: string]: unknown }> = Extract<IResult<T, E>, { success: false }>;
+
+/**
+ * Data type of the success members of a result union.
+ */
+type IResultDataOf<R> = R extends { success: true; data: infer D } ? D : never;
+
+/**
+ * Error members of a result union, as upgraded by {@link from}.
+ */
+type IResultErrOf<R> = Extract<IResultFrom<R>, { success: false }>;
+
+/**
+ * AsyncResult resolving to the result union `R`.
+ */
+type IAsyncResultOf<R> = AsyncResult<IResultDataOf<R>, IResultErrOf<R>>;
+
+/**
+ * Aborted error added to the results of the AsyncResult combinators when an external signal is given.
+ */
+type IAbortedErrOf<O> = O extends { signal: AbortSignal } ? Err<IAbortedError, unknown> : never;
+
+/**
+ * Renames every error of a union, keeping each reason and cause.
+ */
+type IRenamedErrOf<R, F extends string> = R extends { success: false; reason: infer J; cause?: infer C } ? Err<F, J, C> : never;
+
+/**
+ * Replaces the reason of every error of a union, keeping each error name and cause.
+ */
+type IReasonedErrOf<R, U> = R extends { success: false; error: infer J extends string; cause?: infer C } ? Err<J, U, C> : never;
+
+/**
+ * Checks if a value is a promise-like, i.e. has a `then` method.
+ *
+ * @param value - Value to check
+ * @returns True if the value is a promise-like
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return value !== null && typeof value === 'object' && typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
+/**
+ * A chainable wrapper around a promise of a result.
+ * Offers the same operations as {@link Result}, accepting both sync and async continuations,
+ * so asynchronous pipelines can be written as a single chain without awaiting every step.
+ *
+ * AsyncResult is a Promise: it can be awaited, returned from async functions
+ * and passed anywhere a `Promise<Ok<T> | Err<...>>` is expected.
+ *
+ * @template T - Type of the data contained in the success result
+ * @template E - The error specification, same as {@link IResult}
+ *
+ * @example
+ * ```ts
+ * import { AsyncResult, ok, err, resultfy } from 'tryless';
+ *
+ * const price = await resultfy(fetch(apiURL), 'fetch:fetch-error')
+ *   .andThen((response) => response.ok ? ok(response) : err('http-error', response.status))
+ *   .andThen((response) => resultfy(response.json(), 'invalid-json'))
+ *   .mapData((json) => json.btc.usd)
+ *   .unwrapOr(0);
+ * ```
+ */
+export class AsyncResult<T, E extends IUnknownErr | { [key: string]: unknown }> implements Promise<IResult<T, E>> {
+  private readonly promise: Promise<IResult<T, E>>;
+
+  /**
+   * Creates a new AsyncResult instance.
+   * Plain results and results of another copy of tryless are upgraded to `Ok`/`Err` when they resolve.
+   *
+   * @param result - A result, or a promise-like that resolves to a result
+   */
+  constructor(result: IResult<T, E> | PromiseLike<IResult<T, E>>) {
+    this.promise = isPromiseLike(result)
+      ? Promise.resolve(result).then((value) => toResult(value) as IResult<T, E>)
+      : Promise.resolve(toResult(result) as IResult<T, E>);
+  }
+
+  /**
+   * Creates an AsyncResult from a result or a promise of a result,
+   * inferring the data and error types from the result union.
+   *
+   * @template R - Type of the result to wrap
+   * @param result - A result, or a promise-like that resolves to a result
+   * @returns AsyncResult resolving to the given result
+   *
+   * @example
+   * ```ts
+   * import { AsyncResult } from 'tryless';
+   *
+   * const user = AsyncResult.from(findUser(id)) // Promise<Ok<User> | Err<'NotFound', string>>
+   *   .andThen((user) => loadProfile(user.id));
+   * ```
+   */
+  public static from<R extends IUnknownOkErr>(result: R | PromiseLike<R>): AsyncResult<IResultDataOf<R>, IResultErrOf<R>> {
+    return new AsyncResult(result as PromiseLike<IResult<IResultDataOf<R>, IResultErrOf<R>>>);
+  }
+
+  /**
+   * Runs a collection of tasks with a maximum concurrency and combines their results like {@link Result.all}.
+   * On the first error, stops scheduling tasks, aborts the signal given to in-flight tasks and resolves to that error.
+   * Resolves to an `'aborted'` error when the external signal is aborted.
+   *
+   * @template T - The collection of tasks
+   * @template O - Type of the options, adding the `'aborted'` error when a signal is given
+   * @param tasks - Array, tuple, object or iterable of functions returning a result or a promise of a result
+   * @param options - Maximum concurrency and external signal
+   * @returns AsyncResult of every data, keeping the tasks shape, or the first error
+   *
+   * @example
+   * ```ts
+   * import { AsyncResult } from 'tryless';
+   *
+   * const imported = await AsyncResult.all(
+   *   records.map((record) => (signal) => importRecord(record, { signal })),
+   *   { concurrency: 10 }
+   * );
+   * ```
+   */
+  public static all<const T extends IAsyncTasksOf, const O extends IConcurrencyOptions = IConcurrencyOptions>(
+    tasks: T,
+    options?: O,
+  ): IAsyncResultOf<IAllResult<ITaskResultsOf<T>> | IAbortedErrOf<O>> {
+    return new AsyncResult(runTasks(tasks, options ?? {}, (result) => !result.success).then((outcome) => {
+      if (outcome.aborted) {
+        return new Err(AbortedErrorName, outcome.abortReason, AsyncResult.all as (...args: unknown[]) => unknown);
+      }
+
+      return outcome.stoppedBy ?? Result.all(outcome.results);
+    }) as PromiseLike<IResult<IResultDataOf<IAllResult<ITaskResultsOf<T>>>, IResultErrOf<IAllResult<ITaskResultsOf<T>> | IAbortedErrOf<O>>>>);
+  }
+
+  /**
+   * Runs a collection of tasks with a maximum concurrency and combines their results like {@link Result.collect},
+   * running every task and gathering every error into an `'aggregate'` error.
+   * Resolves to an `'aborted'` error when the external signal is aborted.
+   *
+   * @template T - The collection of tasks
+   * @template O - Type of the options, adding the `'aborted'` error when a signal is given
+   * @param tasks - Array, tuple, object or iterable of functions returning a result or a promise of a result
+   * @param options - Maximum concurrency and external signal
+   * @returns AsyncResult of every data, keeping the tasks shape, or an aggregate error with every error
+   */
+  public static collect<const T extends IAsyncTasksOf, const O extends IConcurrencyOptions = IConcurrencyOptions>(
+    tasks: T,
+    options?: O,
+  ): IAsyncResultOf<ICollectResult<ITaskResultsOf<T>> | IAbortedErrOf<O>> {
+    return new AsyncResult(runTasks(tasks, options ?? {}, () => false).then((outcome) => {
+      if (outcome.aborted) {
+        return new Err(AbortedErrorName, outcome.abortReason, AsyncResult.collect as (...args: unknown[]) => unknown);
+      }
+
+      return Result.collect(outcome.results);
+    }) as PromiseLike<IResult<IResultDataOf<ICollectResult<ITaskResultsOf<T>>>, IResultErrOf<ICollectResult<ITaskResultsOf<T>> | IAbortedErrOf<O>>>>);
+  }
+
+  /**
+   * Runs a collection of tasks with a maximum concurrency and resolves like {@link Result.any}.
+   * On the first success, stops scheduling tasks, aborts the signal given to in-flight tasks and resolves to its data.
+   * If every task fails, resolves to an `'aggregate'` error holding every error.
+   * Resolves to an `'aborted'` error when the external signal is aborted.
+   *
+   * @template T - The collection of tasks
+   * @template O - Type of the options, adding the `'aborted'` error when a signal is given
+   * @param tasks - Array, tuple, object or iterable of functions returning a result or a promise of a result
+   * @param options - Maximum concurrency and external signal
+   * @returns AsyncResult of the first data, or an aggregate error with every error
+   */
+  public static any<const T extends IAsyncTasksOf, const O extends IConcurrencyOptions = IConcurrencyOptions>(
+    tasks: T,
+    options?: O,
+  ): IAsyncResultOf<IAnyResult<ITaskResultsOf<T>> | IAbortedErrOf<O>> {
+    return new AsyncResult(runTasks(tasks, options ?? {}, (result) => result.success).then((outcome) => {
+      if (outcome.aborted) {
+        return new Err(AbortedErrorName, outcome.abortReason, AsyncResult.any as (...args: unknown[]) => unknown);
+      }
+
+      return outcome.stoppedBy ? new Ok((outcome.stoppedBy as Ok<unknown>).data) : Result.any(outcome.results);
+    }) as PromiseLike<IResult<IResultDataOf<IAnyResult<ITaskResultsOf<T>>>, IResultErrOf<IAnyResult<ITaskResultsOf<T>> | IAbortedErrOf<O>>>>);
+  }
+
+  /**
+   * Runs a collection of tasks with a maximum concurrency and splits their results like {@link Result.partition}.
+   * When the external signal is aborted, only the tasks completed so far are included.
+   *
+   * @template T - The collection of tasks
+   * @param tasks - Array, tuple, object or iterable of functions returning a result or a promise of a result
+   * @param options - Maximum concurrency and external signal
+   * @returns Promise of a pair of successes data and errors
+   */
+  public static partition<const T extends IAsyncTasksOf>(tasks: T, options: IConcurrencyOptions = {}): Promise<IPartitionResult<ITaskResultsOf<T>>> {
+    return runTasks(tasks, options, () => false).then((outcome) => Result.partition(outcome.results) as IPartitionResult<ITaskResultsOf<T>>);
+  }
+
+  public get [Symbol.toStringTag](): string {
+    return 'AsyncResult';
+  }
+
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the wrapped result.
+   *
+   * @param onfulfilled - Callback executed with the resolved result
+   * @param onrejected - Callback executed when a continuation throws or rejects
+   * @returns A promise for the completion of whichever callback is executed
+   */
+  public then<A = IResult<T, E>, B = never>(
+    onfulfilled?: ((value: IResult<T, E>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Attaches a callback for the rejection of the wrapped result.
+   * Rejections only happen when a continuation throws or rejects.
+   *
+   * @param onrejected - Callback executed when a continuation throws or rejects
+   * @returns A promise for the completion of the callback
+   */
+  public catch<B = never>(onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null): Promise<IResult<T, E> | B> {
+    return this.promise.catch(onrejected);
+  }
+
+  /**
+   * Attaches a callback that is invoked when the wrapped result is settled.
+   *
+   * @param onfinally - Callback executed when the wrapped result is settled
+   * @returns A promise that resolves to the wrapped result
+   */
+  public finally(onfinally?: (() => void) | null): Promise<IResult<T, E>> {
+    return this.promise.finally(onfinally);
+  }
+
+  /**
+   * Resolves to the data if successful, or rejects with an UnwrapError if failed.
+   *
+   * @param customError - Optional custom error message
+   * @returns Promise of the data contained in a success result
+   */
+  public unwrap(customError?: string): Promise<T> {
+    return this.promise.then((result) => {
+      if (result.success) {
+        return result.data;
+      }
+
+      throw new UnwrapError(result, this.unwrap as (...args: unknown[]) => unknown, `Could not unwrap error`, customError);
+    });
+  }
+
+  /**
+   * Resolves to the data if successful, or to a default value if failed.
+   *
+   * @template U - Type of the default value
+   * @param defaultValue - Value to resolve to if result is an error
+   * @returns Promise of the data or the default value
+   */
+  public unwrapOr<U>(defaultValue: U): Promise<T | U> {
+    return this.promise.then((result) => result.success ? result.data : defaultValue);
+  }
+
+  /**
+   * Resolves to the data if successful, or computes a default value from the error if failed.
+   *
+   * @template U - Type of the computed default value
+   * @param defaultValue - Sync or async function that computes the default value from the error result
+   * @returns Promise of the data or the computed default value
+   */
+  public unwrapOrElse<U>(defaultValue: (result: IAsyncErrOf<T, E>) => U | PromiseLike<U>): Promise<T | U> {
+    return this.promise.then((result) => result.success ? result.data : defaultValue(result as IAsyncErrOf<T, E>));
+  }
+
+  /**
+   * Resolves to the error result if failed, or rejects with an UnwrapError if successful.
+   *
+   * @param customError - Optional custom error message
+   * @returns Promise of the error result
+   */
+  public unwrapErr(customError?: string): Promise<IAsyncErrOf<T, E>> {
+    return this.promise.then((result) => {
+      if (!result.success) {
+        return result as IAsyncErrOf<T, E>;
+      }
+
+      throw new UnwrapError(result, this.unwrapErr as (...args: unknown[]) => unknown, `Could not unwrap error`, customError);
+    });
+  }
+
+  /**
+   * Resolves to the error result if failed, or to a default value if successful.
+   *
+   * @template U - Type of the default value
+   * @param defaultValue - Value to resolve to if result is a success
+   * @returns Promise of the error result or the default value
+   */
+  public unwrapErrOr<U>(defaultValue: U): Promise<IAsyncErrOf<T, E> | U> {
+    return this.promise.then((result) => result.success ? defaultValue : result as IAsyncErrOf<T, E>);
+  }
+
+  /**
+   * Resolves to the error result if failed, or computes a default value from the success if successful.
+   *
+   * @template U - Type of the computed default value
+   * @param defaultValue - Sync or async function that computes the default value from the success result
+   * @returns Promise of the error result or the computed default value
+   */
+  public unwrapErrOrElse<U>(defaultValue: (result: Ok<T>) => U | PromiseLike<U>): Promise<IAsyncErrOf<T, E> | U> {
+    return this.promise.then((result) => result.success ? defaultValue(result) : result as IAsyncErrOf<T, E>);
+  }
+
+  /**
+   * Asserts that the result has a specific error type, or an error of a namespace (`'bitcoin:*'`).
+   * Resolves to the error result if it matches, rejects with an UnwrapError otherwise.
+   *
+   * @template K - Expected error name or namespace pattern
+   * @param error - Expected error name or namespace pattern
+   * @param customError - Optional custom error message
+   * @returns Promise of the error result if error matches
+   */
+  public expect<K extends string>(error: K, customError?: string): Promise<Extract<IAsyncErrOf<T, E>, { error: IErrNameMatchOf<K> }>> {
+    return this.promise.then((result) => {
+      if (!result.success && matchesErrName(result.error, error)) {
+        return result as Extract<IAsyncErrOf<T, E>, { error: IErrNameMatchOf<K> }>;
+      }
+
+      const message = result.success ? `Expected error ${error}, but got success` : `Expected error ${error}, but got error ${result.error}`;
+      throw new UnwrapError(result, this.expect as (...args: unknown[]) => unknown, message, customError);
+    });
+  }
+
+  /**
+   * Continues with the given result if this is successful, otherwise keeps this error.
+   *
+   * @template R - Type of the result to continue with
+   * @param result - Result, or promise of a result, to continue with
+   * @returns AsyncResult of the given result or this error
+   */
+  public and<R extends IUnknownOkErr>(result: R | PromiseLike<R>): AsyncResult<IResultDataOf<R>, IAsyncErrOf<T, E> | IResultErrOf<R>> {
+    return new AsyncResult(this.promise.then((current) => current.success ? result : current) as PromiseLike<IResult<IResultDataOf<R>, IAsyncErrOf<T, E> | IResultErrOf<R>>>);
+  }
+
+  /**
+   * Applies a sync or async function to the data if successful, otherwise keeps this error.
+   *
+   * @template R - Type of result returned by the function
+   * @param fn - Function to apply to the data
+   * @returns AsyncResult of the function result or this error
+   */
+  public andThen<R extends IUnknownOkErr>(fn: (data: T) => R | PromiseLike<R>): AsyncResult<IResultDataOf<R>, IAsyncErrOf<T, E> | IResultErrOf<R>> {
+    return new AsyncResult(this.promise.then((current) => current.success ? fn(current.data) : current) as PromiseLike<IResult<IResultDataOf<R>, IAsyncErrOf<T, E> | IResultErrOf<R>>>);
+  }
+
+  /**
+   * Keeps this result if successful, otherwise continues with the given result.
+   *
+   * @template R - Type of the fallback result
+   * @param result - Result, or promise of a result, to continue with if this is an error
+   * @returns AsyncResult of this success or the given result
+   */
+  public or<R extends IUnknownOkErr>(result: R | PromiseLike<R>): AsyncResult<T | IResultDataOf<R>, IResultErrOf<R>> {
+    return new AsyncResult(this.promise.then((current) => current.success ? current : result) as PromiseLike<IResult<T | IResultDataOf<R>, IResultErrOf<R>>>);
+  }
+
+  /**
+   * Keeps this result if successful, otherwise applies a sync or async function to the error.
+   * Allows recovering from errors. When an error name or namespace pattern is given,
+   * only a matching error is recovered and every other error is kept.
+   *
+   * @template R - Type of result returned by the function
+   * @param fn - Function to apply to the error result
+   * @returns AsyncResult of this success or the function result
+   */
+  public orElse<R extends IUnknownOkErr>(fn: (errorResult: IAsyncErrOf<T, E>) => R | PromiseLike<R>): AsyncResult<T | IResultDataOf<R>, IResultErrOf<R>>;
+  public orElse<K extends string, R extends IUnknownOkErr>(
+    error: K,
+    fn: (errorResult: Extract<IAsyncErrOf<T, E>, { error: IErrNameMatchOf<K> }>) => R | PromiseLike<R>,
+  ): AsyncResult<T | IResultDataOf<R>, Exclude<IAsyncErrOf<T, E>, { error: IErrNameMatchOf<K> }> | IResultErrOf<R>>;
+  public orElse(
+    errorOrFn: string | ((errorResult: never) => unknown),
+    fn?: (errorResult: never) => unknown,
+  ): AsyncResult<unknown, IUnknownErr> {
+    const recover = (typeof errorOrFn === 'function' ? errorOrFn : fn) as (errorResult: IUnknownErr) => unknown;
+
+    return new AsyncResult(this.promise.then((current) => {
+      if (current.success || (typeof errorOrFn === 'string' && !matchesErrName(current.error, errorOrFn))) {
+        return current;
+      }
+
+      return recover(current as IUnknownErr);
+    }) as PromiseLike<IResult<unknown, IUnknownErr>>);
+  }
+
+  /**
+   * Applies a sync or async transformation function to the resolved result.
+   *
+   * @template U - Return type of the transformation function
+   * @param fn - Function to transform the result
+   * @returns Promise of the transformed value
+   */
+  public map<U>(fn: (result: IResult<T, E>) => U | PromiseLike<U>): Promise<U> {
+    return this.promise.then(fn);
+  }
+
+  /**
+   * Transforms the data of a success result, leaving error results untouched.
+   *
+   * @template U - Type of the transformed data
+   * @param fn - Sync or async function to transform the data
+   * @returns AsyncResult with the transformed data, or this error
+   */
+  public mapData<U>(fn: (data: T) => U | PromiseLike<U>): AsyncResult<U, IAsyncErrOf<T, E>> {
+    return new AsyncResult(this.promise.then(async (current) => current.success ? new Ok(await fn(current.data)) : current) as PromiseLike<IResult<U, IAsyncErrOf<T, E>>>);
+  }
+
+  /**
+   * Transforms the error identifier of an error result, keeping its reason and cause.
+   *
+   * @template F - String literal type of the new error identifier
+   * @param fn - Function to transform the error identifier
+   * @returns AsyncResult with the transformed error, or this success
+   */
+  public mapErr<F extends string>(fn: (error: IAsyncErrOf<T, E>['error']) => F): AsyncResult<T, IRenamedErrOf<IAsyncErrOf<T, E>, F>> {
+    return new AsyncResult(this.promise.then((current) => current.success ? current : (current as Err<string, unknown>).mapErr(fn)) as PromiseLike<IResult<T, IRenamedErrOf<IAsyncErrOf<T, E>, F>>>);
+  }
+
+  /**
+   * Transforms the reason of an error result, keeping its error identifier and cause.
+   *
+   * @template U - Type of the transformed reason
+   * @param fn - Function to transform the reason
+   * @returns AsyncResult with the transformed reason, or this success
+   */
+  public mapReason<U>(fn: (reason: IAsyncErrOf<T, E>['reason']) => U): AsyncResult<T, IReasonedErrOf<IAsyncErrOf<T, E>, U>> {
+    return new AsyncResult(this.promise.then((current) => current.success ? current : (current as Err<string, unknown>).mapReason(fn)) as PromiseLike<IResult<T, IReasonedErrOf<IAsyncErrOf<T, E>, U>>>);
+  }
+
+  /**
+   * Wraps an error result inside a new error, keeping it as the cause.
+   *
+   * @template F - String literal type of the new error identifier
+   * @template U - Type of the new reason
+   * @param error - The new error identifier
+   * @param reason - Optional reason of the new error
+   * @returns AsyncResult with the new error caused by this error, or this success
+   */
+  public wrapErr<F extends string, U = undefined>(error: F, reason?: U): AsyncResult<T, Err<F, U, IAsyncErrOf<T, E>>> {
+    return new AsyncResult(this.promise.then((current) => current.success ? current : new Err(error, reason as U, undefined, { cause: current })) as PromiseLike<IResult<T, Err<F, U, IAsyncErrOf<T, E>>>>);
+  }
+
+  /**
+   * Runs a sync or async side effect with the data if successful, and keeps this result unchanged.
+   * An async side effect is awaited before the result resolves.
+   *
+   * @template O - Type of the tap options
+   * @param fn - Side effect receiving the data
+   * @param options - Whether exceptions thrown by the side effect propagate (default) or become an `Err<'tap', unknown>`
+   * @returns AsyncResult of this result
+   */
+  public tap<O extends ITapOptions = ITapOptions>(fn: (data: T) => unknown, options?: O): AsyncResult<T, IAsyncErrOf<T, E> | ITapErrOf<O>> {
+    const promise = this.tapWhen((current) => current.success, (current) => fn((current as Ok<T>).data), options, this.tap);
+
+    return new AsyncResult(promise as PromiseLike<IResult<T, IAsyncErrOf<T, E> | ITapErrOf<O>>>);
+  }
+
+  /**
+   * Runs a sync or async side effect with the error result if failed, and keeps this result unchanged.
+   * An async side effect is awaited before the result resolves.
+   *
+   * @template O - Type of the tap options
+   * @param fn - Side effect receiving the error result
+   * @param options - Whether exceptions thrown by the side effect propagate (default) or become an `Err<'tap', unknown>`
+   * @returns AsyncResult of this result
+   */
+  public tapErr<O extends ITapOptions = ITapOptions>(fn: (errorResult: IAsyncErrOf<T, E>) => unknown, options?: O): AsyncResult<T, IAsyncErrOf<T, E> | ITapErrOf<O>>;
+
+  /**
+   * Runs a sync or async side effect with the error result if its error matches an error name or a namespace pattern,
+   * and keeps this result unchanged. An async side effect is awaited before the result resolves.
+   *
+   * @template K - Error name or namespace pattern to tap
+   * @template O - Type of the tap options
+   * @param error - Error name or namespace pattern to tap
+   * @param fn - Side effect receiving the matching error result
+   * @param options - Whether exceptions thrown by the side effect propagate (default) or become an `Err<'tap', unknown>`
+   * @returns AsyncResult of this result
+   */
+  public tapErr<K extends string, O extends ITapOptions = ITapOptions>(
+    error: K,
+    fn: (errorResult: Extract<IAsyncErrOf<T, E>, { error: IErrNameMatchOf<K> }>) => unknown,
+    options?: O,
+  ): AsyncResult<T, IAsyncErrOf<T, E> | ITapErrOf<O>>;
+  public tapErr(
+    errorOrFn: string | ((errorResult: never) => unknown),
+    fnOrOptions?: ((errorResult: never) => unknown) | ITapOptions,
+    options?: ITapOptions,
+  ): unknown {
+    const named = typeof errorOrFn === 'string';
+    const fn = (named ? fnOrOptions : errorOrFn) as (errorResult: IUnknownErr) => unknown;
+
+    const promise = this.tapWhen(
+      (current) => !current.success && (!named || matchesErrName(current.error, errorOrFn)),
+      (current) => fn(current as IUnknownErr),
+      named ? options : fnOrOptions as ITapOptions | undefined,
+      this.tapErr,
+    );
+
+    return new AsyncResult(promise as PromiseLike<IResult<unknown, IUnknownErr>>);
+  }
+
+  /**
+   * Prefixes the name of an error result with a namespace, keeping its reason, cause and stack trace.
+   *
+   * @template P - String literal type of the namespace
+   * @param namespace - The namespace to add, without the trailing `:`
+   * @returns AsyncResult with the prefixed error, or this success
+   */
+  public prefixErr<P extends string>(namespace: P): AsyncResult<T, IPrefixedErrOf<IAsyncErrOf<T, E>, P>> {
+    return new AsyncResult(this.promise.then((current) => current.success ? current : (current as Err<string, unknown>).prefixErr(namespace)) as PromiseLike<IResult<T, IPrefixedErrOf<IAsyncErrOf<T, E>, P>>>);
+  }
+
+  /**
+   * Branches on the resolved result, calling the handler matching its outcome.
+   * Handlers keyed by a namespace pattern (`'bitcoin:*'`) receive every error of the namespace not handled by name.
+   * Fails to type-check when an error name is not handled, unless a `_` fallback is given.
+   *
+   * @template H - Type of the handlers object
+   * @param cases - Handlers keyed by `ok`, error names, namespace patterns and optionally `_`
+   * @returns Promise of the value returned by the matching handler
+   */
+  public match<H extends IMatchCases<IResult<T, E>>>(cases: IMatchStrictCases<IResult<T, E>, H>): Promise<Awaited<IMatchResult<H>>> {
+    return this.promise.then((result) => match(result, cases) as Awaited<IMatchResult<H>>);
+  }
+
+  /**
+   * Makes the async result async-iterable so it can be delegated to with `yield*` inside an async {@link gen}.
+   * A success returns its data without yielding, an error yields itself to short-circuit the generator.
+   * The generator is never resumed by {@link gen} after yielding an error.
+   *
+   * @returns Async generator that yields the error or returns the data
+   */
+  public async *[Symbol.asyncIterator](): AsyncGenerator<IAsyncErrOf<T, E>, T, unknown> {
+    const result = await this.promise;
+
+    if (result.success) {
+      return result.data;
+    }
+
+    yield result as IAsyncErrOf<T, E>;
+
+    return undefined as T;
+  }
+
+  /**
+   * Checks if the resolved result represents a success.
+   *
+   * @returns Promise of true if successful, false otherwise
+   */
+  public isOk(): Promise<boolean> {
+    return this.promise.then((result) => result.success);
+  }
+
+  /**
+   * Checks if the resolved result represents an error.
+   *
+   * @returns Promise of true if error, false otherwise
+   */
+  public isErr(): Promise<boolean> {
+    return this.promise.then((result) => !result.success);
+  }
+
+  /**
+   * Runs a side effect on the resolved result when it matches, awaiting it and keeping the result unchanged.
+   *
+   * @param when - Whether the side effect runs for the resolved result
+   * @param effect - The side effect to run
+   * @param options - Options of the tap
+   * @param caller - Function to exclude from the stack trace of a tap error
+   * @returns Promise of the resolved result, or of a tap error
+   */
+  private tapWhen(
+    when: (current: IResult<T, E>) => boolean,
+    effect: (current: IResult<T, E>) => unknown,
+    options: ITapOptions | undefined,
+    caller: (...args: never[]) => unknown,
+  ): PromiseLike<unknown> {
+    return this.promise.then(async (current) => {
+      if (!when(current)) {
+        return current;
+      }
+
+      try {
+        await effect(current);
+      } catch (exception) {
+        if (options?.exceptions === 'err') {
+          return new Err(TapErrorName, exception, caller as (...args: unknown[]) => unknown);
+        }
+
+        throw exception;
+      }
+
+      return current;
+    });
+  }
+}
@@ -1,5 +1,150 @@
-import type { IUnknownOkErr, IUnknownErr } from './types';
+import type {
+  IUnknownOkErr,
+  IUnknownErr,
+  IMatchCases,
+  IMatchResult,
+  IMatchStrictCases,
+  IResultsOf,
+  IAllResult,
+  ICollectResult,
+  IAnyResult,
+  IPartitionResult,
+  IErrOptions,
+  IErrJSON,
+  IJSONOptions,
+  IOkJSON,
+  IResultJSON,
+  IFieldPath,
+  IValidationShape,
+  IValidatedResult,
+  IErrNameMatchOf,
+  ITapOptions,
+  ITapResult,
+  IResult,
+  IUnknownOk,
+  IEqualsOptions,
+  IHashOptions,
+  IResultFrom,
+} from './types';
 import { UnwrapError } from '../unwrap-error';
+import { matchesErrName } from './names';
+import { formatCauseChain } from '../format';
+import { captureStack, copyStack } from '../stack';
+import { freezeAfter, freezeResult } from '../freeze';
+import { jsonOptionsOf, toWireValue } from '../serialize';
+import { AggregateErrorName, ResultJSONVersion, TapErrorName, ValidationErrorName } from './constants';
+import { match } from './match';
+import { hashResult, resultsEqual } from './equality';
+import { AsyncResult } from './async-result';
+import { None, Some } from '../option/classes';
+import { toResult } from './structural';
+
+/**
+ * Lists the entries of a collection of results, keyed by index for arrays and by key for objects.
+ *
+ * @param results - The collection of results
+ * @returns The key and result of every entry
+ */
+function entriesOf(results: IResultsOf): [string, IUnknownOkErr][] {
+  return Object.entries(results);
+}
+
+/**
+ * Creates an empty container with the same shape (array or object) as a collection of results.
+ *
+ * @param results - The collection of results
+ * @returns An empty array or object
+ */
+function emptyShapeOf(results: IResultsOf): Record<string, unknown> {
+  return (Array.isArray(results) ? [] : {}) as Record<string, unknown>;
+}
+
+/**
+ * Gathers the data of nested checks, keeping their shape, and pushes every failed check
+ * with its field path into `errors`.
+ *
+ * @param checks - A result, or an array or object nesting results
+ * @param path - Field path of the checks
+ * @param errors - Receives every failed check
+ * @returns The data of the checks, with undefined in place of failed checks
+ */
+function validateShape(checks: IValidationShape, path: IFieldPath, errors: IUnknownErr[]): unknown {
+  if (typeof (checks as { success?: unknown }).success === 'boolean') {
+    const result = checks as IUnknownOkErr;
+
+    if (result.success) {
+      return result.data;
+    }
+
+    errors.push((toResult(result) as Err<string, unknown>).atPath(...path));
+    return undefined;
+  }
+
+  if (Array.isArray(checks)) {
+    return checks.map((item: IValidationShape, index) => validateShape(item, [...path, index], errors));
+  }
+
+  return Object.fromEntries(
+    Object.entries(checks as { [key: string]: IValidationShape }).map(([key, item]) => [key, validateShape(item, [...path, key], errors)])
+  );
+}
+
+/**
+ * Runs the side effect of a tap and returns the tapped result,
+ * wrapped in an AsyncResult when the side effect returns a promise.
+ *
+ * @param result - The tapped result
+ * @param effect - The side effect to run
+ * @param options - Options of the tap
+ * @param caller - Function to exclude from the stack trace of a tap error
+ * @returns The tapped result, a tap error, or an AsyncResult of either
+ */
+function runTap(result: IUnknownOkErr, effect: () => unknown, options: ITapOptions | undefined, caller: (...args: unknown[]) => unknown): unknown {
+  const handle = (exception: unknown) => {
+    if (options?.exceptions === 'err') {
+      return new Err(TapErrorName, exception, caller);
+    }
+
+    throw exception;
+  };
+
+  let value: unknown;
+  try {
+    value = effect();
+  } catch (exception) {
+    return handle(exception);
+  }
+
+  if (value !== null && typeof value === 'object' && typeof (value as PromiseLike<unknown>).then === 'function') {
+    return new AsyncResult(Promise.resolve(value as PromiseLike<unknown>).then(() => result as IResult<unknown, IUnknownErr>, handle));
+  }
+
+  return result;
+}
+
+/**
+ * Creates a copy of an error with another name or reason, keeping its cause, stack trace and field path.
+ * The copy skips stack capture because it reuses the stack trace of the error, and is frozen once complete.
+ *
+ * @param source - The error to copy
+ * @param error - Name of the copy
+ * @param reason - Reason of the copy
+ * @param caller - Function to exclude from the stack trace
+ * @param path - Field path of the copy, defaults to the field path of the error
+ * @returns The copy of the error
+ */
+function copyErr<F extends string, U, C>(source: Err<string, unknown, C>, error: F, reason: U, caller: (...args: never[]) => unknown, path: IFieldPath | undefined = source.path): Err<F, U, C> {
+  return freezeAfter(() => {
+    const copy = new Err<F, U, C>(error, reason, caller as (...args: unknown[]) => unknown, 'cause' in source ? { cause: source.cause, stack: 'off' } : { stack: 'off' });
+    copyStack(source, copy);
+
+    if (path !== undefined) {
+      copy.path = path;
+    }
+
+    return copy;
+  });
+}
 
 /**
  * Abstract base class for result types (Ok and Err).
@@ -14,6 +159,197 @@ export abstract class Result<T extends true | false> {
     this.success = success;
   }
 
+  /**
+   * Combines a collection of results into a single result.
+   * Returns the first error found, or an Ok with the data of every result,
+   * keeping the tuple or object shape of the input.
+   *
+   * @template T - The collection of results
+   * @param results - Array, tuple or object of results
+   * @returns Ok with every data, or the first error
+   *
+   * @example
+   * ```ts
+   * import { Result, ok } from 'tryless';
+   *
+   * const result = Result.all([findUser(id), findPosts(id)]);
+   * // Ok<[User, Post[]]> | Err<'NotFound', string> | Err<'PostsError', unknown>
+   *
+   * const named = Result.all({ user: findUser(id), posts: findPosts(id) });
+   * // Ok<{ user: User; posts: Post[] }> | Err<'NotFound', string> | Err<'PostsError', unknown>
+   * ```
+   */
+  public static all<const T extends IResultsOf>(results: T): IAllResult<T> {
+    const data = emptyShapeOf(results);
+
+    for (const [key, result] of entriesOf(results)) {
+      if (!result.success) {
+        return toResult(result) as IAllResult<T>;
+      }
+
+      data[key] = result.data;
+    }
+
+    return new Ok(data) as IAllResult<T>;
+  }
+
+  /**
+   * Combines a collection of results into a single result, gathering every error.
+   * Returns an Ok with the data of every result, or an `'aggregate'` error whose reason
+   * holds every error (in an array for tuples, by key for objects).
+   *
+   * @template T - The collection of results
+   * @param results - Array, tuple or object of results
+   * @returns Ok with every data, or an aggregate error with every error
+   *
+   * @example
+   * ```ts
+   * import { Result } from 'tryless';
+   *
+   * const result = Result.collect({ email: validateEmail(email), age: validateAge(age) });
+   * if (!result.success) {
+   *   result.reason.email; // Err<'InvalidEmail', string> | undefined
+   * }
+   * ```
+   */
+  public static collect<const T extends IResultsOf>(results: T): ICollectResult<T> {
+    const data = emptyShapeOf(results);
+    const errors = emptyShapeOf(results);
+    let failed = false;
+
+    for (const [key, result] of entriesOf(results)) {
+      if (result.success) {
+        data[key] = result.data;
+      } else if (Array.isArray(errors)) {
+        failed = true;
+        errors.push(toResult(result));
+      } else {
+        failed = true;
+        errors[key] = toResult(result);
+      }
+    }
+
+    if (failed) {
+      return new Err(AggregateErrorName, errors, Result.collect as (...args: unknown[]) => unknown) as ICollectResult<T>;
+    }
+
+    return new Ok(data) as ICollectResult<T>;
+  }
+
+  /**
+   * Returns the first successful result of a collection.
+   * If every result is an error, returns an `'aggregate'` error whose reason holds every error,
+   * keeping the tuple or object shape of the input.
+   *
+   * @template T - The collection of results
+   * @param results - Array, tuple or object of results
+   * @returns The first Ok, or an aggregate error with every error
+   *
+   * @example
+   * ```ts
+   * import { Result } from 'tryless';
+   *
+   * const price = Result.any([fromCache(id), fromPrimary(id), fromReplica(id)]);
+   * // Ok<Price> | Err<'aggregate', [Err<'CacheMiss'>, Err<'PrimaryDown'>, Err<'ReplicaDown'>]>
+   * ```
+   */
+  public static any<const T extends IResultsOf>(results: T): IAnyResult<T> {
+    const errors = emptyShapeOf(results);
+
+    for (const [key, result] of entriesOf(results)) {
+      if (result.success) {
+        return new Ok(result.data) as IAnyResult<T>;
+      }
+
+      errors[key] = toResult(result);
+    }
+
+    return new Err(AggregateErrorName, errors, Result.any as (...args: unknown[]) => unknown) as IAnyResult<T>;
+  }
+
+  /**
+   * Splits a collection of results into the data of every success and every error.
+   * Arrays are split into two arrays, objects into two partial objects keeping each key.
+   *
+   * @template T - The collection of results
+   * @param results - Array, tuple or object of results
+   * @returns A pair of successes data and errors
+   *
+   * @example
+   * ```ts
+   * import { Result } from 'tryless';
+   *
+   * const [users, failures] = Result.partition(ids.map(findUser));
+   * // [User[], Err<'NotFound', string>[]]
+   * ```
+   */
+  public static partition<const T extends IResultsOf>(results: T): IPartitionResult<T> {
+    if (Array.isArray(results)) {
+      const data: unknown[] = [];
+      const errors: IUnknownErr[] = [];
+
+      for (const result of results as readonly IUnknownOkErr[]) {
+        if (result.success) {
+          data.push(result.data);
+        } else {
+          errors.push(toResult(result) as IUnknownErr);
+        }
+      }
+
+      return [data, errors] as IPartitionResult<T>;
+    }
+
+    const data: Record<string, unknown> = {};
+    const errors: Record<string, IUnknownErr> = {};
+
+    for (const [key, result] of entriesOf(results)) {
+      if (result.success) {
+        data[key] = result.data;
+      } else {
+        errors[key] = toResult(result) as IUnknownErr;
+      }
+    }
+
+    return [data, errors] as IPartitionResult<T>;
+  }
+
+  /**
+   * Runs every independent check and combines them without short-circuiting.
+   * Returns an Ok with the data of every check, keeping the nested tuple or object shape,
+   * or a single `'validation'` error whose reason lists every failed check with its field path.
+   *
+   * @template T - The checks
+   * @param checks - A result, or an array or object nesting results
+   * @returns Ok with every data, or a validation error with every failed check
+   *
+   * @example
+   * ```ts
+   * import { Result } from 'tryless';
+   *
+   * const result = Result.validate({
+   *   name: required(attributes.name),
+   *   email: isEmail(attributes.email),
+   *   address: { zip: isZipCode(attributes.address.zip) },
+   * });
+   *
+   * if (!result.success) {
+   *   for (const issue of result.reason) {
+   *     form.setError(issue.path.join('.'), issue.reason); // 'email', 'address.zip', ...
+   *   }
+   * }
+   * ```
+   */
+  public static validate<const T extends IValidationShape>(checks: T): IValidatedResult<T> {
+    const errors: IUnknownErr[] = [];
+    const data = validateShape(checks, [], errors);
+
+    if (errors.length > 0) {
+      return new Err(ValidationErrorName, errors, Result.validate as (...args: unknown[]) => unknown) as unknown as IValidatedResult<T>;
+    }
+
+    return new Ok(data) as IValidatedResult<T>;
+  }
+
   /**
    * Unwraps the result, returning the data if successful, or throwing if failed.
    *
@@ -69,16 +405,16 @@ export abstract class Result<T extends true | false> {
   public abstract unwrapErrOrElse<U>(defaultValue: (result: this extends { success: true } ? this : never) => U): this extends { error: string } ? this : U;
 
   /**
-   * Asserts that the result has a specific error type.
+   * Asserts that the result has a specific error type, or an error of a namespace (`'bitcoin:*'`).
    * Returns the result if it matches, throws otherwise.
    *
-   * @template E - Expected error string literal type
-   * @param error - Expected error string
+   * @template E - Expected error name or namespace pattern
+   * @param error - Expected error name or namespace pattern
    * @param customError - Optional custom error message
    * @returns The result if error matches
    * @throws {UnwrapError} If error doesn't match or result is successful
    */
-  public abstract expect<E extends string>(error: E, customError?: string): this extends { error: E } ? this : never;
+  public abstract expect<E extends string>(error: E, customError?: string): this extends { error: IErrNameMatchOf<E> } ? this : never;
 
   /**
    * Returns the given result if this is successful, otherwise returns this error.
@@ -88,7 +424,7 @@ export abstract class Result<T extends true | false> {
    * @param result - Result to return if this is successful
    * @returns The given result or this error
    */
-  public abstract and<R extends IUnknownOkErr>(result: R): this extends { success: true } ? R : this;
+  public abstract and<R extends IUnknownOkErr>(result: R): this extends { success: true } ? IResultFrom<R> : this;
 
   /**
    * Applies a function to the data if successful, otherwise returns this error.
@@ -98,7 +434,7 @@ export abstract class Result<T extends true | false> {
    * @param fn - Function to apply to the data
    * @returns Result from the function or this error
    */
-  public abstract andThen<U extends IUnknownOkErr>(fn: (data: this extends { data: infer J } ? J : never) => U): this extends { data: unknown } ? U : this;
+  public abstract andThen<U extends IUnknownOkErr>(fn: (data: this extends { data: infer J } ? J : never) => U): this extends { data: unknown } ? IResultFrom<U> : this;
 
   /**
    * Returns this result if successful, otherwise returns the given result.
@@ -108,17 +444,121 @@ export abstract class Result<T extends true | false> {
    * @param result - Result to return if this is an error
    * @returns This result or the given result
    */
-  public abstract or<R extends IUnknownOkErr>(result: R): this extends { success: false } ? R : this;
+  public abstract or<R extends IUnknownOkErr>(result: R): this extends { success: false } ? IResultFrom<R> : this;
 
   /**
    * Returns this result if successful, otherwise applies a function to the error.
    * Allows recovering from errors.
    *
+   * @template S - Type of this result
    * @template R - Type of result returned by the function
    * @param fn - Function to apply to the error
    * @returns This result or result from the function
    */
-  public abstract orElse<R extends IUnknownErr>(fn: (errorResult: this extends { error: infer J } ? J : never) => R): this extends { error: string } ? R : this;
+  public orElse<S extends IUnknownOkErr, R extends IUnknownErr>(this: S, fn: (errorResult: S extends { error: infer J } ? J : never) => R): S extends { error: string } ? IResultFrom<R> : S;
+
+  /**
+   * Returns this result if successful or if its error doesn't match, otherwise applies a function to the error.
+   * Allows recovering from a single error, or from every error of a namespace (`'bitcoin:*'`).
+   *
+   * @template S - Type of this result
+   * @template K - Error name or namespace pattern to recover from
+   * @template R - Type of result returned by the function
+   * @param error - Error name or namespace pattern to recover from
+   * @param fn - Function to apply to the matching error
+   * @returns This result or result from the function
+   */
+  public orElse<S extends IUnknownOkErr, K extends string, R extends IUnknownOkErr>(this: S, error: K, fn: (errorResult: Extract<S, { error: IErrNameMatchOf<K> }>) => R): S extends { error: IErrNameMatchOf<K> } ? IResultFrom<R> : S;
+  public orElse(this: IUnknownOkErr, errorOrFn: string | ((errorResult: never) => unknown), fn?: (errorResult: never) => unknown): unknown {
+    if (this.success) {
+      return this;
+    }
+
+    if (typeof errorOrFn === 'function') {
+      return toResult((errorOrFn as (errorResult: IUnknownErr) => unknown)(this));
+    }
+
+    return matchesErrName(this.error, errorOrFn) ? toResult((fn as (errorResult: IUnknownErr) => unknown)(this)) : this;
+  }
+
+  /**
+   * Runs a side effect with the data if successful, and returns this result unchanged.
+   * An async side effect is awaited: the result is then returned as an {@link AsyncResult}.
+   * Errors are returned as they are, as the side effect does not run for them.
+   *
+   * @template S - Type of this result
+   * @template U - Return type of the side effect
+   * @template O - Type of the tap options
+   * @param fn - Side effect receiving the data
+   * @param options - Whether exceptions thrown by the side effect propagate (default) or become an `Err<'tap', unknown>`
+   * @returns This result, or an AsyncResult of it when an async side effect runs
+   *
+   * @example
+   * ```ts
+   * const user = findUser(id)
+   *   .tap((user) => logger.info('found user', user.id))
+   *   .andThen(loadProfile);
+   * ```
+   */
+  public tap<S extends IUnknownOkErr, U, O extends ITapOptions = ITapOptions>(this: S, fn: (data: S extends { data: infer J } ? J : never) => U, options?: O): ITapResult<S, U, O, Extract<S, { success: false }>> {
+    if (!this.success) {
+      return this as Extract<S, { success: false }>;
+    }
+
+    return runTap(this, () => fn((this as IUnknownOk).data as S extends { data: infer J } ? J : never), options, Result.prototype.tap as (...args: unknown[]) => unknown) as ITapResult<S, U, O, Extract<S, { success: false }>>;
+  }
+
+  /**
+   * Runs a side effect with the error result if failed, and returns this result unchanged.
+   * An async side effect is awaited: the result is then returned as an {@link AsyncResult}.
+   * Successes are returned as they are, as the side effect does not run for them.
+   *
+   * @template S - Type of this result
+   * @template U - Return type of the side effect
+   * @template O - Type of the tap options
+   * @param fn - Side effect receiving the error result
+   * @param options - Whether exceptions thrown by the side effect propagate (default) or become an `Err<'tap', unknown>`
+   * @returns This result, or an AsyncResult of it when an async side effect runs
+   */
+  public tapErr<S extends IUnknownOkErr, U, O extends ITapOptions = ITapOptions>(this: S, fn: (errorResult: Extract<S, { success: false }>) => U, options?: O): ITapResult<S, U, O, Exclude<S, { success: false }>>;
+
+  /**
+   * Runs a side effect with the error result if its error matches an error name or a namespace pattern (`'bitcoin:*'`),
+   * and returns this result unchanged.
+   * An async side effect is awaited: the result is then returned as an {@link AsyncResult}.
+   * Successes and other errors are returned as they are, as the side effect does not run for them.
+   *
+   * @template S - Type of this result
+   * @template K - Error name or namespace pattern to tap
+   * @template U - Return type of the side effect
+   * @template O - Type of the tap options
+   * @param error - Error name or namespace pattern to tap
+   * @param fn - Side effect receiving the matching error result
+   * @param options - Whether exceptions thrown by the side effect propagate (default) or become an `Err<'tap', unknown>`
+   * @returns This result, or an AsyncResult of it when an async side effect runs
+   *
+   * @example
+   * ```ts
+   * const price = await getBitcoinPrice()
+   *   .tapErr('fetch:*', (error) => metrics.increment(error.error))
+   *   .unwrapOr(0);
+   * ```
+   */
+  public tapErr<S extends IUnknownOkErr, K extends string, U, O extends ITapOptions = ITapOptions>(this: S, error: K, fn: (errorResult: Extract<S, { error: IErrNameMatchOf<K> }>) => U, options?: O): ITapResult<S, U, O, Exclude<S, { error: IErrNameMatchOf<K> }>>;
+  public tapErr(
+    this: IUnknownOkErr,
+    errorOrFn: string | ((errorResult: never) => unknown),
+    fnOrOptions?: ((errorResult: never) => unknown) | ITapOptions,
+    options?: ITapOptions,
+  ): unknown {
+    const named = typeof errorOrFn === 'string';
+    if (this.success || (named && !matchesErrName(this.error, errorOrFn))) {
+      return this;
+    }
+
+    const fn = (named ? fnOrOptions : errorOrFn) as (errorResult: IUnknownErr) => unknown;
+    return runTap(this, () => fn(this as IUnknownErr), named ? options : fnOrOptions as ITapOptions | undefined, Result.prototype.tapErr as (...args: unknown[]) => unknown);
+  }
 
   /**
    * Applies a transformation function to this result.
@@ -129,6 +569,90 @@ export abstract class Result<T extends true | false> {
    */
   public abstract map<U>(fn: (result: this) => U): U;
 
+  /**
+   * Transforms the data of a success result, leaving error results untouched.
+   *
+   * @template U - Type of the transformed data
+   * @param fn - Function to transform the data
+   * @returns A new Ok with the transformed data, or this error
+   */
+  public abstract mapData<U>(fn: (data: this extends { data: infer J } ? J : never) => U): this extends { data: unknown } ? Ok<U> : this;
+
+  /**
+   * Transforms the error identifier of an error result, keeping its reason and cause.
+   * Success results are returned untouched.
+   *
+   * @template F - String literal type of the new error identifier
+   * @param fn - Function to transform the error identifier
+   * @returns A new Err with the transformed identifier, or this success
+   */
+  public abstract mapErr<F extends string>(fn: (error: this extends { error: infer J } ? J : never) => F): this extends { error: string; reason: infer J; cause?: infer C } ? Err<F, J, C> : this;
+
+  /**
+   * Transforms the reason of an error result, keeping its error identifier and cause.
+   * Success results are returned untouched.
+   *
+   * @template U - Type of the transformed reason
+   * @param fn - Function to transform the reason
+   * @returns A new Err with the transformed reason, or this success
+   */
+  public abstract mapReason<U>(fn: (reason: this extends { reason: infer J } ? J : never) => U): this extends { error: infer J extends string; cause?: infer C } ? Err<J, U, C> : this;
+
+  /**
+   * Wraps an error result inside a new error, keeping it as the cause.
+   * Useful to re-label a low-level error without losing it. Success results are returned untouched.
+   *
+   * @template F - String literal type of the new error identifier
+   * @template U - Type of the new reason
+   * @param error - The new error identifier
+   * @param reason - Optional reason of the new error
+   * @returns A new Err caused by this error, or this success
+   */
+  public abstract wrapErr<F extends string, U = undefined>(error: F, reason?: U): this extends { error: string } ? Err<F, U, this> : this;
+
+  /**
+   * Attaches a field path to an error result, in front of the path it may already have.
+   * Lets a UI map the error to the input it comes from. Success results are returned untouched.
+   *
+   * @param path - Keys leading to the field
+   * @returns A copy of this error with the field path, or this success
+   */
+  public abstract atPath(...path: IFieldPath): this extends { error: string } ? this & { path: IFieldPath } : this;
+
+  /**
+   * Prefixes the name of an error result with a namespace, keeping its reason, cause and stack trace.
+   * Useful when an error crosses a module boundary, e.g. `db:timeout` becoming `repo:db:timeout`.
+   * Success results are returned untouched.
+   *
+   * @template P - String literal type of the namespace
+   * @param namespace - The namespace to add, without the trailing `:`
+   * @returns A copy of this error with the prefixed name, or this success
+   */
+  public abstract prefixErr<P extends string>(namespace: P): this extends { error: infer J extends string; reason: infer V; cause?: infer C } ? Err<`${P}:${J}`, V, C> : this;
+
+  /**
+   * Branches on this result, calling the handler matching its outcome.
+   * Handlers keyed by a namespace pattern (`'bitcoin:*'`) receive every error of the namespace not handled by name.
+   * Fails to type-check when an error name is not handled, unless a `_` fallback is given.
+   *
+   * @template R - Type of this result
+   * @template H - Type of the handlers object
+   * @param cases - Handlers keyed by `ok`, error names, namespace patterns and optionally `_`
+   * @returns The value returned by the matching handler
+   * @throws {UnwrapError} If no handler matches the error at runtime
+   */
+  public match<R extends IUnknownOkErr, H extends IMatchCases<R>>(this: R, cases: IMatchStrictCases<R, H>): IMatchResult<H> {
+    return match(this, cases);
+  }
+
+  /**
+   * Makes the result iterable so it can be delegated to with `yield*` inside {@link gen}.
+   * A success returns its data without yielding, an error yields itself to short-circuit the generator.
+   *
+   * @returns Generator that yields this error or returns the data
+   */
+  public abstract [Symbol.iterator](): Generator<this extends { success: false } ? this : never, this extends { data: infer J } ? J : never, unknown>;
+
   /**
    * Checks if this result represents a success.
    *
@@ -147,12 +671,50 @@ export abstract class Result<T extends true | false> {
     return (this.success === false) as this extends { success: false } ? true : false;
   }
 
+  /**
+   * Checks if this result equals another: same outcome, and the same data, or the same error name and reason.
+   * Stacks, causes and paths are ignored.
+   *
+   * @param other - The result to compare with
+   * @param options - Structural (default) or `Object.is` comparison, whether reasons are compared, or a custom equality
+   * @returns True if both results are equal
+   */
+  public equals(this: IUnknownOkErr, other: IUnknownOkErr, options?: IEqualsOptions): boolean {
+    return resultsEqual(this, other, options);
+  }
+
+  /**
+   * Computes a stable hash of this result, equal for results equal with {@link Result.equals}.
+   *
+   * @param options - Whether the reason is part of the hash
+   * @returns A non-negative integer hash
+   */
+  public hash(this: IUnknownOkErr, options?: IHashOptions): number {
+    return hashResult(this, options);
+  }
+
+  /**
+   * Converts the result into an option, discarding the error.
+   *
+   * @returns Some with the data if Ok, otherwise None
+   */
+  public abstract toOption(): this extends { data: infer J } ? Some<J> : None;
+
   /**
    * Converts the result to a string representation.
    *
    * @returns String representation of the result
    */
   public abstract toString(): string;
+
+  /**
+   * Converts the result to its versioned JSON wire shape.
+   * Called by `JSON.stringify` with the default options; use {@link fromJSON} or {@link revive} to rebuild it.
+   *
+   * @param options - Options controlling stack inclusion and `Error` serialization
+   * @returns The JSON wire shape of the result
+   */
+  public abstract toJSON(options?: IJSONOptions): IResultJSON;
 }
 
 /**
@@ -181,6 +743,8 @@ export class Ok<T = undefined> extends Result<true> {
     super(true);
 
     this.data = data;
+
+    freezeResult(this);
   }
 
   /**
@@ -253,12 +817,12 @@ export class Ok<T = undefined> extends Result<true> {
    * Asserts that this result is an error with a specific type.
    * Always throws because Ok is a success result.
    *
-   * @template E - Expected error type
-   * @param error - Expected error string
+   * @template E - Expected error name or namespace pattern
+   * @param error - Expected error name or namespace pattern
    * @param customError - Optional custom error message
    * @throws {UnwrapError} Always throws because Ok is not an error
    */
-  public expect<E extends string>(error: E, customError?: string): this extends { error: E } ? this : never {
+  public expect<E extends string>(error: E, customError?: string): this extends { error: IErrNameMatchOf<E> } ? this : never {
     throw new UnwrapError(this, this.expect as (...args: unknown[]) => unknown, `Expected error ${error}, but got success`, customError);
   }
 
@@ -270,8 +834,8 @@ export class Ok<T = undefined> extends Result<true> {
    * @param result - Result to return
    * @returns The given result
    */
-  public and<R extends IUnknownOkErr>(result: R): this extends { success: true; } ? R : this {
-    return result as this extends { success: true; } ? R : this;
+  public and<R extends IUnknownOkErr>(result: R): this extends { success: true; } ? IResultFrom<R> : this {
+    return toResult(result) as this extends { success: true; } ? IResultFrom<R> : this;
   }
 
   /**
@@ -282,8 +846,8 @@ export class Ok<T = undefined> extends Result<true> {
    * @param fn - Function to apply to the data
    * @returns Result from the function
    */
-  public andThen<U extends IUnknownOkErr>(fn: (data: this extends { data: infer J; } ? J : never) => U): this extends { data: unknown; } ? U : this {
-    return fn(this.data as this extends { data: infer J; } ? J : never) as this extends { data: unknown; } ? U : this;
+  public andThen<U extends IUnknownOkErr>(fn: (data: this extends { data: infer J; } ? J : never) => U): this extends { data: unknown; } ? IResultFrom<U> : this {
+    return toResult(fn(this.data as this extends { data: infer J; } ? J : never)) as this extends { data: unknown; } ? IResultFrom<U> : this;
   }
 
   /**
@@ -294,20 +858,8 @@ export class Ok<T = undefined> extends Result<true> {
    * @returns This result
    */
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  public or<R extends IUnknownOkErr>(_result: R): this extends { success: false; } ? R : this {
-    return this as this extends { success: false; } ? R : this;
-  }
-
-  /**
-   * Returns this result because it's already successful.
-   * The recovery function is not called.
-   *
-   * @template R - Type of result from recovery (unused)
-   * @returns This result
-   */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  public orElse<R extends IUnknownErr>(_fn: (errorResult: this extends { error: infer J; } ? J : never) => R): this extends { error: string; } ? R : this {
-    return this as this extends { error: string; } ? R : this;
+  public or<R extends IUnknownOkErr>(_result: R): this extends { success: false; } ? IResultFrom<R> : this {
+    return this as this extends { success: false; } ? IResultFrom<R> : this;
   }
 
   /**
@@ -321,6 +873,94 @@ export class Ok<T = undefined> extends Result<true> {
     return fn(this) as U;
   }
 
+  /**
+   * Applies the function to the wrapped data and wraps the outcome in a new Ok.
+   *
+   * @template U - Type of the transformed data
+   * @param fn - Function to transform the data
+   * @returns A new Ok containing the transformed data
+   */
+  public mapData<U>(fn: (data: this extends { data: infer J } ? J : never) => U): this extends { data: unknown } ? Ok<U> : this {
+    return new Ok(fn(this.data as this extends { data: infer J } ? J : never)) as this extends { data: unknown } ? Ok<U> : this;
+  }
+
+  /**
+   * Returns this result because there is no error to transform.
+   * The function is not called.
+   *
+   * @template F - Type of the new error identifier (unused)
+   * @returns This success result
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public mapErr<F extends string>(_fn: (error: this extends { error: infer J } ? J : never) => F): this extends { error: string; reason: infer J; cause?: infer C } ? Err<F, J, C> : this {
+    return this as this extends { error: string; reason: infer J; cause?: infer C } ? Err<F, J, C> : this;
+  }
+
+  /**
+   * Returns this result because there is no reason to transform.
+   * The function is not called.
+   *
+   * @template U - Type of the transformed reason (unused)
+   * @returns This success result
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public mapReason<U>(_fn: (reason: this extends { reason: infer J } ? J : never) => U): this extends { error: infer J extends string; cause?: infer C } ? Err<J, U, C> : this {
+    return this as this extends { error: infer J extends string; cause?: infer C } ? Err<J, U, C> : this;
+  }
+
+  /**
+   * Returns this result because there is no error to wrap.
+   *
+   * @template F - Type of the new error identifier (unused)
+   * @template U - Type of the new reason (unused)
+   * @returns This success result
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public wrapErr<F extends string, U = undefined>(_error: F, _reason?: U): this extends { error: string } ? Err<F, U, this> : this {
+    return this as this extends { error: string } ? Err<F, U, this> : this;
+  }
+
+  /**
+   * Returns this result because there is no error to locate.
+   *
+   * @returns This success result
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public atPath(..._path: IFieldPath): this extends { error: string } ? this & { path: IFieldPath } : this {
+    return this as this extends { error: string } ? this & { path: IFieldPath } : this;
+  }
+
+  /**
+   * Returns this result because there is no error to prefix.
+   *
+   * @template P - Type of the namespace (unused)
+   * @returns This success result
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public prefixErr<P extends string>(_namespace: P): this extends { error: infer J extends string; reason: infer V; cause?: infer C } ? Err<`${P}:${J}`, V, C> : this {
+    return this as this extends { error: infer J extends string; reason: infer V; cause?: infer C } ? Err<`${P}:${J}`, V, C> : this;
+  }
+
+  /**
+   * Returns the wrapped data without yielding.
+   * Used by `yield*` inside {@link gen} to unwrap successful results.
+   *
+   * @returns Generator that returns the data
+   */
+  // eslint-disable-next-line require-yield
+  public *[Symbol.iterator](): Generator<this extends { success: false } ? this : never, this extends { data: infer J } ? J : never, unknown> {
+    return this.data as this extends { data: infer J } ? J : never;
+  }
+
+  /**
+   * Converts this result into an option holding its data.
+   *
+   * @returns Some with the data
+   */
+  public toOption(): this extends { data: infer J } ? Some<J> : None {
+    return new Some(this.data) as this extends { data: infer J } ? Some<J> : None;
+  }
+
   /**
    * Returns a string representation of this success result.
    *
@@ -329,6 +969,23 @@ export class Ok<T = undefined> extends Result<true> {
   public toString(): string {
     return `Success<${this.data}>`;
   }
+
+  /**
+   * Converts this success result to its versioned JSON wire shape.
+   * `Error` instances inside the data are converted following the options.
+   *
+   * @param options - Options controlling stack inclusion and `Error` serialization
+   * @returns The JSON wire shape of this result
+   *
+   * @example
+   * ```ts
+   * JSON.stringify(ok({ id: 1 }));
+   * // '{"$tryless":1,"success":true,"data":{"id":1}}'
+   * ```
+   */
+  public toJSON(options?: IJSONOptions): IOkJSON<T> {
+    return { $tryless: ResultJSONVersion, success: true, data: toWireValue(this.data, jsonOptionsOf(options)) as T };
+  }
 }
 
 /**
@@ -347,28 +1004,35 @@ export class Ok<T = undefined> extends Result<true> {
  * // result.reason === 'User not found'
  * ```
  */
-export class Err<E extends string, R = undefined> extends Result<false> {
+export class Err<E extends string, R = undefined, C = unknown> extends Result<false> {
   public error: E;
   public reason: R;
   public stack?: string;
+  public cause?: C;
+  public path?: IFieldPath;
 
   /**
    * Creates a new Err instance.
-   * Automatically captures a stack trace if available.
+   * Captures a stack trace if available, following the configured stack capture mode.
    *
    * @param error - The error identifier string
    * @param reason - Additional information about the error
    * @param caller - Optional function to exclude from stack trace
+   * @param options - Optional cause of the error, mirroring `Error.cause`, and stack capture override
    */
-  constructor(error: E, reason: R, caller?: (...args: unknown[]) => unknown) {
+  constructor(error: E, reason: R, caller?: (...args: unknown[]) => unknown, options?: IErrOptions<C>) {
     super(false);
 
-    if ("captureStackTrace" in Error && typeof Error.captureStackTrace === 'function') {
-      Error.captureStackTrace(this, caller || this.constructor);
-    }
+    captureStack(this, caller || this.constructor as (...args: unknown[]) => unknown, options?.stack);
 
     this.error = error;
     this.reason = reason;
+
+    if (options && 'cause' in options) {
+      this.cause = options.cause;
+    }
+
+    freezeResult(this);
   }
 
   /**
@@ -441,15 +1105,15 @@ export class Err<E extends string, R = undefined> extends Result<false> {
    * Asserts that this error matches the expected error type.
    * Returns this result if it matches, throws otherwise.
    *
-   * @template U - Expected error string literal type
-   * @param error - Expected error string
+   * @template U - Expected error name or namespace pattern
+   * @param error - Expected error name or namespace pattern
    * @param customError - Optional custom error message
    * @returns This result if error matches
    * @throws {UnwrapError} If error doesn't match
    */
-  public expect<U extends string>(error: U, customError?: string): this extends { error: U; } ? this : never {
-    if (this.error as string === error) {
-      return this as this extends { error: U; } ? this : never;
+  public expect<U extends string>(error: U, customError?: string): this extends { error: IErrNameMatchOf<U>; } ? this : never {
+    if (matchesErrName(this.error, error)) {
+      return this as this extends { error: IErrNameMatchOf<U>; } ? this : never;
     }
 
     throw new UnwrapError(this, this.expect as (...args: unknown[]) => unknown, `Expected error ${error}, but got error ${this.error}`, customError);
@@ -463,8 +1127,8 @@ export class Err<E extends string, R = undefined> extends Result<false> {
    * @returns This error result
    */
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  public and<R extends IUnknownOkErr>(_result: R): this extends { success: true; } ? R : this {
-    return this as this extends { success: true; } ? R : this;
+  public and<R extends IUnknownOkErr>(_result: R): this extends { success: true; } ? IResultFrom<R> : this {
+    return this as this extends { success: true; } ? IResultFrom<R> : this;
   }
 
   /**
@@ -475,8 +1139,8 @@ export class Err<E extends string, R = undefined> extends Result<false> {
    * @returns This error result
    */
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  public andThen<U extends IUnknownOkErr>(_fn: (data: this extends { data: infer J; } ? J : never) => U): this extends { data: unknown; } ? U : this {
-    return this as this extends { data: unknown; } ? U : this;
+  public andThen<U extends IUnknownOkErr>(_fn: (data: this extends { data: infer J; } ? J : never) => U): this extends { data: unknown; } ? IResultFrom<U> : this {
+    return this as this extends { data: unknown; } ? IResultFrom<U> : this;
   }
 
   /**
@@ -487,20 +1151,8 @@ export class Err<E extends string, R = undefined> extends Result<false> {
    * @param result - Result to return as fallback
    * @returns The given fallback result
    */
-  public or<R extends IUnknownOkErr>(result: R): this extends { success: false; } ? R : this {
-    return result as this extends { success: false; } ? R : this;
-  }
-
-  /**
-   * Applies the function to this error for recovery.
-   * Enables error handling and recovery patterns.
-   *
-   * @template R - Type of result returned by the function
-   * @param fn - Function to handle the error
-   * @returns Result from the recovery function
-   */
-  public orElse<R extends IUnknownErr>(fn: (errorResult: this extends { error: infer J; } ? J : never) => R): this extends { error: string; } ? R : this {
-    return fn(this as this extends { error: infer J; } ? J : never) as this extends { error: string; } ? R : this;
+  public or<R extends IUnknownOkErr>(result: R): this extends { success: false; } ? IResultFrom<R> : this {
+    return toResult(result) as this extends { success: false; } ? IResultFrom<R> : this;
   }
 
   /**
@@ -514,13 +1166,173 @@ export class Err<E extends string, R = undefined> extends Result<false> {
     return fn(this) as U;
   }
 
+  /**
+   * Returns this error because there is no data to transform.
+   * The function is not called.
+   *
+   * @template U - Type of the transformed data (unused)
+   * @returns This error result
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public mapData<U>(_fn: (data: this extends { data: infer J } ? J : never) => U): this extends { data: unknown } ? Ok<U> : this {
+    return this as this extends { data: unknown } ? Ok<U> : this;
+  }
+
+  /**
+   * Applies the function to the error identifier and returns a new Err with the same reason.
+   * The stack trace of this error is preserved.
+   *
+   * @template F - String literal type of the new error identifier
+   * @param fn - Function to transform the error identifier
+   * @returns A new Err with the transformed identifier
+   */
+  public mapErr<F extends string>(fn: (error: this extends { error: infer J } ? J : never) => F): this extends { error: string; reason: infer J; cause?: infer C } ? Err<F, J, C> : this {
+    const mapped = copyErr(this, fn(this.error as this extends { error: infer J } ? J : never), this.reason, this.mapErr);
+
+    return mapped as this extends { error: string; reason: infer J; cause?: infer C } ? Err<F, J, C> : this;
+  }
+
+  /**
+   * Applies the function to the reason and returns a new Err with the same error identifier.
+   * The stack trace of this error is preserved.
+   *
+   * @template U - Type of the transformed reason
+   * @param fn - Function to transform the reason
+   * @returns A new Err with the transformed reason
+   */
+  public mapReason<U>(fn: (reason: this extends { reason: infer J } ? J : never) => U): this extends { error: infer J extends string; cause?: infer C } ? Err<J, U, C> : this {
+    const mapped = copyErr(this, this.error, fn(this.reason as this extends { reason: infer J } ? J : never), this.mapReason);
+
+    return mapped as this extends { error: infer J extends string; cause?: infer C } ? Err<J, U, C> : this;
+  }
+
+  /**
+   * Wraps this error inside a new error, keeping it as the cause.
+   * The new error captures its own stack trace.
+   *
+   * @template F - String literal type of the new error identifier
+   * @template U - Type of the new reason
+   * @param error - The new error identifier
+   * @param reason - Optional reason of the new error
+   * @returns A new Err caused by this error
+   *
+   * @example
+   * ```ts
+   * const result = loadUserRow(id).wrapErr('user:load-failed', { id });
+   * // Ok<UserRow> | Err<'user:load-failed', { id: string }, Err<'db:timeout', number>>
+   * ```
+   */
+  public wrapErr<F extends string, U = undefined>(error: F, reason?: U): this extends { error: string } ? Err<F, U, this> : this {
+    return new Err(error, reason as U, this.wrapErr as (...args: unknown[]) => unknown, { cause: this }) as this extends { error: string } ? Err<F, U, this> : this;
+  }
+
+  /**
+   * Returns a copy of this error with the field path in front of the path it may already have.
+   * The stack trace and cause of this error are preserved.
+   *
+   * @param path - Keys leading to the field
+   * @returns A copy of this error with the field path
+   *
+   * @example
+   * ```ts
+   * const result = isZipCode(zip).atPath('address', 'zip');
+   * // result.path === ['address', 'zip'] when invalid
+   * ```
+   */
+  public atPath(...path: IFieldPath): this extends { error: string } ? this & { path: IFieldPath } : this {
+    const located = copyErr(this, this.error, this.reason, this.atPath, [...path, ...(this.path ?? [])]);
+
+    return located as this extends { error: string } ? this & { path: IFieldPath } : this;
+  }
+
+  /**
+   * Returns a copy of this error with its name prefixed by the namespace.
+   * The reason, cause, stack trace and field path of this error are preserved.
+   *
+   * @template P - String literal type of the namespace
+   * @param namespace - The namespace to add, without the trailing `:`
+   * @returns A copy of this error with the prefixed name
+   *
+   * @example
+   * ```ts
+   * const result = findUserRow(id).prefixErr('repo');
+   * // Ok<UserRow> | Err<'repo:db:timeout', number>
+   * ```
+   */
+  public prefixErr<P extends string>(namespace: P): this extends { error: infer J extends string; reason: infer V; cause?: infer C } ? Err<`${P}:${J}`, V, C> : this {
+    const prefixed = copyErr(this, `${namespace}:${this.error}`, this.reason, this.prefixErr);
+
+    return prefixed as this extends { error: infer J extends string; reason: infer V; cause?: infer C } ? Err<`${P}:${J}`, V, C> : this;
+  }
+
+  /**
+   * Yields this error so the generator running it can short-circuit.
+   * Used by `yield*` inside {@link gen} to propagate errors.
+   *
+   * The generator is never resumed by {@link gen}; iterating it directly yields this error once.
+   *
+   * @returns Generator that yields this error
+   */
+  public *[Symbol.iterator](): Generator<this extends { success: false } ? this : never, this extends { data: infer J } ? J : never, unknown> {
+    yield this as this extends { success: false } ? this : never;
+
+    return undefined as this extends { data: infer J } ? J : never;
+  }
+
+  /**
+   * Converts this result into an empty option, discarding the error.
+   *
+   * @returns None
+   */
+  public toOption(): this extends { data: infer J } ? Some<J> : None {
+    return new None() as this extends { data: infer J } ? Some<J> : None;
+  }
+
   /**
    * Returns a string representation of this error result.
+   * Each error of the cause chain is rendered after it with its own stack trace.
    *
-   * @returns String in format "error: reason - stack"
+   * @returns String in format "error: reason - stack", followed by "Caused by ..." for each cause
    */
   public toString(): string {
-    return `${this.error}: ${this.reason} - ${this.stack}`;
+    return `${this.error}: ${this.reason} - ${this.stack}${formatCauseChain(this.cause)}`;
+  }
+
+  /**
+   * Converts this error result to its versioned JSON wire shape.
+   * The stack trace is left out unless `options.stack` is set, and the cause is serialized with the same options.
+   *
+   * @param options - Options controlling stack inclusion and `Error` serialization
+   * @returns The JSON wire shape of this result
+   *
+   * @example
+   * ```ts
+   * JSON.stringify(err('NotFound', 'User not found'));
+   * // '{"$tryless":1,"success":false,"error":"NotFound","reason":"User not found"}'
+   * ```
+   */
+  public toJSON(options?: IJSONOptions): IErrJSON<E, R> {
+    const settings = jsonOptionsOf(options);
+    const json: IErrJSON<E, R> = {
+      $tryless: ResultJSONVersion,
+      success: false,
+      error: this.error,
+      reason: toWireValue(this.reason, settings) as R,
+    };
+
+    if (settings.stack && this.stack !== undefined) {
+      json.stack = this.stack;
+    }
+
+    if ('cause' in this) {
+      json.cause = toWireValue(this.cause, settings);
+    }
+
+    if (this.path !== undefined) {
+      json.path = this.path;
+    }
+
+    return json;
   }
 }
 
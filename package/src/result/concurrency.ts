@@ -0,0 +1,152 @@
+import type { IAsyncTask, IAsyncTasksOf, IConcurrencyOptions, IResultsOf, IUnknownOkErr } from './types';
+
+/**
+ * Outcome of running a collection of tasks.
+ *
+ * @property results - Results of the completed tasks, keeping the shape of the tasks collection.
+ * When the run stops early, arrays only hold the completed results, in order, without holes
+ * @property stoppedBy - Result that stopped the run early, if any
+ * @property aborted - Whether the run was stopped by the external signal
+ * @property abortReason - Reason of the external signal when aborted
+ */
+export type ITasksOutcome = {
+  results: IResultsOf;
+  stoppedBy?: IUnknownOkErr;
+  aborted?: boolean;
+  abortReason?: unknown;
+};
+
+/**
+ * Lists the entries of a collection of tasks, keyed by index for arrays and iterables and by key for objects.
+ *
+ * @param tasks - The collection of tasks
+ * @returns Whether the collection is an object, and an iterator over its entries
+ */
+function entriesOf(tasks: IAsyncTasksOf): { isRecord: boolean; entries: Iterator<[string, IAsyncTask]> } {
+  if (Symbol.iterator in tasks) {
+    const iterator = (tasks as Iterable<IAsyncTask>)[Symbol.iterator]();
+    let index = 0;
+
+    return {
+      isRecord: false,
+      entries: {
+        next() {
+          const step = iterator.next();
+          return step.done ? { done: true, value: undefined } : { done: false, value: [String(index++), step.value] };
+        },
+      },
+    };
+  }
+
+  return { isRecord: true, entries: Object.entries(tasks)[Symbol.iterator]() };
+}
+
+/**
+ * Runs a collection of tasks with a maximum concurrency.
+ * Stops scheduling new tasks and aborts the in-flight ones as soon as `shouldStop` returns true
+ * for a result, or when the external signal is aborted. Rejects if a task throws or rejects.
+ *
+ * @param tasks - The collection of tasks to run
+ * @param options - Concurrency limit and external signal
+ * @param shouldStop - Predicate deciding whether a result ends the run early
+ * @returns Promise of the outcome of the run
+ */
+export function runTasks(
+  tasks: IAsyncTasksOf,
+  options: IConcurrencyOptions,
+  shouldStop: (result: IUnknownOkErr) => boolean
+): Promise<ITasksOutcome> {
+  const concurrency = options.concurrency ?? Infinity;
+  if (!(concurrency >= 1)) {
+    throw new Error("concurrency must be a positive number");
+  }
+
+  const { isRecord, entries } = entriesOf(tasks);
+  const results: Record<string, IUnknownOkErr> = isRecord ? {} : ([] as unknown as Record<string, IUnknownOkErr>);
+  const controller = new AbortController();
+  const signal = options.signal;
+
+  const completed = () => (isRecord ? results : Object.values(results)) as IResultsOf;
+
+  return new Promise<ITasksOutcome>((resolve, reject) => {
+    let running = 0;
+    let finished = false;
+
+    const finish = (outcome: ITasksOutcome | undefined, error?: unknown) => {
+      finished = true;
+      signal?.removeEventListener('abort', onAbort);
+
+      if (outcome) {
+        resolve(outcome);
+      } else {
+        reject(error);
+      }
+    };
+
+    const onAbort = () => {
+      if (finished) {
+        return;
+      }
+
+      controller.abort(signal?.reason);
+      finish({ results: completed(), aborted: true, abortReason: signal?.reason });
+    };
+
+    const schedule = () => {
+      while (!finished && running < concurrency) {
+        let step: IteratorResult<[string, IAsyncTask]>;
+        try {
+          step = entries.next();
+        } catch (error) {
+          controller.abort(error);
+          finish(undefined, error);
+          return;
+        }
+
+        if (step.done) {
+          if (running === 0) {
+            finish({ results: completed() });
+          }
+          return;
+        }
+
+        const [key, task] = step.value;
+        running++;
+
+        Promise.resolve()
+          .then(() => task(controller.signal))
+          .then((result) => {
+            running--;
+            if (finished) {
+              return;
+            }
+
+            results[key] = result;
+            if (shouldStop(result)) {
+              controller.abort(result);
+              finish({ results: completed(), stoppedBy: result });
+              return;
+            }
+
+            schedule();
+          }, (error: unknown) => {
+            running--;
+            if (finished) {
+              return;
+            }
+
+            controller.abort(error);
+            finish(undefined, error);
+          });
+      }
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    schedule();
+  });
+}
@@ -23,3 +23,119 @@ export const UnknownError = "unknown" as const;
  */
 export const UnwrapErrorName = "unwrap" as const;
 
+/**
+ * Constant representing an aggregate error type.
+ * Used by combinators that gather several errors into a single error result.
+ *
+ * @example
+ * ```ts
+ * import { Result, ok, err } from 'tryless';
+ * const result = Result.collect([ok(1), err('NotFound'), err('Invalid')]);
+ * // { success: false, error: 'aggregate', reason: [Err<'NotFound'>, Err<'Invalid'>] }
+ * ```
+ */
+export const AggregateErrorName = "aggregate" as const;
+
+/**
+ * Constant representing an aborted error type.
+ * Used when an operation is cancelled through an `AbortSignal`.
+ *
+ * @example
+ * ```ts
+ * import { AsyncResult } from 'tryless';
+ * const result = await AsyncResult.all(tasks, { signal: AbortSignal.abort() });
+ * // { success: false, error: 'aborted', reason: DOMException }
+ * ```
+ */
+export const AbortedErrorName = "aborted" as const;
+
+/**
+ * Version of the JSON wire shape produced by `toJSON()`.
+ * Stored in the `$tryless` property of every serialized result.
+ *
+ * @example
+ * ```ts
+ * import { ok } from 'tryless';
+ * JSON.stringify(ok(42));
+ * // '{"$tryless":1,"success":true,"data":42}'
+ * ```
+ */
+export const ResultJSONVersion = 1 as const;
+
+/**
+ * Constant representing an invalid result JSON error type.
+ * Used by `fromJSON` when the value does not have the shape of a serialized result.
+ *
+ * @example
+ * ```ts
+ * import { fromJSON } from 'tryless';
+ * const result = fromJSON('{"success":true}');
+ * // { success: false, error: 'invalid-result-json', reason: 'Missing or unsupported $tryless version' }
+ * ```
+ */
+export const InvalidResultJSONErrorName = "invalid-result-json" as const;
+
+/**
+ * Constant representing an invalid result error type.
+ * Used by `from` when the value does not have the shape of a result.
+ *
+ * @example
+ * ```ts
+ * import { from } from 'tryless';
+ * const result = from({ ok: true });
+ * // { success: false, error: 'invalid-result', reason: 'Expected a boolean success' }
+ * ```
+ */
+export const InvalidResultErrorName = "invalid-result" as const;
+
+/**
+ * Constant representing a validation error type.
+ * Used by `Result.validate` to gather every failed check into a single error result.
+ *
+ * @example
+ * ```ts
+ * import { Result, ok, err } from 'tryless';
+ * const result = Result.validate({ name: ok('John'), email: err('InvalidEmail') });
+ * // { success: false, error: 'validation', reason: [Err<'InvalidEmail'> & { path: ['email'] }] }
+ * ```
+ */
+export const ValidationErrorName = "validation" as const;
+
+/**
+ * Constant representing a tap error type.
+ * Returned by `tap` and `tapErr` when the side effect throws and exceptions are turned into errors.
+ *
+ * @example
+ * ```ts
+ * import { ok } from 'tryless';
+ * const result = ok(1).tap(() => { throw new Error('logger down'); }, { exceptions: 'err' });
+ * // { success: false, error: 'tap', reason: Error('logger down') }
+ * ```
+ */
+export const TapErrorName = "tap" as const;
+
+/**
+ * Constant representing an exhausted retry error type.
+ * Returned by `retry` when every allowed attempt failed, listing each attempt in the reason.
+ *
+ * @example
+ * ```ts
+ * import { retry } from 'tryless';
+ * const result = await retry(() => fetchPrice(), { maxAttempts: 3 });
+ * // { success: false, error: 'retry', reason: [{ attempt: 1, error, elapsed }, ...], cause: lastError }
+ * ```
+ */
+export const RetryErrorName = "retry" as const;
+
+/**
+ * Constant representing a timeout error type.
+ * Returned by `withTimeout` when the work does not finish within its time budget.
+ *
+ * @example
+ * ```ts
+ * import { withTimeout } from 'tryless';
+ * const result = await withTimeout((signal) => resultfy(fetch(url, { signal })), 5000);
+ * // { success: false, error: 'timeout', reason: { ms: 5000 } }
+ * ```
+ */
+export const TimeoutErrorName = "timeout" as const;
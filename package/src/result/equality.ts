@@ -0,0 +1,198 @@
+import type { IEqualsOptions, IHashOptions, IUnknownOkErr } from './types';
+
+/**
+ * Compares two results by outcome, data, error name and reason. Stacks, causes and paths are ignored.
+ *
+ * @param a - First result
+ * @param b - Second result
+ * @param options - How data and reasons are compared
+ * @returns True if both results are equal
+ */
+export function resultsEqual(a: IUnknownOkErr, b: IUnknownOkErr, options: IEqualsOptions = {}): boolean {
+  const { deep = true, compareReason = true } = options;
+  const equal = options.equal ?? (deep ? (x: unknown, y: unknown) => deepEqual(x, y, new Map()) : Object.is);
+
+  if (a.success || b.success) {
+    return a.success && b.success && equal(a.data, b.data);
+  }
+
+  return a.error === b.error && (!compareReason || equal(a.reason, b.reason));
+}
+
+/**
+ * Compares two values structurally. Primitives are compared with `Object.is`,
+ * objects must share their prototype and have equal own enumerable properties,
+ * with dedicated comparisons for results, dates, regular expressions, errors, maps and sets.
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @param seen - Pairs of objects being compared, to stop on cycles
+ * @returns True if both values are structurally equal
+ */
+function deepEqual(a: unknown, b: unknown, seen: Map<object, object>): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null || Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+    return false;
+  }
+
+  if (seen.get(a) === b) {
+    return true;
+  }
+  seen.set(a, b);
+
+  if (isResult(a)) {
+    return resultsEqual(a, b as IUnknownOkErr, { equal: (x, y) => deepEqual(x, y, seen) });
+  }
+
+  if (a instanceof Date) {
+    return Object.is(a.getTime(), (b as Date).getTime());
+  }
+
+  if (a instanceof RegExp) {
+    return String(a) === String(b);
+  }
+
+  if (a instanceof Error && (a.name !== (b as Error).name || a.message !== (b as Error).message)) {
+    return false;
+  }
+
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    return a.size === other.size && [...a].every(([key, value]) => other.has(key) && deepEqual(value, other.get(key), seen));
+  }
+
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    return a.size === other.size && [...a].every((value) => other.has(value));
+  }
+
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length
+    && keys.every((key) => Object.prototype.hasOwnProperty.call(b, key)
+      && deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], seen));
+}
+
+/**
+ * Computes a stable hash of a result from its outcome, data, error name and reason.
+ * Results equal with the default options have the same hash.
+ *
+ * @param result - The result to hash
+ * @param options - Whether the reason is part of the hash
+ * @returns A non-negative integer hash
+ */
+export function hashResult(result: IUnknownOkErr, options: IHashOptions = {}): number {
+  return hashString(canonicalResult(result, options.compareReason ?? true, []));
+}
+
+/**
+ * Builds the canonical string of a result hashed by {@link hashResult}.
+ *
+ * @param result - The result
+ * @param compareReason - Whether the reason is included
+ * @param path - Objects being walked, to stop on cycles
+ * @returns The canonical string
+ */
+function canonicalResult(result: IUnknownOkErr, compareReason: boolean, path: object[]): string {
+  if (result.success) {
+    return `Ok(${canonical(result.data, path)})`;
+  }
+
+  return compareReason ? `Err(${JSON.stringify(result.error)},${canonical(result.reason, path)})` : `Err(${JSON.stringify(result.error)})`;
+}
+
+/**
+ * Builds a canonical string of a value: structurally equal values have the same string,
+ * whatever the insertion order of their keys, map entries or set values.
+ *
+ * @param value - The value
+ * @param path - Objects being walked, to stop on cycles
+ * @returns The canonical string
+ */
+function canonical(value: unknown, path: object[]): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'bigint') {
+    return `${value}n`;
+  }
+
+  if (typeof value === 'function') {
+    return `function ${value.name}`;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return String(value);
+  }
+
+  if (path.includes(value)) {
+    return '~';
+  }
+
+  path.push(value);
+  try {
+    if (isResult(value)) {
+      return canonicalResult(value, true, path);
+    }
+
+    if (value instanceof Date) {
+      return `Date(${value.getTime()})`;
+    }
+
+    if (value instanceof RegExp) {
+      return String(value);
+    }
+
+    if (value instanceof Map) {
+      return `Map{${[...value].map(([key, item]) => `${canonical(key, path)}=>${canonical(item, path)}`).sort().join(',')}}`;
+    }
+
+    if (value instanceof Set) {
+      return `Set{${[...value].map((item) => canonical(item, path)).sort().join(',')}}`;
+    }
+
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => canonical(item, path)).join(',')}]`;
+    }
+
+    const entries = Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key], path)}`);
+    return value instanceof Error ? `${value.name}(${JSON.stringify(value.message)}){${entries.join(',')}}` : `{${entries.join(',')}}`;
+  } finally {
+    path.pop();
+  }
+}
+
+/**
+ * Hashes a string into a 53-bit integer (cyrb53).
+ *
+ * @param value - The string to hash
+ * @returns A non-negative integer hash
+ */
+function hashString(value: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let index = 0; index < value.length; index++) {
+    const code = value.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+/**
+ * Type guard to check if a value is a result, with its methods.
+ *
+ * @param value - Value to check
+ * @returns True if the value is a result
+ */
+function isResult(value: object): value is IUnknownOkErr {
+  return typeof (value as { success?: unknown }).success === 'boolean' && typeof (value as { andThen?: unknown }).andThen === 'function';
+}
@@ -1,6 +1,21 @@
-import { UnknownError } from './constants';
+import { InvalidResultErrorName, UnknownError } from './constants';
 import { Err, Ok } from './classes';
-import type { IUnknownError } from './types';
+import { matchesErrName } from './names';
+import { hashResult, resultsEqual } from './equality';
+import { freezeResult } from '../freeze';
+import { toResult, validateResult } from './structural';
+import type {
+  IEqualsOptions,
+  IErrNameMatchOf,
+  IErrOptions,
+  IFrozen,
+  IFrozenOptions,
+  IHashOptions,
+  IInvalidResultError,
+  IResultFrom,
+  IUnknownError,
+  IUnknownOkErr,
+} from './types';
 
 /**
  * Creates an empty success result.
@@ -94,10 +109,193 @@ export function err<E extends string>(error: E): Err<E>;
  * ```
  */
 export function err<E extends string, C>(error: E, reason: C): Err<E, C>;
+
+/**
+ * Creates an error result with an error type, a reason and the cause that led to it.
+ * The cause is usually another error result or a thrown error, and is kept in the `cause` property.
+ *
+ * @template E - String literal type for the error identifier
+ * @template C - Type of the reason/additional error information
+ * @template K - Type of the cause
+ * @param error - The error identifier string
+ * @param reason - Additional information about the error
+ * @param options - Options holding the cause of the error
+ * @returns An Err result with the specified error, reason and cause
+ *
+ * @example
+ * ```ts
+ * import { err } from 'tryless';
+ * const dbError = err('db:timeout', 5000);
+ * const result = err('user:load-failed', { id: 42 }, { cause: dbError });
+ * // { success: false, error: 'user:load-failed', reason: { id: 42 }, cause: dbError }
+ * ```
+ */
+export function err<E extends string, C, K>(error: E, reason: C, options: IErrOptions<K>): Err<E, C, K>;
 export function err<E extends string, C = never>(
   error: E = UnknownError as E,
-  reason: C = undefined as C
+  reason: C = undefined as C,
+  options?: IErrOptions
 ): Err<E, C> {
-  return new Err<E, C>(error, reason, err);
+  return new Err<E, C>(error, reason, err, options);
 }
 
+
+/**
+ * Checks if a result is an error of a namespace, narrowing it to the errors of that namespace.
+ * Nested namespaces match too: `repo:db:timeout` is in both `repo` and `repo:db`.
+ *
+ * @template R - Type of the result to check
+ * @template N - String literal type of the namespace
+ * @param result - The result to check
+ * @param namespace - The namespace, without the trailing `:`
+ * @returns True if the result is an error whose name starts with `namespace:`
+ *
+ * @example
+ * ```ts
+ * import { isErrIn } from 'tryless';
+ *
+ * const result = await getBitcoinPrice();
+ * if (isErrIn(result, 'bitcoin')) {
+ *   // result: Err<'bitcoin:no-content'> | Err<'bitcoin:invalid-response', ...>
+ * }
+ * ```
+ */
+export function isErrIn<R extends IUnknownOkErr, N extends string>(result: R, namespace: N): result is Extract<R, { error: IErrNameMatchOf<`${N}:*`> }> {
+  return !result.success && matchesErrName(result.error, `${namespace}:*`);
+}
+
+/**
+ * Checks if two results are equal: same outcome, and the same data, or the same error name and reason.
+ * Data and reasons are compared structurally unless configured otherwise. Stacks, causes and paths are ignored.
+ *
+ * @param a - First result
+ * @param b - Second result
+ * @param options - `deep: false` compares data and reasons with `Object.is`, `compareReason: false` ignores reasons,
+ * `equal` plugs a custom equality
+ * @returns True if both results are equal
+ *
+ * @example
+ * ```ts
+ * import { ok, err, equals } from 'tryless';
+ *
+ * equals(ok({ id: 1 }), ok({ id: 1 })); // true
+ * equals(err('NotFound', 'a'), err('NotFound', 'b'), { compareReason: false }); // true
+ * ```
+ */
+export function equals(a: IUnknownOkErr, b: IUnknownOkErr, options?: IEqualsOptions): boolean {
+  return resultsEqual(a, b, options);
+}
+
+/**
+ * Computes a stable hash of a result from its outcome, data, error name and reason, ignoring stacks.
+ * Results equal with {@link equals} (default options) have the same hash, so it can key a cache;
+ * different results may collide, so confirm with {@link equals} when it matters.
+ *
+ * @param result - The result to hash
+ * @param options - `compareReason: false` leaves the reason out of the hash
+ * @returns A non-negative integer hash
+ *
+ * @example
+ * ```ts
+ * import { ok, hash } from 'tryless';
+ *
+ * hash(ok({ a: 1, b: 2 })) === hash(ok({ b: 2, a: 1 })); // true
+ * ```
+ */
+export function hash(result: IUnknownOkErr, options?: IHashOptions): number {
+  return hashResult(result, options);
+}
+
+/**
+ * Freezes a result with `Object.freeze`, and with `deep` the plain objects and arrays of its data or reason too, recursively.
+ * Its fields become readonly in the returned type and, with `deep`, its data or reason becomes deeply readonly.
+ * Use `configure({ freeze })` to freeze every result when it is created.
+ *
+ * @template R - Type of the result
+ * @template O - Type of the options
+ * @param result - The result to freeze
+ * @param options - Whether the data or reason is frozen too
+ * @returns The same result, frozen
+ *
+ * @example
+ * ```ts
+ * import { frozen } from 'tryless';
+ *
+ * const cached = frozen(await fetchUser(id), { deep: true });
+ * cached.data.name = 'Jane'; // type error, and TypeError at runtime in strict mode
+ * ```
+ */
+export function frozen<R extends IUnknownOkErr, const O extends IFrozenOptions = { deep?: false }>(result: R, options?: O): IFrozen<R, O> {
+  freezeResult(result, options?.deep ? 'deep' : 'shallow');
+
+  return result as IFrozen<R, O>;
+}
+
+/**
+ * Checks if a value has the shape of a result: an `Ok`/`Err` instance, including one created by another copy of tryless,
+ * or a plain `{ success: true, data }` / `{ success: false, error, reason }` object such as a parsed JSON result.
+ * `data` and `reason` may be missing, as `JSON.stringify` drops undefined values.
+ *
+ * @param value - Value to check
+ * @returns True if the value has the shape of a result
+ *
+ * @example
+ * ```ts
+ * import { isResult, from } from 'tryless';
+ *
+ * const message: unknown = await worker.next();
+ * if (isResult(message)) {
+ *   from(message).tapErr((error) => logger.warn(error.error));
+ * }
+ * ```
+ */
+export function isResult(value: unknown): value is IUnknownOkErr {
+  return validateResult(value) === undefined;
+}
+
+/**
+ * Upgrades a value with the shape of a result to an `Ok` or `Err` of this copy of tryless, so every method is available.
+ * Errors keep their stack trace, field path and cause; causes with the shape of a result are upgraded too.
+ * `Ok` and `Err` instances are returned as is.
+ *
+ * @template R - Type of the result
+ * @param value - The result to upgrade, such as a parsed JSON result or a result created by another copy of tryless
+ * @returns The upgraded result
+ *
+ * @example
+ * ```ts
+ * import { from } from 'tryless';
+ *
+ * const price = from(await response.json() as { success: true; data: number } | { success: false; error: 'NotFound'; reason: string })
+ *   .mapData((price) => price * 100);
+ * // Ok<number> | Err<'NotFound', string>
+ * ```
+ */
+export function from<R extends IUnknownOkErr>(value: R): IResultFrom<R>;
+
+/**
+ * Validates an unknown value and upgrades it to an `Ok` or `Err` of this copy of tryless.
+ *
+ * @param value - Value to validate and upgrade
+ * @returns The upgraded result, or an `'invalid-result'` error describing what is wrong with the shape
+ *
+ * @example
+ * ```ts
+ * import { from } from 'tryless';
+ *
+ * const result = from(JSON.parse(text));
+ * if (!result.success && result.error === 'invalid-result') {
+ *   console.log(result.reason); // 'Expected a boolean success'
+ * }
+ * ```
+ */
+export function from(value: unknown): Ok<unknown> | Err<string, unknown> | Err<IInvalidResultError, string>;
+export function from(value: unknown): unknown {
+  const problem = validateResult(value);
+
+  if (problem !== undefined) {
+    return new Err(InvalidResultErrorName, problem, from as (...args: unknown[]) => unknown);
+  }
+
+  return toResult(value);
+}
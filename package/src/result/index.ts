@@ -2,4 +2,7 @@ export * from './constants';
 export * from './types';
 export * from './classes';
 export * from './functions';
+export * from './match';
+export * from './json';
 
+export * from './async-result';
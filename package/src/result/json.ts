@@ -0,0 +1,127 @@
+import { Err, Ok } from './classes';
+import { InvalidResultJSONErrorName, ResultJSONVersion } from './constants';
+import { freezeAfter } from '../freeze';
+import { validateResult } from './structural';
+import type { IErrJSON, IInvalidResultJSONError, IResultJSON, IUnknownOkErr } from './types';
+
+/**
+ * Rebuilds a result from its JSON wire shape, as produced by `toJSON()`.
+ * Accepts the JSON text or the already parsed value. Results nested in the data, reason or cause are rebuilt too.
+ *
+ * The shape is validated, but not the types of the data and reason: `R` is trusted.
+ *
+ * @template R - The expected result type
+ * @param json - JSON text or parsed value of a serialized result
+ * @returns The rebuilt `Ok` or `Err`, or an `'invalid-result-json'` error describing what is wrong with the shape
+ *
+ * @example
+ * ```ts
+ * import { fromJSON } from 'tryless';
+ *
+ * const response = await fetch('/api/price');
+ * const result = fromJSON<Ok<number> | Err<'bitcoin:http-error', string>>(await response.text());
+ *
+ * if (!result.success) {
+ *   console.log(result.error); // 'bitcoin:http-error' | 'invalid-result-json'
+ * }
+ * ```
+ */
+export function fromJSON<R extends IUnknownOkErr = Ok<unknown> | Err<string, unknown>>(json: unknown): R | Err<IInvalidResultJSONError, string> {
+  let value = json;
+
+  if (typeof json === 'string') {
+    try {
+      value = JSON.parse(json);
+    } catch (error) {
+      return new Err(InvalidResultJSONErrorName, `Invalid JSON: ${(error as Error).message}`, fromJSON as (...args: unknown[]) => unknown);
+    }
+  }
+
+  const problem = validateResultJSON(value);
+
+  if (problem !== undefined) {
+    return new Err(InvalidResultJSONErrorName, problem, fromJSON as (...args: unknown[]) => unknown);
+  }
+
+  return reviveDeep(value) as R;
+}
+
+/**
+ * `JSON.parse` reviver that rebuilds every serialized result found in the JSON text.
+ * Values that do not have a valid result shape are left untouched.
+ *
+ * @param _key - Key of the value being revived (unused)
+ * @param value - The parsed value
+ * @returns The rebuilt `Ok` or `Err`, or the value itself
+ *
+ * @example
+ * ```ts
+ * import { revive } from 'tryless';
+ *
+ * const payload = JSON.parse(message.data, revive);
+ * // { user: Ok<User>, posts: Err<'NotFound', string> }
+ * ```
+ */
+export function revive(_key: string, value: unknown): unknown {
+  if (validateResultJSON(value) !== undefined) {
+    return value;
+  }
+
+  const json = value as IResultJSON;
+
+  if (json.success) {
+    return new Ok(json.data);
+  }
+
+  return freezeAfter(() => {
+    const result = new Err(json.error, json.reason, undefined, 'cause' in json ? { cause: json.cause, stack: 'off' } : { stack: 'off' });
+
+    if (json.stack !== undefined) {
+      result.stack = json.stack;
+    }
+
+    if (json.path !== undefined) {
+      result.path = json.path;
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Checks that a value has the JSON wire shape of a result.
+ *
+ * @param value - Value to check
+ * @returns A description of the first problem found, or undefined if the shape is valid
+ */
+function validateResultJSON(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'Expected an object';
+  }
+
+  if ((value as Partial<IErrJSON>).$tryless !== ResultJSONVersion) {
+    return 'Missing or unsupported $tryless version';
+  }
+
+  return validateResult(value);
+}
+
+/**
+ * Rebuilds every serialized result of an already parsed value, innermost first like `JSON.parse` does.
+ *
+ * @param value - The parsed value
+ * @returns The value with its results rebuilt
+ */
+function reviveDeep(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(reviveDeep);
+  }
+
+  if (typeof value !== 'object' || value === null || (Object.getPrototypeOf(value) !== Object.prototype && Object.getPrototypeOf(value) !== null)) {
+    return value;
+  }
+
+  const revived = Object.fromEntries(Object.entries(value).map(([key, item]) => [key, reviveDeep(item)]));
+
+  return revive('', revived);
+}
@@ -0,0 +1,69 @@
+import { UnwrapError } from '../unwrap-error';
+import { isNamespacePattern, matchesErrName } from './names';
+import { toResult } from './structural';
+import type { IMatchCases, IMatchResult, IMatchStrictCases, IUnknownOkErr } from './types';
+
+/**
+ * Branches on a result, calling the handler matching its outcome.
+ * The `ok` handler receives the data; each error handler, keyed by error name, receives the exact reason type.
+ * Handlers keyed by a namespace pattern (`'bitcoin:*'`) receive the error result of every error of the namespace
+ * not handled by name; the most specific namespace wins.
+ * Fails to type-check when an error name of the result is not handled, unless a `_` fallback is given.
+ *
+ * @template R - Type of the result to match on
+ * @template H - Type of the handlers object
+ * @param result - The result to match on
+ * @param cases - Handlers keyed by `ok`, error names, namespace patterns and optionally `_`
+ * @returns The value returned by the matching handler
+ * @throws {UnwrapError} If no handler matches the error at runtime
+ *
+ * @example
+ * ```ts
+ * import { match } from 'tryless';
+ *
+ * const message = match(getUser(id), {
+ *   ok: (user) => `Hello ${user.name}`,
+ *   NotFound: (reason) => `Missing: ${reason}`,
+ *   InvalidEmail: (reason) => `Bad email: ${reason.email}`,
+ * });
+ *
+ * // With a fallback for every other error
+ * const status = match(getUser(id), {
+ *   ok: () => 200,
+ *   NotFound: () => 404,
+ *   _: () => 500,
+ * });
+ *
+ * // With namespace handlers
+ * const view = match(getBitcoinPrice(), {
+ *   ok: (price) => price,
+ *   'fetch:*': (error) => `Network error: ${error.error}`,
+ *   'bitcoin:*': (error) => `Invalid response: ${error.error}`,
+ * });
+ * ```
+ */
+export function match<R extends IUnknownOkErr, H extends IMatchCases<R>>(result: R, cases: IMatchStrictCases<R, H>): IMatchResult<H> {
+  const handlers = cases as unknown as Record<string, ((value: unknown) => unknown) | undefined>;
+
+  if (result.success) {
+    return handlers.ok!(result.data) as IMatchResult<H>;
+  }
+
+  const handler = Object.prototype.hasOwnProperty.call(handlers, result.error) ? handlers[result.error] : undefined;
+  if (handler) {
+    return handler(result.reason) as IMatchResult<H>;
+  }
+
+  const namespace = Object.keys(handlers)
+    .filter((key) => isNamespacePattern(key) && matchesErrName(result.error, key))
+    .sort((a, b) => b.length - a.length)[0];
+  if (namespace !== undefined && handlers[namespace]) {
+    return handlers[namespace](toResult(result)) as IMatchResult<H>;
+  }
+
+  if (handlers._) {
+    return handlers._(toResult(result)) as IMatchResult<H>;
+  }
+
+  throw new UnwrapError(result, match as (...args: unknown[]) => unknown, `No match handler for error`);
+}
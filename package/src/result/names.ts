@@ -0,0 +1,28 @@
+/**
+ * Checks if an error name matches an error name or a namespace pattern.
+ * A pattern ending with `:*` matches every name of the namespace, including nested namespaces.
+ *
+ * @param name - The error name to check
+ * @param pattern - The expected error name or namespace pattern
+ * @returns True if the name matches the pattern
+ *
+ * @example
+ * ```ts
+ * matchesErrName('repo:db:timeout', 'repo:*'); // true
+ * matchesErrName('repo:db:timeout', 'db:*'); // false
+ * matchesErrName('NotFound', 'NotFound'); // true
+ * ```
+ */
+export function matchesErrName(name: string, pattern: string): boolean {
+  return pattern.endsWith(':*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern;
+}
+
+/**
+ * Checks if a key of a handlers object is a namespace pattern.
+ *
+ * @param key - The handler key
+ * @returns True if the key ends with `:*`
+ */
+export function isNamespacePattern(key: string): boolean {
+  return key.endsWith(':*');
+}
@@ -0,0 +1,74 @@
+import { Err, Ok, Result } from './classes';
+import { freezeAfter } from '../freeze';
+import type { IFieldPath, IUnknownErr } from './types';
+
+/**
+ * Checks that a value has the shape of a result: `{ success: true, data }` or `{ success: false, error, reason }`.
+ * `data` and `reason` may be missing, as `JSON.stringify` drops undefined values.
+ *
+ * @param value - Value to check
+ * @returns A description of the first problem found, or undefined if the shape is valid
+ */
+export function validateResult(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'Expected an object';
+  }
+
+  const result = value as { success?: unknown; error?: unknown; stack?: unknown; path?: unknown };
+
+  if (typeof result.success !== 'boolean') {
+    return 'Expected a boolean success';
+  }
+
+  if (result.success) {
+    return undefined;
+  }
+
+  if (typeof result.error !== 'string') {
+    return 'Expected a string error';
+  }
+
+  if (result.stack !== undefined && typeof result.stack !== 'string') {
+    return 'Expected a string stack';
+  }
+
+  if (result.path !== undefined && !Array.isArray(result.path)) {
+    return 'Expected an array path';
+  }
+
+  return undefined;
+}
+
+/**
+ * Upgrades a value with the shape of a result to an `Ok` or `Err` of this copy of tryless,
+ * keeping the stack trace, field path and cause of errors. Causes with the shape of a result are upgraded too.
+ * Instances of `Ok`/`Err` and values without the shape of a result are returned untouched.
+ *
+ * @param value - The value to upgrade
+ * @returns The upgraded result, or the value itself
+ */
+export function toResult(value: unknown): unknown {
+  if (value instanceof Result || validateResult(value) !== undefined) {
+    return value;
+  }
+
+  const result = value as { success: true; data?: unknown } | (IUnknownErr & { cause?: unknown; path?: IFieldPath });
+
+  if (result.success) {
+    return new Ok(result.data);
+  }
+
+  return freezeAfter(() => {
+    const upgraded = new Err(result.error, result.reason, undefined, 'cause' in result ? { cause: toResult(result.cause), stack: 'off' } : { stack: 'off' });
+
+    if (result.stack !== undefined) {
+      upgraded.stack = result.stack;
+    }
+
+    if (result.path !== undefined) {
+      upgraded.path = [...result.path];
+    }
+
+    return upgraded;
+  });
+}
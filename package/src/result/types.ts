@@ -1,5 +1,6 @@
 import type { Err, Ok } from './classes';
-import type { UnknownError } from './constants';
+import type { AsyncResult } from './async-result';
+import type { AbortedErrorName, AggregateErrorName, InvalidResultErrorName, InvalidResultJSONErrorName, ResultJSONVersion, RetryErrorName, TapErrorName, TimeoutErrorName, UnknownError, ValidationErrorName } from './constants';
 
 /**
  * Type alias for the {@link UnknownError} constant.
@@ -7,6 +8,59 @@ import type { UnknownError } from './constants';
  */
 export type IUnknownError = typeof UnknownError;
 
+/**
+ * Type alias for the {@link AggregateErrorName} constant.
+ * Represents the string literal type "aggregate".
+ */
+export type IAggregateError = typeof AggregateErrorName;
+
+/**
+ * Type alias for the {@link AbortedErrorName} constant.
+ * Represents the string literal type "aborted".
+ */
+export type IAbortedError = typeof AbortedErrorName;
+
+/**
+ * Type alias for the {@link ValidationErrorName} constant.
+ * Represents the string literal type "validation".
+ */
+export type IValidationError = typeof ValidationErrorName;
+
+/**
+ * Type alias for the {@link TapErrorName} constant.
+ * Represents the string literal type "tap".
+ */
+export type ITapError = typeof TapErrorName;
+
+/**
+ * Type alias for the {@link RetryErrorName} constant.
+ * Represents the string literal type "retry".
+ */
+export type IRetryError = typeof RetryErrorName;
+
+/**
+ * Type alias for the {@link TimeoutErrorName} constant.
+ * Represents the string literal type "timeout".
+ */
+export type ITimeoutError = typeof TimeoutErrorName;
+
+/**
+ * Type alias for the {@link InvalidResultJSONErrorName} constant.
+ * Represents the string literal type "invalid-result-json".
+ */
+export type IInvalidResultJSONError = typeof InvalidResultJSONErrorName;
+
+/**
+ * Type alias for the {@link InvalidResultErrorName} constant.
+ * Represents the string literal type "invalid-result".
+ */
+export type IInvalidResultError = typeof InvalidResultErrorName;
+
+/**
+ * Type alias for the {@link ResultJSONVersion} constant.
+ */
+export type IResultJSONVersion = typeof ResultJSONVersion;
+
 /**
  * Type representing a generic success result with unknown data.
  * Used internally for type-safe result handling when the data type is not specified.
@@ -33,6 +87,27 @@ export type IUnknownErr = { success: false; error: string; reason: unknown, stac
  */
 export type IUnknownOkErr = IUnknownOk | IUnknownErr;
 
+/**
+ * The result type a result is upgraded to by {@link from}.
+ * `Ok` and `Err` instances are kept, plain `{ success, data }` and `{ success, error, reason }` objects
+ * (parsed JSON, results of another copy of tryless) become an `Ok` or `Err` with the same data, error and reason.
+ *
+ * @template R - The result type
+ *
+ * @example
+ * ```ts
+ * type Upgraded = IResultFrom<{ success: true; data: number } | { success: false; error: 'NotFound'; reason: string }>;
+ * // Result: Ok<number> | Err<'NotFound', string>
+ * ```
+ */
+export type IResultFrom<R> = R extends Ok<unknown> | Err<string, unknown, unknown>
+  ? R
+  : R extends { success: true; data: infer T }
+    ? Ok<T>
+    : R extends { success: false; error: infer E extends string; reason: infer V }
+      ? Err<E, V>
+      : never;
+
 
 /**
  * Represents a result type that can be either a success (Ok) or an error (Err).
@@ -120,7 +195,7 @@ export type IResult<T, E extends IUnknownErr | { [key: string]: unknown }> =
  * }
  * ```
  */
-export type IOkOf<T> = T extends Ok<infer U> ? Ok<U> : never;
+export type IOkOf<T> = T extends { success: true; data: infer U } ? Ok<U> : never;
 
 /**
  * Extracts the data type from an Ok type.
@@ -149,12 +224,13 @@ export type IOkOf<T> = T extends Ok<infer U> ? Ok<U> : never;
  * }
  * ```
  */
-export type IOkDataOf<T> = T extends Ok<infer U> ? U : never;
+export type IOkDataOf<T> = T extends { success: true; data: infer U } ? U : never;
 
 /**
  * Extracts a specific Err type from a Result's error union by error name.
  * If K is provided, only returns the Err type with that specific name.
  * If the error name doesn't exist, returns never.
+ * Plain error objects give the `Err` they are upgraded to by {@link from}.
  *
  * @template E - The error union type
  * @template K - Optional error name to filter by (defaults to any string)
@@ -184,10 +260,66 @@ export type IOkDataOf<T> = T extends Ok<infer U> ? U : never;
  * }
  * ```
  */
-export type IErrOf<E, K extends string = string> = E extends Err<infer U, infer V>
-  ? U extends K ? Err<U, V> : never
+export type IErrOf<E, K extends string = string> = E extends Err<infer U, infer V, infer C>
+  ? U extends IErrNameMatchOf<K> ? Err<U, V, C> : never
+  : E extends { success: false; error: infer U extends string; reason: infer V }
+    ? U extends IErrNameMatchOf<K> ? Err<U, V> : never
+    : never;
+
+/**
+ * Turns an error name or namespace pattern into the type of the names it matches.
+ * A pattern ending with `:*` matches every name of the namespace, including nested namespaces.
+ *
+ * @template K - Error name or namespace pattern
+ *
+ * @example
+ * ```ts
+ * type Names = IErrNameMatchOf<'bitcoin:*'>;
+ * // Result: `bitcoin:${string}`
+ *
+ * type Name = IErrNameMatchOf<'NotFound'>;
+ * // Result: 'NotFound'
+ * ```
+ */
+export type IErrNameMatchOf<K extends string> = K extends `${infer N}:*` ? `${N}:${string}` : K;
+
+/**
+ * Lists every namespace of an error name as a pattern, from the outermost to the innermost.
+ *
+ * @template N - The error name
+ * @template P - Namespaces already walked
+ */
+type INamespacesOf<N extends string, P extends string = ''> = N extends `${infer H}:${infer T}`
+  ? `${P}${H}:*` | INamespacesOf<T, `${P}${H}:`>
   : never;
 
+/**
+ * Extracts every namespace pattern used by the errors of a Result type.
+ *
+ * @template E - The Result or error union type
+ *
+ * @example
+ * ```ts
+ * type Namespaces = IErrNamespacesOf<Err<'repo:db:timeout'> | Err<'bitcoin:no-content'>>;
+ * // Result: 'repo:*' | 'repo:db:*' | 'bitcoin:*'
+ * ```
+ */
+export type IErrNamespacesOf<E> = INamespacesOf<IErrOf<E>['error']>;
+
+/**
+ * Prefixes the name of every error of a union with a namespace, keeping each reason and cause.
+ *
+ * @template E - The Result or error union type
+ * @template P - The namespace to add
+ *
+ * @example
+ * ```ts
+ * type RepoErr = IPrefixedErrOf<Err<'db:timeout', number>, 'repo'>;
+ * // Result: Err<'repo:db:timeout', number>
+ * ```
+ */
+export type IPrefixedErrOf<E, P extends string> = E extends Err<infer U, infer V, infer C> ? Err<`${P}:${U}`, V, C> : never;
+
 /**
  * Extracts the reason type from an Err type.
  * If K is provided, only returns the reason type for that specific error name.
@@ -229,6 +361,855 @@ export type IErrOf<E, K extends string = string> = E extends Err<infer U, infer
  * }
  * ```
  */
-export type IErrReasonOf<E, K extends string = string> = E extends Err<infer U, infer V>
-  ? U extends K ? V : never
+export type IErrReasonOf<E, K extends string = string> = E extends { success: false; error: infer U extends string; reason: infer V }
+  ? U extends IErrNameMatchOf<K> ? V : never
   : never;
+
+/**
+ * Handlers accepted by {@link match} for a result type.
+ * Takes an `ok` handler for the data, handlers per error name receiving the reason,
+ * handlers per namespace pattern (`'bitcoin:*'`) receiving the error result, and a `_` fallback receiving the error result.
+ * Every error must be handled by name, by namespace or by the fallback, which {@link IMatchStrictCases} enforces.
+ *
+ * @template R - The Result type to match on
+ *
+ * @example
+ * ```ts
+ * type UserResult = IResult<User, { NotFound: string; Underage: { age: number } }>;
+ *
+ * const cases: IMatchCases<UserResult> = {
+ *   ok: (user) => user.name,
+ *   NotFound: (reason) => reason,
+ *   Underage: (reason) => `Too young: ${reason.age}`,
+ * };
+ *
+ * // With a fallback, handlers for individual errors become optional
+ * const partial: IMatchCases<UserResult> = {
+ *   ok: (user) => user.name,
+ *   _: (errorResult) => errorResult.error,
+ * };
+ * ```
+ */
+export type IMatchCases<R> = { ok: (data: IOkDataOf<R>) => unknown }
+  & { [K in IErrOf<R>['error']]?: (reason: IErrReasonOf<R, K>) => unknown }
+  & { [P in IErrNamespacesOf<R>]?: (errorResult: IErrOf<R, P>) => unknown }
+  & { _?: (errorResult: IErrOf<R>) => unknown };
+
+/**
+ * Error names of a Result type that are not handled by the name or namespace handlers of `H`.
+ *
+ * @template R - The Result type to match on
+ * @template H - Type of the handlers object
+ */
+type IUnhandledErrNamesOf<R, H> = {
+  [K in IErrOf<R>['error']]: K extends keyof H
+    ? never
+    : true extends { [P in keyof H & string]: K extends IErrNameMatchOf<P> ? true : never }[keyof H & string] ? never : K
+}[IErrOf<R>['error']];
+
+/**
+ * Validates handlers given to {@link match}: rejects keys that are neither an error name nor a namespace of the result type,
+ * catching typos at compile time, and requires a handler for every error not covered by a namespace handler,
+ * unless a `_` fallback is given.
+ *
+ * @template R - The Result type to match on
+ * @template H - Type of the handlers object
+ */
+export type IMatchStrictCases<R, H> = H
+  & { [K in Exclude<keyof H, 'ok' | '_' | IErrOf<R>['error'] | IErrNamespacesOf<R>>]: never }
+  & ('_' extends keyof H ? unknown : { [K in IUnhandledErrNamesOf<R, H>]: (reason: IErrReasonOf<R, K>) => unknown });
+
+/**
+ * Union of the return types of the handlers given to {@link match}.
+ *
+ * @template H - Type of the handlers object
+ *
+ * @example
+ * ```ts
+ * type Value = IMatchResult<{ ok: (data: number) => string; NotFound: () => null }>;
+ * // Result: string | null
+ * ```
+ */
+export type IMatchResult<H> = {
+  [K in keyof H]-?: H[K] extends (...args: never[]) => infer U ? U : never
+}[keyof H];
+
+/**
+ * A collection of results accepted by the {@link Result} combinators:
+ * either an array/tuple of results or an object whose values are results.
+ */
+export type IResultsOf = readonly IUnknownOkErr[] | { readonly [key: string]: IUnknownOkErr };
+
+/**
+ * Union of the results contained in a collection of results.
+ *
+ * @template T - The collection of results
+ */
+export type IResultsValueOf<T> = T extends readonly unknown[] ? T[number] : T[keyof T];
+
+/**
+ * Result type returned by {@link Result.all}: the data of every result,
+ * keeping the tuple or object shape, or the first error.
+ *
+ * @template T - The collection of results
+ *
+ * @example
+ * ```ts
+ * type All = IAllResult<[Ok<number>, Ok<string> | Err<'NotFound', string>]>;
+ * // Result: Ok<[number, string]> | Err<'NotFound', string>
+ * ```
+ */
+export type IAllResult<T> =
+  | Ok<{ -readonly [K in keyof T]: IOkDataOf<T[K]> }>
+  | IErrOf<IResultsValueOf<T>>;
+
+/**
+ * Result type returned by {@link Result.collect}: the data of every result,
+ * or an aggregate error whose reason holds every error.
+ * Tuples collect errors in an array, objects collect them by key.
+ *
+ * @template T - The collection of results
+ *
+ * @example
+ * ```ts
+ * type Collected = ICollectResult<{ a: Ok<number> | Err<'A', string>; b: Ok<string> | Err<'B', number> }>;
+ * // Result: Ok<{ a: number; b: string }> | Err<'aggregate', { a?: Err<'A', string>; b?: Err<'B', number> }>
+ * ```
+ */
+export type ICollectResult<T> =
+  | Ok<{ -readonly [K in keyof T]: IOkDataOf<T[K]> }>
+  | Err<IAggregateError, T extends readonly unknown[] ? IErrOf<T[number]>[] : { -readonly [K in keyof T]?: IErrOf<T[K]> }>;
+
+/**
+ * Result type returned by {@link Result.any}: the data of the first success,
+ * or an aggregate error whose reason holds every error, keeping the tuple or object shape.
+ *
+ * @template T - The collection of results
+ *
+ * @example
+ * ```ts
+ * type Any = IAnyResult<[Ok<number> | Err<'A', string>, Ok<string> | Err<'B', number>]>;
+ * // Result: Ok<number | string> | Err<'aggregate', [Err<'A', string>, Err<'B', number>]>
+ * ```
+ */
+export type IAnyResult<T> =
+  | Ok<IOkDataOf<IResultsValueOf<T>>>
+  | Err<IAggregateError, { -readonly [K in keyof T]: IErrOf<T[K]> }>;
+
+/**
+ * Pair returned by {@link Result.partition}: the data of every success and every error.
+ * Arrays are split into two arrays, objects into two partial objects keeping each key.
+ *
+ * @template T - The collection of results
+ *
+ * @example
+ * ```ts
+ * type Parts = IPartitionResult<(Ok<number> | Err<'NotFound', string>)[]>;
+ * // Result: [number[], Err<'NotFound', string>[]]
+ * ```
+ */
+export type IPartitionResult<T> = T extends readonly unknown[]
+  ? [IOkDataOf<T[number]>[], IErrOf<T[number]>[]]
+  : [{ -readonly [K in keyof T]?: IOkDataOf<T[K]> }, { -readonly [K in keyof T]?: IErrOf<T[K]> }];
+
+/**
+ * Location of a value inside a nested structure, such as a form field.
+ * Keys are property names for objects and indexes for arrays.
+ *
+ * @example
+ * ```ts
+ * const path: IFieldPath = ['addresses', 0, 'zip'];
+ * ```
+ */
+export type IFieldPath = (string | number)[];
+
+/**
+ * Error results of a union with their field path attached.
+ *
+ * @template E - The error union
+ */
+export type IPathErrOf<E> = E extends IUnknownErr ? E & { path: IFieldPath } : never;
+
+/**
+ * Checks accepted by {@link Result.validate}: a result, or an array or object nesting checks.
+ */
+export type IValidationShape = IUnknownOkErr | readonly IValidationShape[] | { readonly [key: string]: IValidationShape };
+
+/**
+ * Data produced by a successful validation, keeping the nested shape of the checks.
+ *
+ * @template T - The checks
+ */
+export type IValidatedData<T> = T extends IUnknownOkErr
+  ? IOkDataOf<T>
+  : { -readonly [K in keyof T]: IValidatedData<T[K]> };
+
+/**
+ * Union of every error result the checks can produce.
+ *
+ * @template T - The checks
+ */
+export type IValidationErrOf<T> = T extends IUnknownOkErr
+  ? IErrOf<T>
+  : T extends readonly unknown[] ? IValidationErrOf<T[number]> : IValidationErrOf<T[keyof T]>;
+
+/**
+ * Result type returned by {@link Result.validate}: the data of every check,
+ * or a validation error whose reason lists every failed check with its field path.
+ *
+ * @template T - The checks
+ *
+ * @example
+ * ```ts
+ * type Validated = IValidatedResult<{ name: Ok<string> | Err<'NameRequired'>; age: Ok<number> | Err<'Underage', number> }>;
+ * // Result: Ok<{ name: string; age: number }>
+ * //   | Err<'validation', ((Err<'NameRequired'> | Err<'Underage', number>) & { path: IFieldPath })[]>
+ * ```
+ */
+export type IValidatedResult<T> =
+  | Ok<IValidatedData<T>>
+  | Err<IValidationError, IPathErrOf<IValidationErrOf<T>>[]>;
+
+/**
+ * A lazily started asynchronous step returning a result.
+ * Receives an `AbortSignal` that is aborted when the combinator running it no longer needs its result.
+ */
+export type IAsyncTask = (signal: AbortSignal) => IUnknownOkErr | PromiseLike<IUnknownOkErr>;
+
+/**
+ * A collection of tasks accepted by the {@link AsyncResult} combinators:
+ * an array/tuple of tasks, an object whose values are tasks, or any iterable of tasks.
+ */
+export type IAsyncTasksOf = readonly IAsyncTask[] | { readonly [key: string]: IAsyncTask } | Iterable<IAsyncTask>;
+
+/**
+ * Collection of the results produced by a collection of tasks, keeping the tuple or object shape.
+ * Other iterables produce an array.
+ *
+ * @template T - The collection of tasks
+ *
+ * @example
+ * ```ts
+ * type Results = ITaskResultsOf<[() => Promise<Ok<number>>, () => Err<'NotFound'>]>;
+ * // Result: [Ok<number>, Err<'NotFound'>]
+ * ```
+ */
+export type ITaskResultsOf<T> = T extends readonly unknown[] | { readonly [key: string]: IAsyncTask }
+  ? { -readonly [K in keyof T]: T[K] extends IAsyncTask ? Awaited<ReturnType<T[K]>> : never }
+  : T extends Iterable<infer F extends IAsyncTask> ? Awaited<ReturnType<F>>[] : never;
+
+/**
+ * Options accepted by the {@link AsyncResult} combinators.
+ *
+ * @property concurrency - Maximum number of tasks running at the same time (defaults to no limit)
+ * @property signal - Signal that stops scheduling and aborts in-flight tasks when aborted
+ */
+export type IConcurrencyOptions = { concurrency?: number; signal?: AbortSignal };
+
+/**
+ * How error results capture their stack trace.
+ * - `'eager'`: captures the stack trace on the error when it is created (default)
+ * - `'lazy'`: like `'eager'`, and copies made by `mapErr`, `mapReason`, `prefixErr` or `atPath` read the stack trace
+ *   of the original error when their `stack` is first read, instead of formatting it when they are created
+ * - `'off'`: never captures a stack trace
+ * - `{ sampleRate }`: captures eagerly for a fraction (0 to 1) of the errors, never for the others
+ */
+export type IStackCapture = 'eager' | 'lazy' | 'off' | { sampleRate: number };
+
+/**
+ * How results are frozen when they are created.
+ * - `'off'`: results are not frozen (default)
+ * - `'shallow'`: results are frozen with `Object.freeze`, their data and reason are left untouched
+ * - `'deep'`: results are frozen with the plain objects and arrays of their data or reason, recursively;
+ *   class instances, maps and sets are left untouched
+ */
+export type IFreezeMode = 'off' | 'shallow' | 'deep';
+
+/**
+ * Global configuration of the library.
+ *
+ * @property stackCapture - How error results capture their stack trace
+ * @property freeze - How results are frozen when they are created
+ */
+export type IConfig = { stackCapture: IStackCapture; freeze: IFreezeMode };
+
+/**
+ * Options of {@link frozen}.
+ *
+ * @property deep - Also freezes the data or reason, recursively (defaults to false)
+ */
+export type IFrozenOptions = { deep?: boolean };
+
+/**
+ * Makes a type readonly recursively, including arrays, maps and sets. Functions are left as is.
+ * This is checked at compile time only: the deep freeze mode freezes plain objects and arrays, not maps, sets or class instances.
+ *
+ * @template T - The type to make readonly
+ */
+export type IDeepReadonly<T> =
+  T extends (...args: never[]) => unknown ? T
+    : T extends ReadonlyMap<infer K, infer V> ? ReadonlyMap<IDeepReadonly<K>, IDeepReadonly<V>>
+      : T extends ReadonlySet<infer V> ? ReadonlySet<IDeepReadonly<V>>
+        : T extends object ? { readonly [K in keyof T]: IDeepReadonly<T[K]> }
+          : T;
+
+/**
+ * Type of a result returned by {@link frozen}: its fields become readonly and, with `deep`,
+ * its data or reason becomes deeply readonly.
+ *
+ * @template R - Type of the result
+ * @template O - Type of the frozen options
+ */
+export type IFrozen<R, O extends IFrozenOptions = IFrozenOptions> = R extends unknown
+  ? Readonly<
+    O extends { deep: true }
+      ? R extends Ok<infer T>
+        ? Ok<IDeepReadonly<T>>
+        : R extends { error: infer E extends string; reason: infer V; cause?: infer C } ? Err<E, IDeepReadonly<V>, C> : R
+      : R
+  >
+  : never;
+
+/**
+ * Options accepted when creating an error result.
+ *
+ * @template C - Type of the cause
+ * @property cause - The error (usually another Err) that caused this one, mirroring `Error.cause`
+ * @property stack - Overrides the configured stack capture for this error
+ */
+export type IErrOptions<C = unknown> = { cause?: C; stack?: IStackCapture };
+
+/**
+ * Lists every error result reachable through the cause chain of an error union,
+ * including the errors themselves.
+ *
+ * @template E - The error union type
+ *
+ * @example
+ * ```ts
+ * type Loaded = Err<'user:load-failed', undefined, Err<'db:timeout', number>>;
+ * type Chain = IErrChainOf<Loaded>;
+ * // Result: Err<'user:load-failed', undefined, Err<'db:timeout', number>> | Err<'db:timeout', number>
+ * ```
+ */
+export type IErrChainOf<E> = E extends Err<string, unknown, infer C>
+  ? E | IErrChainOf<C>
+  : never;
+
+/**
+ * Lists every error name reachable through the cause chain of an error union.
+ *
+ * @template E - The error union type
+ *
+ * @example
+ * ```ts
+ * type Loaded = Err<'user:load-failed', undefined, Err<'db:timeout', number>>;
+ * type Names = IErrChainNamesOf<Loaded>;
+ * // Result: 'user:load-failed' | 'db:timeout'
+ * ```
+ */
+export type IErrChainNamesOf<E> = IErrChainOf<E>['error'];
+
+/**
+ * JSON wire shape of a success result.
+ *
+ * @template T - Type of the serialized data
+ * @property $tryless - Version of the wire shape
+ * @property success - Always true for success results
+ * @property data - The serialized data
+ */
+export type IOkJSON<T = unknown> = { $tryless: IResultJSONVersion; success: true; data: T };
+
+/**
+ * JSON wire shape of an error result.
+ *
+ * @template E - String literal type of the error identifier
+ * @template R - Type of the serialized reason
+ * @property $tryless - Version of the wire shape
+ * @property success - Always false for error results
+ * @property error - The error identifier
+ * @property reason - The serialized reason, with `Error` instances converted by the serialization options
+ * @property stack - Stack trace, only present when requested by the serialization options
+ * @property cause - The serialized cause, only present when the error has one
+ * @property path - The field path, only present when the error has one
+ */
+export type IErrJSON<E extends string = string, R = unknown> = {
+  $tryless: IResultJSONVersion;
+  success: false;
+  error: E;
+  reason: R;
+  stack?: string;
+  cause?: unknown;
+  path?: IFieldPath;
+};
+
+/**
+ * JSON wire shape of a result.
+ */
+export type IResultJSON = IOkJSON | IErrJSON;
+
+/**
+ * Options of result serialization.
+ *
+ * @property stack - Includes the stack trace of errors and `Error` instances (defaults to false)
+ * @property serializeError - Converts `Error` instances found in data, reasons and causes (defaults to `{ name, message }`)
+ */
+export type IJSONOptions = {
+  stack?: boolean;
+  serializeError?: (error: Error) => unknown;
+};
+
+/**
+ * Options of result equality.
+ *
+ * @property deep - Compares data and reasons structurally (default) instead of with `Object.is`
+ * @property compareReason - Compares the reasons of errors (defaults to true)
+ * @property equal - Compares data and reasons with a custom equality, overriding `deep`
+ */
+export type IEqualsOptions = {
+  deep?: boolean;
+  compareReason?: boolean;
+  equal?: (a: unknown, b: unknown) => boolean;
+};
+
+/**
+ * Options of result hashing.
+ *
+ * @property compareReason - Includes the reasons of errors in the hash (defaults to true)
+ */
+export type IHashOptions = Pick<IEqualsOptions, 'compareReason'>;
+
+/**
+ * Marker declaring the reason type of an error in a catalog. Has no runtime meaning.
+ * Created with {@link reasonType}.
+ *
+ * @template T - Type of the reason
+ */
+export type IReasonType<T> = { readonly reasonType?: (reason: T) => void };
+
+/**
+ * Declaration of an error in a catalog: its reason type, message and any metadata (HTTP status, log level...).
+ *
+ * @property reason - Marker of the reason type, created with {@link reasonType}
+ * @property message - Human readable message, or a function building it from the reason
+ */
+export type IErrorDefinition = {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  reason?: IReasonType<any>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  message?: string | ((reason: any) => string);
+  [key: string]: unknown;
+};
+
+/**
+ * Error declarations of a catalog, keyed by error name.
+ */
+export type IErrorDefinitions = { [name: string]: IErrorDefinition };
+
+/**
+ * Names reserved by the helpers of a catalog, that cannot be used as error names.
+ */
+export type IReservedErrorName = 'definitions' | 'is' | 'meta' | 'message';
+
+/**
+ * Reason type of an error declaration: the type given to {@link reasonType},
+ * else the parameter of the message function, else undefined.
+ *
+ * @template D - The error declaration
+ */
+export type IDefinitionReasonOf<D> = D extends { reason: IReasonType<infer R> }
+  ? R
+  : D extends { message: (reason: infer R) => string } ? R : undefined;
+
+/**
+ * Typed constructor of a catalog error, with the error name, its metadata and a type guard.
+ * The reason is optional when its type is undefined.
+ *
+ * @template N - The error name
+ * @template D - The error declaration
+ */
+export type IErrorConstructor<N extends string, D> = ([IDefinitionReasonOf<D>] extends [undefined]
+  ? (reason?: IDefinitionReasonOf<D>, options?: IErrOptions) => Err<N, IDefinitionReasonOf<D>>
+  : (reason: IDefinitionReasonOf<D>, options?: IErrOptions) => Err<N, IDefinitionReasonOf<D>>) & {
+  readonly error: N;
+  readonly meta: D;
+  is(value: unknown): value is Err<N, IDefinitionReasonOf<D>>;
+};
+
+/**
+ * Error map of a catalog, compatible with the error specification of {@link IResult}.
+ *
+ * @template C - The catalog, or its declarations
+ *
+ * @example
+ * ```ts
+ * const UserErrors = defineErrors({ NotFound: { reason: reasonType<string>() }, Underage: {} });
+ * type UserResult = IResult<User, ICatalogErrorsOf<typeof UserErrors>>;
+ * // Ok<User> | Err<'NotFound', string> | Err<'Underage', undefined>
+ * ```
+ */
+export type ICatalogErrorsOf<C> = C extends { definitions: infer T } ? ICatalogErrorsOf<T> : {
+  [K in keyof C & string]: IDefinitionReasonOf<C[K]>;
+};
+
+/**
+ * Union of the error results of a catalog, optionally filtered by name.
+ *
+ * @template C - The catalog, or its declarations
+ * @template K - Error names to keep (defaults to every name)
+ */
+export type ICatalogErrOf<C, K extends keyof ICatalogErrorsOf<C> = keyof ICatalogErrorsOf<C>> = {
+  [N in K & string]: Err<N, ICatalogErrorsOf<C>[N]>;
+}[K & string];
+
+/**
+ * Catalog returned by {@link defineErrors}: a typed constructor per error,
+ * plus type guards and metadata lookup shared by every error.
+ *
+ * @template T - The error declarations
+ */
+export type IErrorCatalog<T extends IErrorDefinitions> = {
+  readonly [K in keyof T & string]: IErrorConstructor<K, T[K]>;
+} & {
+  /**
+   * The error declarations the catalog was created from.
+   */
+  readonly definitions: T;
+
+  /**
+   * Checks that a value is an error of this catalog, optionally with one of the given names.
+   */
+  is<K extends keyof T & string = keyof T & string>(value: unknown, ...names: K[]): value is ICatalogErrOf<T, K>;
+
+  /**
+   * Returns the declaration of an error, by name or from an error result.
+   */
+  meta<K extends keyof T & string>(error: K | { error: K }): T[K];
+
+  /**
+   * Returns the message of an error result, built from its reason when the message is a function.
+   * Falls back to the error name when the error declares no message.
+   */
+  message(error: ICatalogErrOf<T>): string;
+};
+
+/**
+ * Options accepted by `tap` and `tapErr`.
+ *
+ * @property exceptions - What to do when the side effect throws or rejects:
+ * `'propagate'` (default) rethrows, `'err'` returns an `Err<'tap', unknown>` holding the exception
+ */
+export type ITapOptions = { exceptions?: 'propagate' | 'err' };
+
+/**
+ * Error added by `tap` and `tapErr` to the result type when exceptions are turned into errors.
+ *
+ * @template O - Type of the tap options
+ */
+export type ITapErrOf<O> = O extends { exceptions: 'err' } ? Err<ITapError, unknown> : never;
+
+/**
+ * Return type of `tap` and `tapErr` on a result: the same result type, wrapped in an {@link AsyncResult}
+ * when the side effect returns a promise. Results for which the side effect does not run (`P`)
+ * are returned as they are, so an async tap gives a union that is awaited or passed to `AsyncResult.from`.
+ *
+ * @template S - Type of the tapped result
+ * @template U - Return type of the side effect
+ * @template O - Type of the tap options
+ * @template P - Results returned without running the side effect (defaults to any of `S`)
+ *
+ * @example
+ * ```ts
+ * type Sync = ITapResult<Ok<User> | Err<'NotFound'>, void, {}>;
+ * // Result: Ok<User> | Err<'NotFound'>
+ *
+ * type Async = ITapResult<Ok<User> | Err<'NotFound'>, Promise<void>, { exceptions: 'err' }, Err<'NotFound'>>;
+ * // Result: Err<'NotFound'> | AsyncResult<User, Err<'NotFound'> | Err<'tap', unknown>>
+ * ```
+ */
+export type ITapResult<S, U, O, P = S> = U extends PromiseLike<unknown>
+  ? P | AsyncResult<S extends { success: true; data: infer D } ? D : never, Extract<S, { success: false }> | ITapErrOf<O>>
+  : S | ITapErrOf<O>;
+
+/**
+ * Source of time used by time-based helpers such as `retry`.
+ * Inject a fake clock to run them in tests without waiting.
+ *
+ * @property now - Returns the current time in milliseconds
+ * @property sleep - Resolves after the given number of milliseconds, or early when the signal is aborted
+ */
+export type IClock = {
+  now: () => number;
+  sleep: (ms: number, signal?: AbortSignal) => PromiseLike<void>;
+};
+
+/**
+ * Delay policy between the attempts of `retry`.
+ * - `fixed`: waits `delay` milliseconds between attempts
+ * - `exponential`: waits `delay * factor ** (retry - 1)` milliseconds, `factor` defaulting to 2, capped at `maxDelay`
+ * - `decorrelated-jitter`: waits a random delay between `delay` and three times the previous delay, capped at `maxDelay`
+ */
+export type IRetryBackoff =
+  | { type: 'fixed'; delay: number }
+  | { type: 'exponential'; delay: number; factor?: number; maxDelay?: number }
+  | { type: 'decorrelated-jitter'; delay: number; maxDelay: number };
+
+/**
+ * Policy accepted by `retry` for a function returning results of type `R`.
+ *
+ * @template R - The result type returned by the retried function
+ * @property on - Error names or namespace patterns to retry (defaults to every error)
+ * @property maxAttempts - Maximum number of attempts, including the first one (defaults to 3)
+ * @property maxElapsed - Maximum time in milliseconds spent retrying; no attempt starts once the next delay would exceed it
+ * @property backoff - Delay between attempts (defaults to no delay)
+ * @property signal - Signal that stops retrying when aborted
+ * @property clock - Clock used to wait and measure elapsed time (defaults to timers and `Date.now`)
+ * @property random - Random number generator used by jittered backoffs (defaults to `Math.random`)
+ */
+export type IRetryPolicy<R> = {
+  on?: readonly (IErrOf<R>['error'] | IErrNamespacesOf<R>)[];
+  maxAttempts?: number;
+  maxElapsed?: number;
+  backoff?: IRetryBackoff;
+  signal?: AbortSignal;
+  clock?: IClock;
+  random?: () => number;
+};
+
+/**
+ * Record of a failed attempt of `retry`.
+ *
+ * @template E - Type of the error result of the attempt
+ * @property attempt - Number of the attempt, starting at 1
+ * @property error - Error result returned by the attempt
+ * @property elapsed - Milliseconds elapsed since the first attempt started when the attempt failed
+ */
+export type IRetryAttempt<E> = { attempt: number; error: E; elapsed: number };
+
+/**
+ * Result type of `retry`: the success data of the function, the errors that are not retried,
+ * an `Err<'retry'>` listing every attempt when retries are exhausted,
+ * and an `Err<'aborted'>` when a signal is given.
+ *
+ * @template R - The result type returned by the retried function
+ * @template P - Type of the retry policy
+ *
+ * @example
+ * ```ts
+ * type PriceResult = Ok<number> | Err<'fetch:timeout'> | Err<'bitcoin:no-content'>;
+ * type Retried = IRetryResult<PriceResult, { on: ['fetch:*'] }>;
+ * // Result: Ok<number> | Err<'bitcoin:no-content'> | Err<'retry', IRetryAttempt<Err<'fetch:timeout'>>[], Err<'fetch:timeout'>>
+ * ```
+ */
+export type IRetryResult<R, P> = IRetryOnOf<R, P> extends infer K extends string
+  ? Extract<R, { success: true }>
+    | Exclude<IErrOf<R>, { error: IErrNameMatchOf<K> }>
+    | Err<IRetryError, IRetryAttempt<IErrOf<R, K>>[], IErrOf<R, K>>
+    | (P extends { signal: AbortSignal } ? Err<IAbortedError, unknown> : never)
+  : never;
+
+/**
+ * Error names or namespace patterns retried by a retry policy.
+ *
+ * @template R - The result type returned by the retried function
+ * @template P - Type of the retry policy
+ */
+type IRetryOnOf<R, P> = P extends { on: readonly (infer K extends string)[] } ? K : IErrOf<R>['error'];
+
+/**
+ * Time budget shared by the steps run with `withTimeout`.
+ * Its signal is aborted with a `TimeoutError` when the budget is spent, or when its parent deadline is aborted.
+ *
+ * @property ms - The time budget in milliseconds, bounded by the parent deadline
+ * @property expiresAt - Time at which the budget is spent, bounded by the parent deadline
+ * @property signal - Signal aborted when the budget is spent
+ * @property remaining - Returns the milliseconds left before the budget is spent
+ * @property dispose - Stops the timer of the deadline without aborting its signal
+ */
+export type IDeadline = {
+  readonly ms: number;
+  readonly expiresAt: number;
+  readonly signal: AbortSignal;
+  remaining: () => number;
+  dispose: () => void;
+};
+
+/**
+ * Options accepted by `deadline`.
+ *
+ * @property parent - Deadline bounding the new one: the new deadline never expires after it
+ * @property clock - Clock used to measure and wait for the budget (defaults to timers and `Date.now`)
+ */
+export type IDeadlineOptions = { parent?: IDeadline; clock?: IClock };
+
+/**
+ * Work accepted by `withTimeout`: a promise of a result, or a function receiving the abort signal
+ * and the deadline of the work.
+ *
+ * @template R - The result type of the work
+ */
+export type ITimeoutWork<R> = PromiseLike<R> | ((signal: AbortSignal, deadline: IDeadline) => R | PromiseLike<R>);
+
+/**
+ * Error results of `withTimeout`: the errors of the work, the timeout error, and an aborted error
+ * when a shared deadline can be aborted by its parent before its budget is spent.
+ *
+ * @template R - The result type of the work
+ * @template F - String literal type of the timeout error name
+ * @template T - Type of the time budget, in milliseconds or a deadline
+ *
+ * @example
+ * ```ts
+ * type Timed = ITimeoutErrorsOf<Ok<number> | Err<'fetch:fetch-error'>, 'timeout', IDeadline>;
+ * // Result: Err<'fetch:fetch-error'> | Err<'timeout', { ms: number }> | Err<'aborted', unknown>
+ * ```
+ */
+export type ITimeoutErrorsOf<R, F extends string, T> =
+  | Extract<IResultFrom<R>, { success: false }>
+  | Err<F, { ms: number }>
+  | (T extends IDeadline ? Err<IAbortedError, unknown> : never);
+
+/**
+ * Function returned by `resultfy` for a function `F`, failing with the errors `X`:
+ * it returns an AsyncResult when `F` returns a promise, otherwise an `Ok` of its return value or an error.
+ *
+ * @template F - Type of the wrapped function
+ * @template X - Error results of the wrapped function
+ */
+export type IResultfied<F, X extends IUnknownErr> = F extends (...args: infer A) => infer R
+  ? [R] extends [never]
+    ? (...args: A) => X
+    : [R] extends [Promise<never>]
+      ? (...args: A) => AsyncResult<never, X>
+      : [R] extends [Promise<infer U>]
+        ? (...args: A) => AsyncResult<U, X>
+        : (...args: A) => Ok<R> | X
+  : never;
+
+/**
+ * Matches thrown values in a `resultfy` table: a constructor, checked with `instanceof`,
+ * or a predicate called with the thrown value.
+ */
+export type IThrownMatcher = (abstract new (...args: never[]) => unknown) | ((thrown: unknown) => boolean);
+
+/**
+ * Table of `resultfy` mapping error names to the thrown values they match, checked in order.
+ */
+export type IThrownTable = Record<string, IThrownMatcher>;
+
+/**
+ * Reason of the errors created for a thrown value matched by `M`:
+ * the instance type of a constructor, the guarded type of a type predicate, otherwise unknown.
+ *
+ * @template M - Type of the matcher
+ */
+export type IThrownReasonOf<M> = M extends abstract new (...args: never[]) => infer I
+  ? I
+  : M extends (thrown: unknown) => thrown is infer G ? G : unknown;
+
+/**
+ * Errors created by `resultfy` from a table: one per entry, plus `Err<'unknown', unknown>` for unmatched values.
+ *
+ * @template T - Type of the table
+ */
+export type IThrownTableErrOf<T> = { [K in keyof T & string]: Err<K, IThrownReasonOf<T[K]>> }[keyof T & string] | Err<IUnknownError, unknown>;
+
+/**
+ * Errors created by `resultfy` with a classifier: the error results it returns, or the errors of a table.
+ *
+ * @template C - Type of the classifier function or table
+ */
+export type IClassifiedErrOf<C> = C extends (thrown: never) => (infer X extends IUnknownErr) ? X : IThrownTableErrOf<C>;
+
+/**
+ * Options accepted by `resultfyAll`.
+ *
+ * @template K - Keys of the wrapped object
+ * @property include - Only wraps these methods
+ * @property exclude - Leaves these methods unwrapped
+ */
+export type IResultfyAllOptions<K extends PropertyKey = PropertyKey> = { include?: readonly K[]; exclude?: readonly K[] };
+
+/**
+ * Errors returned by a method wrapped by `resultfyAll`: with a `'ns:*'` pattern, an error named after the method,
+ * otherwise the error name, classifier function or table applied to every method.
+ *
+ * @template E - Error name, pattern, classifier function or table
+ * @template K - Name of the method
+ */
+export type IMethodErrOf<E, K extends string> = E extends `${infer N}:*`
+  ? Err<`${N}:${K}`, unknown>
+  : E extends string ? Err<E, unknown> : IClassifiedErrOf<E>;
+
+/**
+ * Keys of the methods wrapped by `resultfyAll`, following its include and exclude options.
+ *
+ * @template T - Type of the wrapped object
+ * @template O - Type of the options
+ */
+export type IResultfiedKeysOf<T, O> = Exclude<
+  O extends { include: readonly (infer K)[] } ? K & keyof T : keyof T,
+  (O extends { exclude: readonly (infer K)[] } ? K : never) | 'constructor'
+>;
+
+/**
+ * Converts a union into the intersection of its members.
+ *
+ * @template U - The union to convert
+ */
+type IUnionToIntersection<U> = (U extends unknown ? (value: U) => void : never) extends (value: infer I) => void ? I : never;
+
+/**
+ * Lists the overload signatures of a function as a union of functions (up to four overloads).
+ *
+ * @template F - The function type
+ */
+export type IOverloadsOf<F> = F extends {
+  (...args: infer A1): infer R1;
+  (...args: infer A2): infer R2;
+  (...args: infer A3): infer R3;
+  (...args: infer A4): infer R4;
+}
+  ? ((...args: A1) => R1) | ((...args: A2) => R2) | ((...args: A3) => R3) | ((...args: A4) => R4)
+  : never;
+
+/**
+ * Function returned by `resultfy` for every overload of `F`.
+ *
+ * @template F - Type of the wrapped function
+ * @template X - Error results of the wrapped function
+ */
+export type IResultfiedOverloads<F, X extends IUnknownErr> = IUnionToIntersection<
+  IOverloadsOf<F> extends infer O ? (O extends unknown ? IResultfied<O, X> : never) : never
+>;
+
+/**
+ * Object returned by `resultfyAll`: its wrapped methods return results, other members are unchanged.
+ *
+ * @template T - Type of the wrapped object
+ * @template E - Error name, pattern, classifier function or table
+ * @template O - Type of the options
+ */
+export type IResultfiedAll<T, E, O = object> = {
+  [K in keyof T]: K extends IResultfiedKeysOf<T, O> & string
+    ? T[K] extends (...args: never[]) => unknown ? IResultfiedOverloads<T[K], IMethodErrOf<E, K>> : T[K]
+    : T[K];
+};
+
+/**
+ * Method decorator returned by `Resultfy`, usable as a standard (TC39) or legacy (`experimentalDecorators`) decorator.
+ */
+export type IResultfyDecorator = {
+  <F extends (...args: never[]) => unknown>(method: F, context: ClassMethodDecoratorContext): F;
+  (target: object, key: string | symbol, descriptor: PropertyDescriptor): PropertyDescriptor;
+};
+
+/**
+ * Type of an instance of `T` whose methods `K` are decorated with `@Resultfy(error)`:
+ * those methods return results, the other members are unchanged.
+ *
+ * @template T - Type of the instance
+ * @template K - Keys of the decorated methods
+ * @template E - Error name, `'ns:*'` pattern, classifier function or table given to the decorator
+ */
+export type IResultfyDecorated<T, K extends keyof T, E = IUnknownError> = IResultfiedAll<T, E, { include: readonly K[] }>;
@@ -0,0 +1,98 @@
+import { Err } from './result/classes';
+import { AsyncResult } from './result/async-result';
+import { AbortedErrorName, RetryErrorName } from './result/constants';
+import { matchesErrName } from './result/names';
+import { toResult } from './result/structural';
+import { systemClock } from './clock';
+import type { IResult, IRetryAttempt, IRetryBackoff, IRetryPolicy, IRetryResult, IUnknownErr, IUnknownOkErr } from './result/types';
+
+/**
+ * Computes the delay to wait before a retry.
+ *
+ * @param backoff - The backoff policy
+ * @param retry - Number of the retry, starting at 1
+ * @param previous - Delay waited before the previous retry, or the base delay before the first one
+ * @param random - Random number generator between 0 and 1
+ * @returns The delay in milliseconds
+ */
+function delayOf(backoff: IRetryBackoff | undefined, retry: number, previous: number, random: () => number): number {
+  if (!backoff) {
+    return 0;
+  }
+
+  switch (backoff.type) {
+    case 'fixed':
+      return backoff.delay;
+    case 'exponential':
+      return Math.min(backoff.maxDelay ?? Infinity, backoff.delay * (backoff.factor ?? 2) ** (retry - 1));
+    case 'decorrelated-jitter':
+      return Math.min(backoff.maxDelay, backoff.delay + random() * (previous * 3 - backoff.delay));
+  }
+}
+
+/**
+ * Calls a result-returning function until it succeeds, retrying the selected errors with a backoff policy.
+ * Errors that are not retried are returned as is. When the attempts or the elapsed time are exhausted,
+ * returns an `Err<'retry'>` listing every failed attempt, caused by the last error.
+ * When the policy signal is aborted, stops waiting and returns an `Err<'aborted'>` with the abort reason.
+ * Rejects if the function throws or rejects.
+ *
+ * @template R - The result type returned by the function
+ * @template P - Type of the retry policy
+ * @param fn - Function called for each attempt, receiving the attempt number starting at 1
+ * @param policy - Errors to retry, limits, backoff, signal and clock
+ * @returns AsyncResult of the first success, the first error not retried, or the retry or aborted error
+ * @throws {Error} If `maxAttempts` is not a positive number
+ *
+ * @example
+ * ```ts
+ * import { retry, resultfy } from 'tryless';
+ *
+ * const response = await retry(() => resultfy(fetch(url), 'fetch:fetch-error'), {
+ *   on: ['fetch:*'],
+ *   maxAttempts: 5,
+ *   maxElapsed: 10_000,
+ *   backoff: { type: 'exponential', delay: 100, maxDelay: 2_000 },
+ *   signal: request.signal,
+ * });
+ * // Ok<Response> | Err<'retry', IRetryAttempt<Err<'fetch:fetch-error', unknown>>[], ...> | Err<'aborted', unknown>
+ * ```
+ */
+export function retry<R extends IUnknownOkErr, const P extends IRetryPolicy<R> = IRetryPolicy<R>>(
+  fn: (attempt: number) => R | PromiseLike<R>,
+  policy?: P,
+): AsyncResult<R extends { success: true; data: infer D } ? D : never, Extract<IRetryResult<R, P>, { success: false }>> {
+  const { on, maxAttempts = 3, maxElapsed = Infinity, backoff, signal, clock = systemClock, random = Math.random } = policy ?? {};
+  if (!(maxAttempts >= 1)) {
+    throw new Error("maxAttempts must be a positive number");
+  }
+
+  const run = async (): Promise<unknown> => {
+    const attempts: IRetryAttempt<IUnknownErr>[] = [];
+    const start = clock.now();
+    let delay = backoff?.delay ?? 0;
+
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) {
+        return new Err(AbortedErrorName, signal.reason as unknown);
+      }
+
+      const result = toResult(await fn(attempt)) as IUnknownOkErr;
+      if (result.success || (on && !on.some((pattern) => matchesErrName(result.error, pattern)))) {
+        return result;
+      }
+
+      const elapsed = clock.now() - start;
+      attempts.push({ attempt, error: result, elapsed });
+
+      delay = delayOf(backoff, attempt, delay, random);
+      if (attempt >= maxAttempts || elapsed + delay > maxElapsed) {
+        return new Err(RetryErrorName, attempts, undefined, { cause: result });
+      }
+
+      await clock.sleep(delay, signal);
+    }
+  };
+
+  return new AsyncResult(run() as PromiseLike<IResult<R extends { success: true; data: infer D } ? D : never, Extract<IRetryResult<R, P>, { success: false }>>>);
+}
@@ -0,0 +1,70 @@
+import type { IJSONOptions } from './result/types';
+
+/**
+ * Converts a value held by a result into a JSON-safe value.
+ * `Error` instances are converted with `options.serializeError`, nested results with their own `toJSON`,
+ * and arrays and plain objects are walked. Other values are left for `JSON.stringify`.
+ *
+ * @param value - The value to convert
+ * @param options - Serialization options
+ * @returns The converted value
+ */
+export function toWireValue(value: unknown, options: IJSONOptions): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  if (isSerializableResult(value)) {
+    return value.toJSON(options);
+  }
+
+  if (value instanceof Error) {
+    return options.serializeError ? options.serializeError(value) : serializeError(value, options);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => toWireValue(item, options));
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+
+  if (prototype !== Object.prototype && prototype !== null) {
+    return value;
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toWireValue(item, options)]));
+}
+
+/**
+ * Default conversion of `Error` instances, keeping their name, message and optionally their stack.
+ *
+ * @param error - The error to convert
+ * @param options - Serialization options
+ * @returns The converted error
+ */
+function serializeError(error: Error, options: IJSONOptions): { name: string; message: string; stack?: string } {
+  return options.stack && error.stack !== undefined
+    ? { name: error.name, message: error.message, stack: error.stack }
+    : { name: error.name, message: error.message };
+}
+
+/**
+ * Type guard to check if a value is a result that can serialize itself.
+ *
+ * @param value - Value to check
+ * @returns True if the value is a result with a `toJSON` method
+ */
+function isSerializableResult(value: object): value is { toJSON(options: IJSONOptions): unknown } {
+  return typeof (value as { success?: unknown }).success === 'boolean' && typeof (value as { toJSON?: unknown }).toJSON === 'function';
+}
+
+/**
+ * Normalizes the argument received by `toJSON`.
+ * `JSON.stringify` calls `toJSON` with the property key, which is ignored in favour of the default options.
+ *
+ * @param options - Options given to `toJSON`, or the key given by `JSON.stringify`
+ * @returns The serialization options
+ */
+export function jsonOptionsOf(options: unknown): IJSONOptions {
+  return typeof options === 'object' && options !== null ? options as IJSONOptions : {};
+}
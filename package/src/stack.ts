@@ -0,0 +1,75 @@
+import { getConfig } from './config';
+import type { IStackCapture } from './result/types';
+
+/**
+ * Stack trace API of V8, not available in every runtime.
+ */
+type IStackTraceApi = {
+  captureStackTrace?: (target: object, caller?: (...args: unknown[]) => unknown) => void;
+};
+
+const StackTraceApi = Error as unknown as IStackTraceApi;
+
+/**
+ * Objects whose stack trace was captured in `'lazy'` mode, or copied from one.
+ */
+const lazyStacks = new WeakSet<object>();
+
+/**
+ * Captures the stack trace of `target` in its `stack` property, following the given capture mode.
+ * V8 formats a captured trace when it is first read; `'lazy'` traces also stay unformatted when copied by {@link copyStack}.
+ * Does nothing in runtimes without `Error.captureStackTrace`.
+ *
+ * @param target - Object receiving the stack trace
+ * @param caller - Function to exclude from the stack trace, with every frame above it
+ * @param capture - Capture mode, defaults to the configured one
+ */
+export function captureStack(target: { stack?: string }, caller: (...args: unknown[]) => unknown, capture: IStackCapture = getConfig().stackCapture): void {
+  if (typeof StackTraceApi.captureStackTrace !== 'function' || capture === 'off') {
+    return;
+  }
+
+  if (typeof capture === 'object') {
+    if (Math.random() < capture.sampleRate) {
+      StackTraceApi.captureStackTrace(target, caller);
+    }
+    return;
+  }
+
+  StackTraceApi.captureStackTrace(target, caller);
+
+  if (capture === 'lazy') {
+    lazyStacks.add(target);
+  }
+}
+
+/**
+ * Copies the stack trace of `source` to `target`.
+ * A lazily captured trace is not formatted: `target` reads it from `source` when its own `stack` is first read.
+ * Other traces are copied as they are, which formats them as V8 only formats a trace when it is first read.
+ *
+ * @param source - Object holding the stack trace
+ * @param target - Object receiving the stack trace
+ */
+export function copyStack(source: { stack?: string }, target: { stack?: string }): void {
+  if (lazyStacks.has(source)) {
+    lazyStacks.add(target);
+    Object.defineProperty(target, 'stack', {
+      configurable: true,
+      enumerable: false,
+      get() {
+        return source.stack;
+      },
+      set(this: object, value: string | undefined) {
+        Object.defineProperty(this, 'stack', { configurable: true, enumerable: false, writable: true, value });
+      },
+    });
+    return;
+  }
+
+  const descriptor = Object.getOwnPropertyDescriptor(source, 'stack');
+
+  if (descriptor) {
+    Object.defineProperty(target, 'stack', descriptor);
+  }
+}
@@ -0,0 +1,130 @@
+import { Err } from './result/classes';
+import { AsyncResult } from './result/async-result';
+import { AbortedErrorName, TimeoutErrorName } from './result/constants';
+import { systemClock } from './clock';
+import type { IDeadline, IDeadlineOptions, IResult, ITimeoutError, ITimeoutErrorsOf, ITimeoutWork, IUnknownOkErr } from './result/types';
+
+/**
+ * Creates a time budget to share between several steps run with {@link withTimeout}.
+ * A deadline with a parent never expires after it, so inner steps of a chain stay within the outer budget.
+ * Call `dispose` once the deadline is no longer needed so its pending timer does not keep the process alive.
+ *
+ * @param ms - The time budget in milliseconds
+ * @param options - Parent deadline and clock
+ * @returns The deadline
+ *
+ * @example
+ * ```ts
+ * import { deadline, withTimeout } from 'tryless';
+ *
+ * const budget = deadline(5000);
+ * const user = await withTimeout((signal) => fetchUser(id, signal), budget)
+ *   .andThen((user) => withTimeout((signal) => fetchPosts(user, signal), deadline(1000, { parent: budget })));
+ * budget.dispose();
+ * ```
+ */
+export function deadline(ms: number, options: IDeadlineOptions = {}): IDeadline {
+  const { parent, clock = systemClock } = options;
+  const controller = new AbortController();
+  const disposer = new AbortController();
+  const startedAt = clock.now();
+  const expiresAt = Math.min(startedAt + ms, parent?.expiresAt ?? Infinity);
+  const span = Math.max(0, expiresAt - startedAt);
+
+  const dispose = () => {
+    disposer.abort();
+    parent?.signal.removeEventListener('abort', onParentAbort);
+  };
+  const onParentAbort = () => {
+    controller.abort(parent?.signal.reason);
+    dispose();
+  };
+
+  const budget: IDeadline = {
+    ms: span,
+    expiresAt,
+    signal: controller.signal,
+    remaining: () => Math.max(0, expiresAt - clock.now()),
+    dispose,
+  };
+
+  if (parent?.signal.aborted) {
+    onParentAbort();
+  } else {
+    parent?.signal.addEventListener('abort', onParentAbort, { once: true });
+    Promise.resolve(clock.sleep(budget.remaining(), disposer.signal)).then(() => {
+      if (!disposer.signal.aborted) {
+        controller.abort(new DOMException(`The operation timed out after ${span}ms`, 'TimeoutError'));
+        dispose();
+      }
+    });
+  }
+
+  return budget;
+}
+
+/**
+ * Bounds the time a result-returning work may take.
+ * Resolves to the result of the work, or to an `Err<'timeout', { ms }>` (or the given error name)
+ * once the time budget is spent, aborting the signal given to the work.
+ * `ms` is the budget that expired, bounded by the parent of the deadline.
+ * When a shared deadline is aborted for another reason, such as a cancelled parent,
+ * resolves to an `Err<'aborted'>` carrying the abort reason instead.
+ * The work receives its deadline so nested steps can share the same budget.
+ * Rejects if the work throws or rejects.
+ *
+ * @template R - The result type of the work
+ * @template F - String literal type of the timeout error name
+ * @template T - Type of the time budget
+ * @param work - Promise of a result, or function receiving the abort signal and the deadline
+ * @param timeout - Time budget in milliseconds, or a deadline to share
+ * @param error - Name of the timeout error (defaults to `'timeout'`)
+ * @returns AsyncResult of the work result, the timeout error, or the aborted error
+ *
+ * @example
+ * ```ts
+ * import { withTimeout, resultfy } from 'tryless';
+ *
+ * const response = await withTimeout((signal) => resultfy(fetch(url, { signal }), 'fetch:fetch-error'), 5000, 'fetch:timeout');
+ * // Ok<Response> | Err<'fetch:fetch-error', unknown> | Err<'fetch:timeout', { ms: number }>
+ *
+ * // Nested steps share the budget of the outer call
+ * const profile = await withTimeout((signal, budget) =>
+ *   fetchUser(id, signal).andThen((user) => withTimeout((signal) => fetchPosts(user, signal), budget)),
+ * 5000);
+ * ```
+ */
+export function withTimeout<R extends IUnknownOkErr, F extends string = ITimeoutError, T extends number | IDeadline = number | IDeadline>(
+  work: ITimeoutWork<R>,
+  timeout: T,
+  error?: F,
+): AsyncResult<R extends { success: true; data: infer D } ? D : never, ITimeoutErrorsOf<R, F, T>> {
+  const budget: IDeadline = typeof timeout === 'number' ? deadline(timeout) : timeout;
+  const stopped = () => {
+    const reason: unknown = budget.signal.reason;
+    return reason instanceof DOMException && reason.name === 'TimeoutError'
+      ? new Err((error ?? TimeoutErrorName) as F, { ms: budget.ms })
+      : new Err(AbortedErrorName, reason);
+  };
+
+  let onAbort = () => {};
+  const expired = new Promise<unknown>((resolve) => {
+    onAbort = () => resolve(stopped());
+  });
+
+  const running = budget.signal.aborted
+    ? stopped()
+    : Promise.race([
+        Promise.resolve().then(() => typeof work === 'function' ? work(budget.signal, budget) : work),
+        expired,
+      ]);
+
+  budget.signal.addEventListener('abort', onAbort, { once: true });
+
+  const settled = Promise.resolve(running).finally(() => {
+    budget.signal.removeEventListener('abort', onAbort);
+    if (budget !== timeout) budget.dispose();
+  });
+
+  return new AsyncResult(settled as PromiseLike<IResult<R extends { success: true; data: infer D } ? D : never, ITimeoutErrorsOf<R, F, T>>>);
+}
@@ -1,6 +1,7 @@
 import type { IUnknownOkErr } from './result/types';
 import { UnwrapErrorName } from './result/constants';
 import { isNodeEnvironment, inspect } from './runtime';
+import { formatCauseChain } from './format';
 
 /**
  * Error thrown when attempting to unwrap a Result that contains an error,
@@ -36,6 +37,11 @@ export class UnwrapError extends Error {
 
   public resultStack?: string;
 
+  /**
+   * The cause of the failed result, when it was created with one.
+   */
+  public cause?: unknown;
+
   /**
    * Creates a new UnwrapError instance.
    *
@@ -58,6 +64,10 @@ export class UnwrapError extends Error {
     if ('stack' in result) {
       message += ` ${result.stack?.replace('Error\n', '\n\nError created at\n')}`;
     }
+
+    if ('cause' in result) {
+      message += formatCauseChain(result.cause);
+    }
     super(message);
 
     this.stack = obj.stack;
@@ -66,6 +76,9 @@ export class UnwrapError extends Error {
     if ("reason" in result) {
       this.reason = result.reason;
     }
+    if ('cause' in result) {
+      this.cause = result.cause;
+    }
 
     this.name = "UnwrapError";
   }